@@ -0,0 +1,48 @@
+import { deflateSync } from "node:zlib";
+import { computeBudgetUsage, parseByteSize } from "./budgets";
+
+describe("budgets", () => {
+  it("should parse byte sizes", () => {
+    expect(parseByteSize(16384)).toBe(16384);
+    expect(parseByteSize("65536")).toBe(65536);
+    expect(parseByteSize("64kb")).toBe(65536);
+    expect(parseByteSize("1.5 KB")).toBe(1536);
+    expect(parseByteSize("16k")).toBe(16384);
+    expect(parseByteSize("1mb")).toBe(1048576);
+    expect(parseByteSize("512b")).toBe(512);
+    expect(parseByteSize("lots")).toBeUndefined();
+    expect(parseByteSize("-1")).toBeUndefined();
+    expect(parseByteSize(-1)).toBeUndefined();
+  });
+
+  it("should sum chunk types over banks and measure the whole cart", () => {
+    const chunks = [
+      { chunkType: "CODE", data: new Uint8Array(100) },
+      { chunkType: "CODE", data: new Uint8Array(50) },
+      { chunkType: "MAP", data: new Uint8Array(10) },
+    ];
+    expect(computeBudgetUsage({ CODE: "1kb", cart: 100, SFX: 0 }, chunks, 180)).toEqual([
+      { key: "CODE", used: 150, limit: 1024 },
+      { key: "cart", used: 180, limit: 100 },
+      { key: "SFX", used: 0, limit: 0 },
+    ]);
+  });
+
+  it("should measure CODE_COMPRESSED as the compressed CODE when the cart stores plain CODE", () => {
+    const code = new TextEncoder().encode("function TIC() cls(0) cls(0) cls(0) cls(0) end\n".repeat(20));
+    const chunks = [{ chunkType: "CODE", data: code }];
+    const [usage] = computeBudgetUsage({ CODE_COMPRESSED: 16384 }, chunks, 2000);
+
+    expect(usage).toEqual({ key: "CODE_COMPRESSED", used: deflateSync(code).length, limit: 16384 });
+    expect(usage.used).toBeGreaterThan(0);
+    expect(usage.used).toBeLessThan(code.length);
+
+    const compressed = [{ chunkType: "CODE_COMPRESSED", data: new Uint8Array(42) }];
+    expect(computeBudgetUsage({ CODE_COMPRESSED: 100 }, compressed, 50)[0].used).toBe(42);
+  });
+
+  it("should reject unknown keys and invalid sizes", () => {
+    expect(() => computeBudgetUsage({ CODEZ: 1 }, [], 0)).toThrow('Unknown budget "CODEZ"');
+    expect(() => computeBudgetUsage({ CODE: "big" }, [], 0)).toThrow('Invalid size for budget "CODE"');
+  });
+});
@@ -0,0 +1,70 @@
+// size budgets (project.budgets): compo limits checked against the assembled cart.
+//
+// keys are a chunk type (summed over all its banks) or "cart" for the whole output file.
+// limits are byte counts, either numbers or strings like "16384", "64kb", "1.5 KB".
+// a CODE_COMPRESSED budget on a cart which stores plain CODE measures that code compressed (as it would
+// be emitted as CODE_COMPRESSED), so it can be watched without switching the output chunk.
+
+import { deflateSync } from "node:zlib";
+import { kTic80CartChunkTypes } from "../utils/tic80/tic80";
+import { BudgetValue } from "./manifestTypes";
+
+export const kCartBudgetKey = "cart";
+
+const kByteSizeRegex = /^(\d+(?:\.\d+)?)\s*(b|k|kb|m|mb)?$/i;
+const kUnitMultipliers: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 * 1024,
+  mb: 1024 * 1024,
+};
+
+export type BudgetUsage = {
+  key: string; // "cart" or the chunk type
+  used: number;
+  limit: number;
+};
+
+export function parseByteSize(value: BudgetValue): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.floor(value) : undefined;
+  }
+  const match = kByteSizeRegex.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Math.floor(Number(match[1]) * kUnitMultipliers[(match[2] ?? "b").toLowerCase()]);
+}
+
+function sumChunkSizes(
+  chunks: { chunkType: string; data: Uint8Array }[],
+  chunkType: string,
+  measure: (data: Uint8Array) => number,
+): number {
+  return chunks.filter((c) => c.chunkType === chunkType).reduce((sum, c) => sum + measure(c.data), 0);
+}
+
+// usage of every budget, in manifest order. throws on unknown keys or unparsable limits.
+export function computeBudgetUsage(
+  budgets: Record<string, BudgetValue>,
+  chunks: { chunkType: string; data: Uint8Array }[],
+  cartSize: number,
+): BudgetUsage[] {
+  return Object.entries(budgets).map(([key, value]) => {
+    const limit = parseByteSize(value);
+    if (limit === undefined) {
+      throw new Error(`Invalid size for budget "${key}": ${JSON.stringify(value)} (expected bytes, e.g. 16384 or "16kb")`);
+    }
+    if (key === kCartBudgetKey) {
+      return { key, used: cartSize, limit };
+    }
+    if (!kTic80CartChunkTypes.isValidKey(key)) {
+      throw new Error(`Unknown budget "${key}": expected "${kCartBudgetKey}" or a chunk type like CODE or MAP`);
+    }
+    if (key === "CODE_COMPRESSED" && !chunks.some((c) => c.chunkType === key)) {
+      return { key, used: sumChunkSizes(chunks, "CODE", (data) => deflateSync(data).length), limit };
+    }
+    return { key, used: sumChunkSizes(chunks, key, (data) => data.length), limit };
+  });
+}
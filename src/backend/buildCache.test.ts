@@ -0,0 +1,64 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { BuildCache, computeBuildCacheKey } from "./buildCache";
+
+describe("BuildCache", () => {
+  let dir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-cache-"));
+    cacheDir = path.join(dir, "cache");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should key entries by kind and inputs", () => {
+    const key = computeBuildCacheKey("minify", { code: "x=1" });
+    expect(key).toMatch(/^minify-[0-9a-f]{40}$/);
+    expect(computeBuildCacheKey("minify", { code: "x=1" })).toBe(key);
+    expect(computeBuildCacheKey("minify", { code: "x=2" })).not.toBe(key);
+    expect(computeBuildCacheKey("compress", { code: "x=1" })).not.toBe(key);
+  });
+
+  it("should return values stored by a previous instance", () => {
+    new BuildCache(cacheDir).set("a", { code: "hello" });
+    expect(new BuildCache(cacheDir).get("a")).toEqual({ code: "hello" });
+    expect(new BuildCache(cacheDir).get("b")).toBeUndefined();
+  });
+
+  it("should reject entries whose source files changed", () => {
+    const srcPath = path.join(dir, "main.lua");
+    fs.writeFileSync(srcPath, "x = 1", "utf-8");
+    new BuildCache(cacheDir).set("a", "value", [srcPath]);
+    expect(new BuildCache(cacheDir).get("a")).toBe("value");
+
+    fs.writeFileSync(srcPath, "x = 2", "utf-8");
+    expect(new BuildCache(cacheDir).get("a")).toBeUndefined();
+
+    fs.rmSync(srcPath);
+    expect(new BuildCache(cacheDir).get("a")).toBeUndefined();
+  });
+
+  it("should not cache when a source file is missing", () => {
+    const cache = new BuildCache(cacheDir);
+    cache.set("a", "value", [path.join(dir, "missing.lua")]);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should prune entries not used since it was created", () => {
+    const first = new BuildCache(cacheDir);
+    first.set("a", 1);
+    first.set("b", 2);
+
+    const second = new BuildCache(cacheDir);
+    expect(second.get("a")).toBe(1);
+    second.set("c", 3);
+    second.prune();
+
+    expect(fs.readdirSync(cacheDir).sort()).toEqual(["a.json", "c.json"]);
+  });
+});
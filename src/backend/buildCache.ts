@@ -0,0 +1,102 @@
+// persistent cache of expensive import outputs (preprocessed / minified / compressed Lua) in objDir,
+// so unchanged imports are reused across `build` and `watch` runs.
+//
+// entries are JSON files named by a hash of everything that went into them, plus the ticbuild version.
+// entries produced from source files also record those files' content hashes and are rejected if any changed.
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { buildInfo } from "../buildInfo";
+import { ensureDir } from "../utils/fileSystem";
+
+export type CachedFileHash = {
+  path: string;
+  hash: string;
+};
+
+type CacheEntry<T> = {
+  version: string;
+  files: CachedFileHash[];
+  value: T;
+};
+
+function hashFileContent(filePath: string): string | undefined {
+  try {
+    return createHash("sha1").update(fs.readFileSync(filePath)).digest("hex");
+  } catch {
+    return undefined;
+  }
+}
+
+export function computeBuildCacheKey(kind: string, inputs: unknown): string {
+  const hash = createHash("sha1").update(JSON.stringify([buildInfo.version, kind, inputs])).digest("hex");
+  return `${kind}-${hash}`;
+}
+
+///////////////////////////////////////////////////////////////////////////////////////////////////
+export class BuildCache {
+  cacheDir: string;
+  private usedKeys = new Set<string>();
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  // returns undefined on a miss, or when any recorded source file changed.
+  get<T>(key: string): T | undefined {
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(fs.readFileSync(this.entryPath(key), "utf-8"));
+    } catch {
+      return undefined;
+    }
+    if (entry.version !== buildInfo.version) {
+      return undefined;
+    }
+    for (const file of entry.files) {
+      if (hashFileContent(file.path) !== file.hash) {
+        return undefined;
+      }
+    }
+    this.usedKeys.add(key);
+    return entry.value;
+  }
+
+  // value must be JSON-serializable. files are hashed now; the caller must have read them before
+  // producing the value so the recorded hashes describe the inputs.
+  set<T>(key: string, value: T, filePaths: string[] = []): void {
+    const files: CachedFileHash[] = [];
+    for (const filePath of filePaths) {
+      const hash = hashFileContent(filePath);
+      if (hash === undefined) {
+        return; // can't validate later; don't cache
+      }
+      files.push({ path: filePath, hash });
+    }
+    const entry: CacheEntry<T> = { version: buildInfo.version, files, value };
+    ensureDir(this.cacheDir);
+    fs.writeFileSync(this.entryPath(key), JSON.stringify(entry), "utf-8");
+    this.usedKeys.add(key);
+  }
+
+  // deletes entries which weren't read or written since this cache was created,
+  // so the cache only holds what the last build used.
+  prune(): void {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.cacheDir);
+    } catch {
+      return;
+    }
+    for (const name of names) {
+      if (name.endsWith(".json") && !this.usedKeys.has(name.slice(0, -".json".length))) {
+        fs.rmSync(path.join(this.cacheDir, name), { force: true });
+      }
+    }
+  }
+}
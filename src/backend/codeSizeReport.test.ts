@@ -0,0 +1,72 @@
+import * as path from "node:path";
+import { attributeCodeSize } from "./codeSizeReport";
+import { ProjectIndex } from "./symbolIndex";
+
+describe("attributeCodeSize", () => {
+  const projectRoot = path.resolve("/project");
+  const mainPath = path.join(projectRoot, "main.lua");
+  const source = "function f()\n  return 1\nend\nx = 2\n";
+  const minified = "-- title: t\nfunction f() return 1 end x=2";
+
+  // only the fields attribution uses
+  const symbolIndex = {
+    files: {
+      "main.lua": {
+        symbols: {
+          f: { name: "f", kind: "function", range: { start: 0, length: source.indexOf("end") + 3 } },
+          x: { name: "x", kind: "globalVariable", range: { start: source.indexOf("x"), length: 1 } },
+        },
+      },
+    },
+  } as unknown as ProjectIndex;
+
+  const attribute = () =>
+    attributeCodeSize(
+      {
+        projectRoot,
+        preprocessorMap: {
+          preprocessedFile: { charLength: source.length, hash: "" },
+          segments: [{ ppBegin: 0, ppEnd: source.length, originalFile: mainPath, originalOffset: 0 }],
+        },
+        minifiedSource: minified,
+        minifiedMap: {
+          minifiedFile: { charLength: minified.length, hash: "" },
+          entries: [
+            { minifiedOffset: minified.indexOf("function"), originalFile: mainPath, originalOffset: 0 },
+            {
+              minifiedOffset: minified.indexOf("return"),
+              originalFile: mainPath,
+              originalOffset: source.indexOf("return"),
+            },
+            { minifiedOffset: minified.indexOf("x="), originalFile: mainPath, originalOffset: source.indexOf("x") },
+          ],
+        },
+        symbolIndex,
+      },
+      (file) => (file === "main.lua" ? source : undefined),
+    );
+
+  it("should attribute preprocessed and minified bytes to files and functions", () => {
+    const { files, functions } = attribute();
+    expect(files).toEqual([
+      expect.objectContaining({ file: "main.lua", preprocessedBytes: source.length, minifiedBytes: 29 }),
+      expect.objectContaining({ file: "", preprocessedBytes: 0, minifiedBytes: "-- title: t\n".length }),
+    ]);
+    expect(functions).toEqual([
+      expect.objectContaining({
+        file: "main.lua",
+        functionName: "f",
+        line: 1,
+        preprocessedBytes: source.indexOf("end") + 3,
+        minifiedBytes: "function f() return 1 end ".length,
+      }),
+    ]);
+  });
+
+  it("should estimate compressed contributions", () => {
+    const { files, functions } = attribute();
+    for (const unit of [...files, ...functions]) {
+      expect(unit.compressedBytes).toBeGreaterThan(0);
+    }
+  });
+});
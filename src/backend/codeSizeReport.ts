@@ -0,0 +1,211 @@
+// attributes the size of built code to the original source files and functions, for golfing size-limited carts.
+//
+// - preprocessed bytes come from the preprocessor source map (macro expansions count toward where they're used).
+// - minified bytes come from the minified source map, which has one entry per printed statement;
+//   each statement's text counts toward the innermost function around its original location.
+// - compressed bytes are estimated as how much smaller the compressed code gets without the unit's
+//   minified text. compression is global, so these don't add up to the total; they're for ranking.
+
+import { deflateSync } from "node:zlib";
+import { LuaMinifiedSourceMap, LuaPreprocessorSourceMap } from "./sourceMap";
+import { normalizePath, ProjectIndex } from "./symbolIndex";
+
+export type CodeSizeUnit = {
+  file: string; // project-relative; "" for generated code with no known origin
+  functionName?: string; // unset for a whole file
+  line?: number; // 1-based line of the function
+  preprocessedBytes: number;
+  minifiedBytes: number;
+  compressedBytes: number; // estimated; see above
+};
+
+export type CodeSizeAttribution = {
+  files: CodeSizeUnit[]; // largest minified first
+  functions: CodeSizeUnit[]; // largest minified first; excludes nested functions' code
+};
+
+export type CodeSizeAttributionInput = {
+  projectRoot: string;
+  preprocessorMap: LuaPreprocessorSourceMap;
+  minifiedSource: string;
+  minifiedMap: LuaMinifiedSourceMap;
+  symbolIndex: ProjectIndex;
+};
+
+type FunctionSpan = {
+  name: string;
+  start: number;
+  end: number;
+};
+
+type Owner = {
+  file: string;
+  fn?: FunctionSpan;
+};
+
+type Tally = {
+  owner: Owner;
+  preprocessedBytes: number;
+  minifiedRanges: [number, number][];
+};
+
+function computeLineOf(fileText: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < fileText.length; i++) {
+    if (fileText.charCodeAt(i) === 10) {
+      line++;
+    }
+  }
+  return line;
+}
+
+// function spans per (normalized) file, from the symbol index.
+function collectFunctionSpans(index: ProjectIndex): Map<string, FunctionSpan[]> {
+  const spansByFile = new Map<string, FunctionSpan[]>();
+  for (const [file, fileIndex] of Object.entries(index.files)) {
+    const spans: FunctionSpan[] = [];
+    for (const symbol of Object.values(fileIndex.symbols)) {
+      if (symbol.kind !== "function") {
+        continue;
+      }
+      spans.push({ name: symbol.name, start: symbol.range.start, end: symbol.range.start + symbol.range.length });
+    }
+    spans.sort((a, b) => a.start - b.start);
+    spansByFile.set(file, spans);
+  }
+  return spansByFile;
+}
+
+// compressed size without the given ranges of code.
+function compressedSizeWithout(code: string, ranges: [number, number][]): number {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  let remaining = "";
+  let pos = 0;
+  for (const [start, end] of sorted) {
+    if (start > pos) {
+      remaining += code.slice(pos, start);
+    }
+    pos = Math.max(pos, end);
+  }
+  remaining += code.slice(pos);
+  return deflateSync(Buffer.from(remaining)).length;
+}
+
+export function attributeCodeSize(
+  input: CodeSizeAttributionInput,
+  readFile?: (file: string) => string | undefined, // for function line numbers; keyed like the symbol index
+): CodeSizeAttribution {
+  const spansByFile = collectFunctionSpans(input.symbolIndex);
+  const fileTallies = new Map<string, Tally>();
+  const functionTallies = new Map<FunctionSpan, Tally>();
+
+  const tallyFor = (owner: Owner): Tally[] => {
+    let fileTally = fileTallies.get(owner.file);
+    if (!fileTally) {
+      fileTally = { owner: { file: owner.file }, preprocessedBytes: 0, minifiedRanges: [] };
+      fileTallies.set(owner.file, fileTally);
+    }
+    if (!owner.fn) {
+      return [fileTally];
+    }
+    let fnTally = functionTallies.get(owner.fn);
+    if (!fnTally) {
+      fnTally = { owner, preprocessedBytes: 0, minifiedRanges: [] };
+      functionTallies.set(owner.fn, fnTally);
+    }
+    return [fileTally, fnTally];
+  };
+
+  // innermost function containing offset
+  const findOwner = (rawFile: string, offset: number): Owner => {
+    const file = rawFile ? normalizePath(input.projectRoot, rawFile) : "";
+    let fn: FunctionSpan | undefined;
+    for (const span of spansByFile.get(file) ?? []) {
+      if (span.start > offset) {
+        break;
+      }
+      if (offset < span.end && (!fn || span.end - span.start < fn.end - fn.start)) {
+        fn = span;
+      }
+    }
+    return { file, fn };
+  };
+
+  for (const segment of input.preprocessorMap.segments) {
+    const length = segment.ppEnd - segment.ppBegin;
+    if (length <= 0) {
+      continue;
+    }
+    // split at function boundaries so each piece has a single owner.
+    const file = segment.originalFile ? normalizePath(input.projectRoot, segment.originalFile) : "";
+    const begin = segment.originalOffset;
+    const end = begin + length;
+    const cuts = new Set<number>([begin, end]);
+    for (const span of spansByFile.get(file) ?? []) {
+      for (const cut of [span.start, span.end]) {
+        if (cut > begin && cut < end) {
+          cuts.add(cut);
+        }
+      }
+    }
+    const points = Array.from(cuts).sort((a, b) => a - b);
+    for (let i = 0; i + 1 < points.length; i++) {
+      for (const tally of tallyFor(findOwner(segment.originalFile, points[i]))) {
+        tally.preprocessedBytes += points[i + 1] - points[i];
+      }
+    }
+  }
+
+  const entries = input.minifiedMap.entries;
+  const codeLength = input.minifiedSource.length;
+  if (entries.length === 0 || entries[0].minifiedOffset > 0) {
+    // e.g. the metadata header
+    const end = entries.length > 0 ? entries[0].minifiedOffset : codeLength;
+    tallyFor({ file: "" })[0].minifiedRanges.push([0, end]);
+  }
+  entries.forEach((entry, i) => {
+    const end = i + 1 < entries.length ? entries[i + 1].minifiedOffset : codeLength;
+    if (end <= entry.minifiedOffset) {
+      return;
+    }
+    for (const tally of tallyFor(findOwner(entry.originalFile, entry.originalOffset))) {
+      tally.minifiedRanges.push([entry.minifiedOffset, end]);
+    }
+  });
+
+  const fileTexts = new Map<string, string | undefined>();
+  const readFileCached = (file: string): string | undefined => {
+    if (!fileTexts.has(file)) {
+      fileTexts.set(file, readFile?.(file));
+    }
+    return fileTexts.get(file);
+  };
+
+  const totalCompressed = compressedSizeWithout(input.minifiedSource, []);
+  const toUnit = (tally: Tally): CodeSizeUnit => {
+    const unit: CodeSizeUnit = {
+      file: tally.owner.file,
+      preprocessedBytes: tally.preprocessedBytes,
+      minifiedBytes: tally.minifiedRanges.reduce((sum, [start, end]) => sum + end - start, 0),
+      compressedBytes:
+        tally.minifiedRanges.length > 0
+          ? totalCompressed - compressedSizeWithout(input.minifiedSource, tally.minifiedRanges)
+          : 0,
+    };
+    if (tally.owner.fn) {
+      unit.functionName = tally.owner.fn.name;
+      const text = readFileCached(tally.owner.file);
+      if (text !== undefined) {
+        unit.line = computeLineOf(text, tally.owner.fn.start);
+      }
+    }
+    return unit;
+  };
+  const bySize = (a: CodeSizeUnit, b: CodeSizeUnit) =>
+    b.minifiedBytes - a.minifiedBytes || b.preprocessedBytes - a.preprocessedBytes;
+
+  return {
+    files: Array.from(fileTallies.values(), toUnit).sort(bySize),
+    functions: Array.from(functionTallies.values(), toUnit).sort(bySize),
+  };
+}
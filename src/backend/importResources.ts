@@ -1,8 +1,12 @@
 // importing -> ImportedResource -> assembly
 
 import { assert } from "../utils/errorHandling";
+import { BuildCache } from "./buildCache";
 import { ImportedResourceBase, ResourceManager } from "./ImportedResourceTypes";
 import { importLuaCode } from "./importers/LuaCodeImporter";
+import { importImage } from "./importers/imageImporter";
+import { importPalette } from "./importers/paletteImporter";
+import { importTiledMap } from "./importers/tiledMapImporter";
 import { importBinaryResource } from "./importers/binaryResourceImporter";
 import { importTextResource } from "./importers/textResourceImporter";
 import { importTic80Cart } from "./importers/tic80CartImporter";
@@ -10,7 +14,7 @@ import { kImportKind } from "./manifestTypes";
 import { TicbuildProjectCore } from "./projectCore";
 
 //
-export async function loadAllImports(project: TicbuildProjectCore): Promise<ResourceManager> {
+export async function loadAllImports(project: TicbuildProjectCore, buildCache?: BuildCache): Promise<ResourceManager> {
   //  scan imports, select appropriate importer for each import,
   //  invoke importer to get ImportedResourceBase
   //  store in map of identifier -> ImportedResourceBase
@@ -29,7 +33,7 @@ export async function loadAllImports(project: TicbuildProjectCore): Promise<Reso
         break;
       case kImportKind.key.LuaCode:
         // invoke lua code importer
-        const luaCodeImportTask = importLuaCode(project, importDef);
+        const luaCodeImportTask = importLuaCode(project, importDef, buildCache);
         tasks.push(luaCodeImportTask);
         break;
       case kImportKind.key.binary: {
@@ -42,6 +46,21 @@ export async function loadAllImports(project: TicbuildProjectCore): Promise<Reso
         tasks.push(textImportTask);
         break;
       }
+      case kImportKind.key.image: {
+        const imageImportTask = importImage(project, importDef);
+        tasks.push(imageImportTask);
+        break;
+      }
+      case kImportKind.key.palette: {
+        const paletteImportTask = importPalette(project, importDef);
+        tasks.push(paletteImportTask);
+        break;
+      }
+      case kImportKind.key.tiledMap: {
+        const tiledMapImportTask = importTiledMap(project, importDef);
+        tasks.push(tiledMapImportTask);
+        break;
+      }
       default:
         throw new Error(`Unsupported import kind: ${importDef.kind}`);
     }
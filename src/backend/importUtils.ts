@@ -18,6 +18,7 @@ export function IsImportReference(value: string): boolean {
 export type ImportReference = {
   importName: string;
   chunkSpec?: Tic80CartChunkTypeKey;
+  subResource?: string; // the raw segment after the import name, e.g. an object layer name for Tiled maps
 };
 
 export type ImportDataResult<T> = {
@@ -47,7 +48,7 @@ export function parseImportReference(reference: string): ImportReference {
     return kTic80CartChunkTypes.coerceByKey(chunkSpec)?.key;
   })();
 
-  return { importName, chunkSpec: coercedChunkSpec };
+  return { importName, chunkSpec: coercedChunkSpec, subResource: chunkSpec || undefined };
 }
 
 function resolveSourceEncodingKey(importDef: ImportDefinition): SourceEncodingKey {
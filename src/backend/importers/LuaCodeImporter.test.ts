@@ -1,6 +1,12 @@
-import { LuaCodeResourceView } from "./LuaCodeImporter";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { deflateSync } from "node:zlib";
+import { importLuaCode, LuaCodeResourceView } from "./LuaCodeImporter";
+import { OptimizationRuleOptions, processLua } from "../../utils/lua/lua_processor";
+import { BuildCache } from "../buildCache";
 import { TicbuildProjectCore } from "../projectCore";
-import { Manifest } from "../manifestTypes";
+import { LuaMinificationConfig, Manifest } from "../manifestTypes";
 
 function makeProject(manifest: Manifest): TicbuildProjectCore {
   return new TicbuildProjectCore({
@@ -138,3 +144,140 @@ describe("LuaCodeResourceView emitGlobals", () => {
     expect(() => view.getDataForChunk(project, "CODE")).toThrow("Project metadata desc must be a single line");
   });
 });
+
+describe("LuaCodeResourceView compression-aware minification", () => {
+  function makeMinifyingProject(minification: LuaMinificationConfig): TicbuildProjectCore {
+    return makeProject({
+      project: {
+        name: "test",
+        binDir: "./bin",
+        objDir: "./obj",
+        outputCartName: "test.tic",
+      },
+      variables: {},
+      imports: [],
+      assembly: {
+        lua: {
+          minify: true,
+          minification,
+        },
+        blocks: [],
+      },
+    });
+  }
+
+  const source = Array.from(
+    { length: 12 },
+    (_, i) => `function draw_${i}(x, y)\n  print("score", x, y)\n  spr(${i}, x, y, 0)\nend\n`,
+  ).join("");
+
+  const rules: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 180,
+    optimizeFor: "compressed",
+    aliasRepeatedExpressions: true,
+    renameLocalVariables: true,
+    aliasLiterals: true,
+    packLocalDeclarations: true,
+    simplifyExpressions: true,
+    removeUnusedLocals: true,
+    removeUnusedFunctions: false,
+    aliasGlobals: false,
+    functionNamesToKeep: [],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  it("should never compress worse than the configured rules", () => {
+    const project = makeMinifyingProject(rules);
+    const view = new LuaCodeResourceView(source, source);
+
+    const compressed = view.getDataForChunk(project, "CODE_COMPRESSED");
+    const code = new TextDecoder().decode(view.getDataForChunk(project, "CODE"));
+    const allRules = processLua(source, rules);
+    expect(compressed.length).toBeLessThanOrEqual(deflateSync(Buffer.from(allRules)).length);
+    expect(code).toContain("function draw_0(a,b)");
+    expect(code).toContain("function draw_11(a,b)");
+  });
+
+  it("should give every local a unique name when optimizing for size", () => {
+    const project = makeMinifyingProject({ ...rules, optimizeFor: "size" });
+    const view = new LuaCodeResourceView(source, source);
+
+    const code = new TextDecoder().decode(view.getDataForChunk(project, "CODE"));
+    expect(code).toContain("function draw_0(c,d)");
+    expect(code).toContain("function draw_1(e,f)");
+  });
+});
+
+describe("LuaCodeResourceView constant globals", () => {
+  it("should fold away branches on globals from assembly.lua.globals", () => {
+    const manifest: Manifest = {
+      project: {
+        name: "test",
+        binDir: "./bin",
+        objDir: "./obj",
+        outputCartName: "test.tic",
+      },
+      variables: {},
+      imports: [],
+      assembly: {
+        lua: {
+          minify: true,
+          globals: {
+            ENABLE_HUD: false,
+          },
+        },
+        blocks: [],
+      },
+    };
+
+    const project = makeProject(manifest);
+    const source = "function TIC()\n  cls(0)\n  if ENABLE_HUD then\n    print('hud', 0, 0)\n  end\nend\n";
+    const view = new LuaCodeResourceView(source, source);
+
+    const output = new TextDecoder().decode(view.getDataForChunk(project, "CODE"));
+    expect(output).toBe("function TIC() cls(0) end\n");
+  });
+});
+
+describe("importLuaCode build cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-luaimport-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should preprocess again when a new file shadows an include", async () => {
+    fs.mkdirSync(path.join(dir, "lib"));
+    fs.writeFileSync(path.join(dir, "lib", "util.lua"), "LIB = 1\n", "utf-8");
+    fs.writeFileSync(path.join(dir, "main.lua"), '--#include "util.lua"\n', "utf-8");
+    const spec = { name: "maincode", path: "main.lua", kind: "LuaCode" as const };
+    const project = new TicbuildProjectCore({
+      manifest: {
+        project: { name: "test", binDir: "./bin", objDir: "./obj", outputCartName: "test.tic", includeDirs: ["lib"] },
+        variables: {},
+        imports: [spec],
+        assembly: { blocks: [] },
+      },
+      manifestPath: path.join(dir, "manifest.ticbuild.jsonc"),
+      projectDir: dir,
+    });
+    const cacheDir = path.join(dir, "obj", "cache");
+
+    const first = await importLuaCode(project, spec, new BuildCache(cacheDir));
+    expect(first.view.preprocessedSource).toContain("LIB = 1");
+
+    // the including file's directory is searched before includeDirs
+    fs.writeFileSync(path.join(dir, "util.lua"), "LOCAL = 2\n", "utf-8");
+    const second = await importLuaCode(project, spec, new BuildCache(cacheDir));
+    expect(second.view.preprocessedSource).toContain("LOCAL = 2");
+    expect(second.view.preprocessedSource).not.toContain("LIB = 1");
+  });
+});
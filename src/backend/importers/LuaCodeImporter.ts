@@ -4,13 +4,26 @@
 import { deflateSync } from "node:zlib";
 import { readTextFileAsync } from "../../utils/fileSystem";
 import { toLuaStringLiteral } from "../../utils/lua/lua_fundamentals";
-import { OptimizationRuleOptions, processLua } from "../../utils/lua/lua_processor";
+import {
+  buildLineSourceMarks,
+  LuaProcessResult,
+  LuaSourceMark,
+  OptimizationRuleOptions,
+  processLuaWithSourceMarks,
+} from "../../utils/lua/lua_processor";
 import { Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
 import { CoalesceBool } from "../../utils/utils";
+import { BuildCache, computeBuildCacheKey } from "../buildCache";
 import { ExternalDependency, ImportedResourceBase, ResourceViewBase } from "../ImportedResourceTypes";
-import { preprocessLuaCode, LuaPreprocessResult } from "../luaPreprocessor";
+import {
+  preprocessLuaCode,
+  LuaIncludeResolution,
+  LuaPreprocessResult,
+  resolveLuaIncludePath,
+} from "../luaPreprocessor";
 import { ImportDefinition, LuaMinificationConfig } from "../manifestTypes";
 import { TicbuildProjectCore } from "../projectCore";
+import { buildMinifiedSourceMap, LuaMinifiedSourceMap } from "../sourceMap";
 
 const releaseOptions: OptimizationRuleOptions = {
   stripComments: true,
@@ -18,6 +31,7 @@ const releaseOptions: OptimizationRuleOptions = {
   maxIndentLevel: 1,
   lineBehavior: "tight",
   maxLineLength: 180,
+  optimizeFor: "size",
   aliasRepeatedExpressions: true,
   renameLocalVariables: true,
   aliasLiterals: true,
@@ -25,6 +39,7 @@ const releaseOptions: OptimizationRuleOptions = {
   simplifyExpressions: true,
   removeUnusedLocals: true,
   removeUnusedFunctions: false,
+  aliasGlobals: false,
   functionNamesToKeep: ["TIC", "BDR", "SCN"],
   renameTableFields: false,
   tableEntryKeysToRename: [],
@@ -34,6 +49,7 @@ export type LuaCodeArtifacts = {
   inputSource: string;
   preprocessedSource: string;
   minifiedSource: string;
+  minifiedSourceMarks: LuaSourceMark[]; // minified offset -> preprocessed offset
   compressedBytes: Uint8Array;
 };
 
@@ -44,17 +60,42 @@ export type LuaCodeSizeStats = {
   compressedBytes: number;
 };
 
+// bytes saved by one minification step, measured with the steps before it already applied.
+export type MinificationRuleSavings = {
+  rule: string; // "formatting" (whitespace / line packing), or an OptimizationRuleOptions key
+  minifiedBytes: number;
+  compressedBytes: number;
+};
+
+// the minifier's rules in the order it applies them; list-valued rules are off when empty.
+const kMinificationRuleOrder = [
+  "stripComments",
+  "simplifyExpressions",
+  "removeUnusedLocals",
+  "removeUnusedFunctions",
+  "aliasGlobals",
+  "aliasLiterals",
+  "aliasRepeatedExpressions",
+  "packLocalDeclarations",
+  "renameLocalVariables",
+  "tableEntryKeysToRename",
+  "renameTableFields",
+] as const satisfies readonly (keyof OptimizationRuleOptions)[];
+
 export class LuaCodeResourceView extends ResourceViewBase {
   inputSource: string;
   preprocessedSource: string;
   private cachedMinifiedSource: string | null = null;
+  private cachedMinifiedSourceMarks: LuaSourceMark[] = [];
   private cachedCompressedBytes: Uint8Array | null = null;
   private cachedMinifyEnabled: boolean | null = null;
+  private buildCache: BuildCache | undefined;
 
-  constructor(inputSource: string, preprocessedSource: string) {
+  constructor(inputSource: string, preprocessedSource: string, buildCache?: BuildCache) {
     super();
     this.inputSource = inputSource;
     this.preprocessedSource = preprocessedSource;
+    this.buildCache = buildCache;
   }
   getDataForChunk(
     project: TicbuildProjectCore,
@@ -97,6 +138,7 @@ export class LuaCodeResourceView extends ResourceViewBase {
       inputSource: this.inputSource,
       preprocessedSource: this.preprocessedSource,
       minifiedSource,
+      minifiedSourceMarks: this.cachedMinifiedSourceMarks,
       compressedBytes,
     };
   }
@@ -112,34 +154,144 @@ export class LuaCodeResourceView extends ResourceViewBase {
     };
   }
 
+  // enables the configured rules one at a time, measuring each one's savings. empty when minification is off.
+  getMinificationRuleSavings(project: TicbuildProjectCore): MinificationRuleSavings[] {
+    if (!CoalesceBool(project.manifest.assembly.lua?.minify, true)) {
+      return [];
+    }
+    const input = this.injectGlobals(project, this.preprocessedSource);
+    const configured = buildMinificationOptions(project.manifest.assembly.lua?.minification);
+    const options: OptimizationRuleOptions = { ...configured, tableEntryKeysToRename: [] };
+    for (const rule of kMinificationRuleOrder) {
+      if (rule !== "tableEntryKeysToRename") {
+        options[rule] = false;
+      }
+    }
+
+    const measure = (code: string) => ({
+      minifiedBytes: new TextEncoder().encode(code).length,
+      compressedBytes: deflateSync(Buffer.from(code)).length,
+    });
+    const savings: MinificationRuleSavings[] = [];
+    let previous = measure(input);
+    const addStep = (rule: string) => {
+      const current = measure(this.minify(input, options).code);
+      savings.push({
+        rule,
+        minifiedBytes: previous.minifiedBytes - current.minifiedBytes,
+        compressedBytes: previous.compressedBytes - current.compressedBytes,
+      });
+      previous = current;
+    };
+
+    addStep("formatting");
+    for (const rule of kMinificationRuleOrder) {
+      if (rule === "tableEntryKeysToRename") {
+        if (configured.tableEntryKeysToRename.length === 0) {
+          continue;
+        }
+        options.tableEntryKeysToRename = configured.tableEntryKeysToRename;
+      } else {
+        if (!configured[rule]) {
+          continue;
+        }
+        options[rule] = true;
+      }
+      addStep(rule);
+    }
+    return savings;
+  }
+
   private getMinifiedSource(project: TicbuildProjectCore, minifyEnabled: boolean, emitGlobals: boolean): string {
     if (this.cachedMinifyEnabled === minifyEnabled && this.cachedMinifiedSource && emitGlobals) {
       return this.cachedMinifiedSource;
     }
 
-    let code = emitGlobals ? this.injectGlobals(project, this.preprocessedSource) : this.preprocessedSource;
+    const input = emitGlobals ? this.injectGlobals(project, this.preprocessedSource) : this.preprocessedSource;
+    let result: LuaProcessResult = { code: input, marks: buildLineSourceMarks(input) };
     if (minifyEnabled) {
       const options = buildMinificationOptions(project.manifest.assembly.lua?.minification);
-      code = processLua(code, options);
+      result =
+        options.optimizeFor === "compressed" ? this.minifyForCompression(input, options) : this.minify(input, options);
     }
-    code = this.injectMetadata(project, code);
+    const code = this.injectMetadata(project, result.code);
 
     if (emitGlobals) {
+      // marks relative to the preprocessed source; the injected globals have no origin there.
+      const headerLength = input.length - this.preprocessedSource.length;
+      const metadataLength = code.length - result.code.length;
       this.cachedMinifyEnabled = minifyEnabled;
       this.cachedMinifiedSource = code;
+      this.cachedMinifiedSourceMarks = result.marks
+        .filter((m) => m.inputOffset >= headerLength)
+        .map((m) => ({ outputOffset: m.outputOffset + metadataLength, inputOffset: m.inputOffset - headerLength }));
       this.cachedCompressedBytes = null;
     }
     return code;
   }
 
+  private minify(code: string, options: OptimizationRuleOptions): LuaProcessResult {
+    if (!this.buildCache) {
+      return processLuaWithSourceMarks(code, options);
+    }
+    const key = computeBuildCacheKey("minify", { code, options });
+    const cached = this.buildCache.get<LuaProcessResult>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = processLuaWithSourceMarks(code, options);
+    this.buildCache.set(key, result);
+    return result;
+  }
+
+  // rules which shrink the code can still make it compress worse (e.g. aliasing breaks up repeated text).
+  // tries turning each enabled rule off, in the order they're applied, and keeps it off if that compresses smaller.
+  private minifyForCompression(code: string, options: OptimizationRuleOptions): LuaProcessResult {
+    const compressedSize = (result: LuaProcessResult) => deflateSync(Buffer.from(result.code)).length;
+    let best = this.minify(code, options);
+    let bestSize = compressedSize(best);
+    let current = options;
+    for (const rule of kMinificationRuleOrder) {
+      let candidate: OptimizationRuleOptions;
+      if (rule === "tableEntryKeysToRename") {
+        if (current.tableEntryKeysToRename.length === 0) {
+          continue;
+        }
+        candidate = { ...current, tableEntryKeysToRename: [] };
+      } else {
+        if (!current[rule]) {
+          continue;
+        }
+        candidate = { ...current, [rule]: false };
+      }
+      const result = this.minify(code, candidate);
+      const size = compressedSize(result);
+      if (size < bestSize) {
+        best = result;
+        bestSize = size;
+        current = candidate;
+      }
+    }
+    return best;
+  }
+
   private getCompressedBytes(minifiedSource: string): Uint8Array {
     if (this.cachedCompressedBytes) {
       return this.cachedCompressedBytes;
     }
+    const key = this.buildCache ? computeBuildCacheKey("compress", minifiedSource) : undefined;
+    const cached = key ? this.buildCache!.get<string>(key) : undefined;
+    if (cached !== undefined) {
+      this.cachedCompressedBytes = new Uint8Array(Buffer.from(cached, "base64"));
+      return this.cachedCompressedBytes;
+    }
     const encoder = new TextEncoder();
     const rawBytes = encoder.encode(minifiedSource);
     const compressed = deflateSync(Buffer.from(rawBytes));
     this.cachedCompressedBytes = new Uint8Array(compressed);
+    if (key) {
+      this.buildCache!.set(key, Buffer.from(compressed).toString("base64"));
+    }
     return this.cachedCompressedBytes;
   }
 
@@ -213,9 +365,10 @@ export class LuaCodeResource extends ImportedResourceBase {
     preprocessedSource: string,
     dependencies: string[],
     preprocessResult: LuaPreprocessResult,
+    buildCache?: BuildCache,
   ) {
     super();
-    this.view = new LuaCodeResourceView(inputSource, preprocessedSource);
+    this.view = new LuaCodeResourceView(inputSource, preprocessedSource, buildCache);
     this.filePath = filePath;
     this.dependencies = dependencies;
     this.preprocessResult = preprocessResult;
@@ -237,6 +390,20 @@ export class LuaCodeResource extends ImportedResourceBase {
     return this.view.getSizeStats(project);
   }
 
+  getMinificationRuleSavings(project: TicbuildProjectCore): MinificationRuleSavings[] {
+    return this.view.getMinificationRuleSavings(project);
+  }
+
+  // maps offsets in the minified output back to the original source files.
+  getMinifiedSourceMap(project: TicbuildProjectCore): LuaMinifiedSourceMap {
+    const artifacts = this.view.getArtifacts(project);
+    return buildMinifiedSourceMap(
+      artifacts.minifiedSource,
+      artifacts.minifiedSourceMarks,
+      this.preprocessResult.sourceMap,
+    );
+  }
+
   getView(project: TicbuildProjectCore, chunks?: Tic80CartChunkTypeKey[]) {
     if (!chunks) {
       return this.view;
@@ -260,13 +427,61 @@ export class LuaCodeResource extends ImportedResourceBase {
   }
 }
 
+function includeResolvesTo(project: TicbuildProjectCore, include: LuaIncludeResolution): boolean {
+  try {
+    return resolveLuaIncludePath(project, include.target, include.fromFile) === include.resolvedPath;
+  } catch {
+    return false;
+  }
+}
+
+// preprocessing result is reused from the build cache when the source, every file it pulled in,
+// and the manifest settings which can affect it are unchanged, and each include still resolves to
+// the same file (a new file earlier in the search path shadows the old one).
+async function preprocessLuaCodeCached(
+  project: TicbuildProjectCore,
+  source: string,
+  filePath: string,
+  buildCache: BuildCache | undefined,
+): Promise<LuaPreprocessResult> {
+  if (!buildCache) {
+    return preprocessLuaCode(project, source, filePath);
+  }
+  const key = computeBuildCacheKey("preprocess", {
+    filePath,
+    source,
+    project: project.manifest.project, // include dirs etc.
+    preprocessor: project.manifest.preprocessor,
+    imports: project.manifest.imports, // __IMPORT
+    variables: Array.from(project.allVariables.entries()).map(([name, info]) => [name, info.resolvedValue]),
+  });
+  const cached = buildCache.get<LuaPreprocessResult>(key);
+  if (cached && cached.includes.every((include) => includeResolvesTo(project, include))) {
+    return cached;
+  }
+  const result = await preprocessLuaCode(project, source, filePath);
+  buildCache.set(key, result, result.dependencies);
+  return result;
+}
+
 // spec is assumed to be in the project.
-export async function importLuaCode(project: TicbuildProjectCore, spec: ImportDefinition): Promise<LuaCodeResource> {
+export async function importLuaCode(
+  project: TicbuildProjectCore,
+  spec: ImportDefinition,
+  buildCache?: BuildCache,
+): Promise<LuaCodeResource> {
   const path = project.resolveImportPath(spec);
   const textContent = await readTextFileAsync(path); // reads as utf-8 text, but NB: tic80 only supports ASCII.
 
-  const preprocessResult = await preprocessLuaCode(project, textContent, path);
+  const preprocessResult = await preprocessLuaCodeCached(project, textContent, path, buildCache);
   const preprocessedSource = preprocessResult.code;
 
-  return new LuaCodeResource(path, textContent, preprocessedSource, preprocessResult.dependencies, preprocessResult);
+  return new LuaCodeResource(
+    path,
+    textContent,
+    preprocessedSource,
+    preprocessResult.dependencies,
+    preprocessResult,
+    buildCache,
+  );
 }
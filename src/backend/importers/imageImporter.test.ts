@@ -0,0 +1,127 @@
+import * as zlib from "zlib";
+import { decodePng } from "../../utils/png";
+import { kTic80DefaultPaletteHex, parsePaletteHex } from "../../utils/tic80/graphics";
+import { imageToTilePages, ImageResourceView } from "./imageImporter";
+import { TicbuildProjectCore } from "../projectCore";
+
+// builds a minimal PNG; CRCs are left zeroed since the decoder doesn't verify them.
+function makePng(
+  width: number,
+  height: number,
+  colorType: number,
+  bitDepth: number,
+  rows: number[][],
+  options?: { extraChunks?: { type: string; body: number[] }[]; filters?: number[] },
+): Uint8Array {
+  const chunk = (type: string, body: Uint8Array): Buffer => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(body.length, 0);
+    header.write(type, 4, "ascii");
+    return Buffer.concat([header, Buffer.from(body), Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+  const raw = Buffer.from(rows.flatMap((row, y) => [options?.filters?.[y] ?? 0, ...row]));
+  return new Uint8Array(
+    Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", ihdr),
+      ...(options?.extraChunks || []).map((c) => chunk(c.type, new Uint8Array(c.body))),
+      chunk("IDAT", zlib.deflateSync(raw)),
+      chunk("IEND", new Uint8Array(0)),
+    ]),
+  );
+}
+
+describe("decodePng", () => {
+  it("should decode 8-bit RGBA", () => {
+    const png = makePng(2, 1, 6, 8, [[255, 0, 0, 255, 0, 0, 255, 128]]);
+    const image = decodePng(png);
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 128]);
+  });
+
+  it("should decode 4-bit indexed with transparency", () => {
+    const png = makePng(2, 1, 3, 4, [[0x10]], {
+      extraChunks: [
+        { type: "PLTE", body: [10, 20, 30, 40, 50, 60] },
+        { type: "tRNS", body: [0] },
+      ],
+    });
+    const image = decodePng(png);
+    expect(Array.from(image.data)).toEqual([40, 50, 60, 255, 10, 20, 30, 0]);
+  });
+
+  it("should reverse scanline filters", () => {
+    // 1x2 grayscale; second row uses the "up" filter (+1 relative to row above)
+    const png = makePng(1, 2, 0, 8, [[100], [1]], { filters: [0, 2] });
+    const image = decodePng(png);
+    expect(image.data[0]).toBe(100);
+    expect(image.data[4]).toBe(101);
+  });
+
+  it("should reject non-PNG data", () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3]))).toThrow("PNG");
+  });
+});
+
+describe("imageToTilePages", () => {
+  const palette = parsePaletteHex(kTic80DefaultPaletteHex);
+
+  function solidImage(width: number, height: number, rgb: [number, number, number]): Uint8Array {
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      data.set([...rgb, 255], i * 4);
+    }
+    return data;
+  }
+
+  it("should quantize to the nearest palette color and pack 4bpp tiles", () => {
+    // 0xb13e53 is palette index 2; slightly off should still map there.
+    const pages = imageToTilePages(solidImage(8, 8, [0xb0, 0x40, 0x50]), 8, 8, palette);
+    expect(pages.length).toBe(1);
+    expect(pages[0].length).toBe(8192);
+    expect(Array.from(pages[0].subarray(0, 32))).toEqual(new Array(32).fill(0x22));
+    expect(pages[0][32]).toBe(0);
+  });
+
+  it("should place narrow images at the top-left of the 128px sheet", () => {
+    // 8x16 image: the second tile row lands at tile index 16, not 1.
+    const rgba = solidImage(8, 16, [0, 0, 0]);
+    rgba.set([0xf4, 0xf4, 0xf4, 255], 8 * 8 * 4); // first pixel of the lower tile = color 12
+    const pages = imageToTilePages(rgba, 8, 16, palette);
+    expect(pages[0][16 * 32] & 0x0f).toBe(12);
+    expect(pages[0][32]).toBe(0);
+  });
+
+  it("should put pixels left-to-right in low then high nibble", () => {
+    const rgba = solidImage(8, 8, [0x1a, 0x1c, 0x2c]);
+    rgba.set([0x5d, 0x27, 0x5d, 255], 4); // pixel (1,0) = color 1
+    const pages = imageToTilePages(rgba, 8, 8, palette);
+    expect(pages[0][0]).toBe(0x10);
+  });
+
+  it("should split tall sheets into TILES and SPRITES", () => {
+    const rgba = solidImage(128, 256, [0x1a, 0x1c, 0x2c]);
+    rgba.fill(0xff, 128 * 128 * 4); // bottom half white -> nearest is color 12 (f4f4f4)
+    const pages = imageToTilePages(rgba, 128, 256, palette);
+    expect(pages.length).toBe(2);
+
+    const view = new ImageResourceView(pages);
+    const project = {} as TicbuildProjectCore;
+    expect(view.getParallelChunkTypes()).toEqual(["TILES", "SPRITES"]);
+    expect(view.getDataForChunk(project, "TILES")[0]).toBe(0x00);
+    expect(view.getDataForChunk(project, "SPRITES")[0]).toBe(0xcc);
+    expect(() => view.getDataForChunk(project, "MAP")).toThrow();
+  });
+
+  it("should reject oversized or misaligned images", () => {
+    expect(() => imageToTilePages(solidImage(136, 8, [0, 0, 0]), 136, 8, palette)).toThrow("wide");
+    expect(() => imageToTilePages(solidImage(8, 264, [0, 0, 0]), 8, 264, palette)).toThrow("tall");
+    expect(() => imageToTilePages(solidImage(10, 8, [0, 0, 0]), 10, 8, palette)).toThrow("multiples");
+  });
+});
@@ -0,0 +1,179 @@
+// imports a PNG sprite sheet as TILES / SPRITES chunk data.
+//
+// the image is laid out like the TIC-80 sprite editor: 128px wide, 8x8 tiles in row-major order.
+// the top 128px rows become page 0 (TILES), the next 128px rows page 1 (SPRITES).
+// a single-page image (height <= 128) can be used for either chunk.
+
+import { readBinaryFileAsync } from "../../utils/fileSystem";
+import { decodePng } from "../../utils/png";
+import {
+  findNearestPaletteIndex,
+  kTic80DefaultPaletteHex,
+  kTic80TileSize,
+  kTic80TilesPerBank,
+  kTic80TilesPerRow,
+  packIndexedImageToTiles,
+  parsePaletteHex,
+} from "../../utils/tic80/graphics";
+import { Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
+import { ExternalDependency, ImportedResourceBase, ResourceViewBase } from "../ImportedResourceTypes";
+import { ImportDataResult, IsImportReference, parseImportReference } from "../importUtils";
+import { ImportDefinition } from "../manifestTypes";
+import { TicbuildProjectCore } from "../projectCore";
+import { loadPaletteImportColors } from "./paletteImporter";
+
+const kSheetWidth = kTic80TilesPerRow * kTic80TileSize; // 128
+const kPageHeight = (kTic80TilesPerBank / kTic80TilesPerRow) * kTic80TileSize; // 128
+const kMaxPages = 2; // TILES + SPRITES
+
+export class ImageResourceView extends ResourceViewBase {
+  // one entry per 128x128 page of 4bpp tile data (8192 bytes each)
+  private pages: Uint8Array[];
+
+  constructor(pages: Uint8Array[]) {
+    super();
+    this.pages = pages;
+  }
+
+  getDataForChunk(project: TicbuildProjectCore, chunkType: Tic80CartChunkTypeKey): Uint8Array {
+    switch (chunkType) {
+      case "TILES":
+        return this.pages[0];
+      case "SPRITES":
+        // single-page images can be assigned to either chunk.
+        return this.pages.length > 1 ? this.pages[1] : this.pages[0];
+      default:
+        throw new Error(`Image resources do not support chunk type ${chunkType}`);
+    }
+  }
+
+  getSupportedChunkTypes(): Tic80CartChunkTypeKey[] {
+    return ["TILES", "SPRITES"];
+  }
+
+  getParallelChunkTypes(): Tic80CartChunkTypeKey[] {
+    return this.pages.length > 1 ? ["TILES", "SPRITES"] : ["TILES"];
+  }
+}
+
+export class ImageResource extends ImportedResourceBase {
+  view: ImageResourceView;
+  imagePath: string;
+  width: number;
+  height: number;
+  palettePaths: string[];
+
+  constructor(imagePath: string, width: number, height: number, pages: Uint8Array[], palettePaths: string[]) {
+    super();
+    this.imagePath = imagePath;
+    this.width = width;
+    this.height = height;
+    this.palettePaths = palettePaths;
+    this.view = new ImageResourceView(pages);
+  }
+
+  dump(): void {
+    console.log(`ImageResource dump for image: ${this.imagePath} (${this.width}x${this.height})`);
+  }
+
+  getView(project: TicbuildProjectCore, chunks?: Tic80CartChunkTypeKey[]) {
+    for (const chunkType of chunks || []) {
+      if (!this.view.getSupportedChunkTypes().includes(chunkType)) {
+        throw new Error(`Image resources do not support chunk type ${chunkType}: ${this.imagePath}`);
+      }
+    }
+    return this.view;
+  }
+
+  getDependencyList(): ExternalDependency[] {
+    return [
+      {
+        path: this.imagePath,
+        reason: `Imported image`,
+      },
+      ...this.palettePaths.map((path) => ({
+        path,
+        reason: `Palette for imported image`,
+      })),
+    ];
+  }
+}
+
+// maps RGBA pixels to palette indices; pixels which are mostly transparent map to color 0.
+export function quantizeRgbaToPalette(rgba: Uint8Array, palette: Uint8Array): Uint8Array {
+  const pixelCount = rgba.length / 4;
+  const out = new Uint8Array(pixelCount);
+  const cache = new Map<number, number>();
+  for (let i = 0; i < pixelCount; i++) {
+    const a = rgba[i * 4 + 3];
+    if (a < 128) {
+      out[i] = 0;
+      continue;
+    }
+    const key = (rgba[i * 4] << 16) | (rgba[i * 4 + 1] << 8) | rgba[i * 4 + 2];
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = findNearestPaletteIndex(palette, rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+      cache.set(key, index);
+    }
+    out[i] = index;
+  }
+  return out;
+}
+
+// converts a decoded image into pages of TIC-80 tile data.
+export function imageToTilePages(rgba: Uint8Array, width: number, height: number, palette: Uint8Array): Uint8Array[] {
+  if (width > kSheetWidth) {
+    throw new Error(`Image is ${width}px wide; sprite sheets may be at most ${kSheetWidth}px wide`);
+  }
+  if (height > kPageHeight * kMaxPages) {
+    throw new Error(`Image is ${height}px tall; sprite sheets may be at most ${kPageHeight * kMaxPages}px tall`);
+  }
+  if (width % kTic80TileSize !== 0 || height % kTic80TileSize !== 0) {
+    throw new Error(`Image dimensions must be multiples of ${kTic80TileSize}; got ${width}x${height}`);
+  }
+
+  const indices = quantizeRgbaToPalette(rgba, palette);
+
+  // place the image at the top-left of a full-width sheet so tile indices match the TIC-80 sprite editor.
+  const pageCount = Math.max(1, Math.ceil(height / kPageHeight));
+  const sheetHeight = pageCount * kPageHeight;
+  const sheet = new Uint8Array(kSheetWidth * sheetHeight);
+  for (let y = 0; y < height; y++) {
+    sheet.set(indices.subarray(y * width, (y + 1) * width), y * kSheetWidth);
+  }
+
+  const pages: Uint8Array[] = [];
+  const pageBytes = kSheetWidth * kPageHeight;
+  for (let p = 0; p < pageCount; p++) {
+    const pageIndices = sheet.subarray(p * pageBytes, (p + 1) * pageBytes);
+    pages.push(packIndexedImageToTiles(pageIndices, kSheetWidth, kPageHeight));
+  }
+  return pages;
+}
+
+// resolves the palette to quantize against; either inline hex or a reference to a palette import.
+async function loadImagePalette(
+  project: TicbuildProjectCore,
+  spec: ImportDefinition,
+): Promise<ImportDataResult<Uint8Array>> {
+  const paletteSpec = project.substituteVariables(spec.palette || kTic80DefaultPaletteHex);
+  if (!IsImportReference(paletteSpec)) {
+    return { data: parsePaletteHex(paletteSpec), dependencies: [] };
+  }
+  const ref = parseImportReference(paletteSpec);
+  const paletteImport = project.manifest.imports.find((i) => i.name === ref.importName);
+  if (!paletteImport) {
+    throw new Error(`Image import ${spec.name} refers to unknown palette import: ${ref.importName}`);
+  }
+  return loadPaletteImportColors(project, paletteImport);
+}
+
+export async function importImage(project: TicbuildProjectCore, spec: ImportDefinition): Promise<ImageResource> {
+  const path = project.resolveImportPath(spec);
+  const data = await readBinaryFileAsync(path);
+  const image = decodePng(data);
+  const palette = await loadImagePalette(project, spec);
+  const pages = imageToTilePages(image.data, image.width, image.height, palette.data);
+  return new ImageResource(path, image.width, image.height, pages, palette.dependencies);
+}
@@ -0,0 +1,105 @@
+// imports palette files (.gpl, .act, .pal, .hex) as PALETTE chunk data.
+
+import { readBinaryFileAsync } from "../../utils/fileSystem";
+import { deducePaletteFormatFromPath, kPaletteFormat, parsePaletteFile } from "../../utils/paletteFormats";
+import { fitPaletteColors, kPaletteFit } from "../../utils/tic80/graphics";
+import { Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
+import { ExternalDependency, ImportedResourceBase, ResourceViewBase } from "../ImportedResourceTypes";
+import { ImportDataResult } from "../importUtils";
+import { ImportDefinition, kImportKind } from "../manifestTypes";
+import { TicbuildProjectCore } from "../projectCore";
+
+export class PaletteResourceView extends ResourceViewBase {
+  private data: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    super();
+    this.data = data;
+  }
+
+  getDataForChunk(project: TicbuildProjectCore, chunkType: Tic80CartChunkTypeKey): Uint8Array {
+    if (chunkType !== "PALETTE") {
+      throw new Error(`Palette resources do not support chunk type ${chunkType}`);
+    }
+    return this.data;
+  }
+
+  getSupportedChunkTypes(): Tic80CartChunkTypeKey[] {
+    return ["PALETTE"];
+  }
+
+  getParallelChunkTypes(): Tic80CartChunkTypeKey[] {
+    return ["PALETTE"];
+  }
+}
+
+export class PaletteResource extends ImportedResourceBase {
+  view: PaletteResourceView;
+  palettePath: string;
+
+  // data is the full chunk: 48 bytes SCN, optionally followed by 48 bytes BDR.
+  constructor(palettePath: string, data: Uint8Array) {
+    super();
+    this.palettePath = palettePath;
+    this.view = new PaletteResourceView(data);
+  }
+
+  dump(): void {
+    console.log(`PaletteResource dump for palette: ${this.palettePath}`);
+  }
+
+  getView(project: TicbuildProjectCore, chunks?: Tic80CartChunkTypeKey[]) {
+    for (const chunkType of chunks || []) {
+      if (chunkType !== "PALETTE") {
+        throw new Error(`Palette resources do not support chunk type ${chunkType}: ${this.palettePath}`);
+      }
+    }
+    return this.view;
+  }
+
+  getDependencyList(): ExternalDependency[] {
+    return [
+      {
+        path: this.palettePath,
+        reason: `Imported palette`,
+      },
+    ];
+  }
+}
+
+// loads the 16 SCN colors (48 bytes) of a palette import.
+// also used by image imports which quantize against a palette import.
+export async function loadPaletteImportColors(
+  project: TicbuildProjectCore,
+  importDef: ImportDefinition,
+): Promise<ImportDataResult<Uint8Array>> {
+  if (importDef.kind !== kImportKind.key.palette) {
+    throw new Error(`Import ${importDef.name} is not a palette resource`);
+  }
+  const path = project.resolveImportPath(importDef);
+  const format = deducePaletteFormatFromPath(path);
+  if (!format) {
+    const extensions = kPaletteFormat.infos.flatMap((info) => info.extensions).join(", ");
+    throw new Error(`Palette import ${importDef.name} has an unrecognized file type: ${path} (expected ${extensions})`);
+  }
+  const bytes = await readBinaryFileAsync(path);
+  let colors: Uint8Array;
+  try {
+    colors = fitPaletteColors(parsePaletteFile(format, bytes), importDef.paletteFit || kPaletteFit.key.exact);
+  } catch (e) {
+    throw new Error(`Palette import ${importDef.name} (${path}): ${(e as Error).message}`);
+  }
+  return { data: colors, dependencies: [path] };
+}
+
+export async function importPalette(project: TicbuildProjectCore, spec: ImportDefinition): Promise<PaletteResource> {
+  const result = await loadPaletteImportColors(project, spec);
+  let data = result.data;
+  if (spec.paletteIncludeBdr) {
+    // the BDR (border / OVR) palette is a copy of the screen palette.
+    data = new Uint8Array(result.data.length * 2);
+    data.set(result.data, 0);
+    data.set(result.data, result.data.length);
+  }
+  return new PaletteResource(result.dependencies[0], data);
+}
@@ -0,0 +1,131 @@
+import * as zlib from "zlib";
+import { parseTmj, parseTmx } from "../../utils/tiled";
+import { kTic80MapWidth, TiledMapResource, tiledMapToTic80Map } from "./tiledMapImporter";
+
+const kTmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="3" height="2" tilewidth="8" tileheight="8" infinite="0">
+ <tileset firstgid="1" source="sprites.tsx"/>
+ <layer id="1" name="background" width="3" height="2">
+  <data encoding="csv">
+1,2,3,
+0,5,2147483650
+</data>
+ </layer>
+ <group name="extras">
+  <layer id="2" name="foreground" width="3" height="2">
+   <data>
+    <tile gid="4"/><tile/><tile/><tile/><tile/><tile gid="1"/>
+   </data>
+  </layer>
+ </group>
+ <objectgroup id="3" name="spawns">
+  <object id="7" name="player" x="16" y="24.4">
+   <properties>
+    <property name="hp" type="int" value="3"/>
+   </properties>
+  </object>
+  <object id="8" x="40" y="8"/>
+ </objectgroup>
+</map>`;
+
+describe("Tiled map parsing", () => {
+  it("should parse TMX csv, xml tile data, groups and objects", () => {
+    const map = parseTmx(kTmx);
+    expect(map.width).toBe(3);
+    expect(map.firstGids).toEqual([1]);
+    expect(map.layers.map((l) => `${l.kind}:${l.name}`)).toEqual([
+      "tile:background",
+      "tile:foreground",
+      "object:spawns",
+    ]);
+    const spawns = map.layers[2];
+    expect(spawns.kind === "object" && spawns.objects[0]).toMatchObject({ id: 7, name: "player", x: 16, y: 24.4 });
+    expect(spawns.kind === "object" && spawns.objects[0].properties).toEqual({ hp: 3 });
+  });
+
+  it("should parse TMJ with base64 zlib data", () => {
+    const gids = Buffer.alloc(4 * 2);
+    gids.writeUInt32LE(11, 0);
+    gids.writeUInt32LE(12, 4);
+    const map = parseTmj(
+      JSON.stringify({
+        type: "map",
+        width: 2,
+        height: 1,
+        tilewidth: 8,
+        tileheight: 8,
+        tilesets: [{ firstgid: 11, source: "a.tsj" }],
+        layers: [
+          {
+            type: "tilelayer",
+            name: "ground",
+            width: 2,
+            height: 1,
+            encoding: "base64",
+            compression: "zlib",
+            data: zlib.deflateSync(gids).toString("base64"),
+          },
+        ],
+      }),
+    );
+    const data = tiledMapToTic80Map(map, "ground", 0);
+    expect(Array.from(data.subarray(0, 3))).toEqual([0, 1, 0]);
+  });
+
+  it("should reject infinite maps", () => {
+    expect(() => parseTmx(kTmx.replace('infinite="0"', 'infinite="1"'))).toThrow("infinite");
+  });
+
+  it("should check TMJ fields while parsing", () => {
+    const map = (layers: unknown[]) =>
+      JSON.stringify({ type: "map", width: 1, height: 1, tilewidth: 8, tileheight: 8, layers });
+    const objects = (properties: unknown[]) => [
+      { type: "objectgroup", name: "spawns", objects: [{ id: 1, properties }] },
+    ];
+
+    const parsed = parseTmj(
+      map(objects([{ name: "hp", type: "int", value: 3 }, { name: "stats", type: "class", value: { a: 1 } }])),
+    );
+    expect(parsed.layers[0].kind === "object" && parsed.layers[0].objects[0].properties).toEqual({ hp: 3 });
+
+    expect(() => parseTmj(map([{ type: "tilelayer", name: "ground", data: ["1"] }]))).toThrow(
+      "TMJ: map.layers[0].data must be an array of numbers or a string",
+    );
+    expect(() => parseTmj(map(objects([{ name: 5, value: 1 }])))).toThrow(
+      "TMJ: map.layers[0].objects[0].properties[0].name must be a string",
+    );
+    expect(() => parseTmj(JSON.stringify({ layers: {} }))).toThrow("TMJ: map.layers must be an array");
+    expect(() => parseTmj("[]")).toThrow("TMJ: map must be an object");
+  });
+});
+
+describe("tiledMapToTic80Map", () => {
+  const map = parseTmx(kTmx);
+
+  it("should convert the first tile layer by default, clearing flip flags", () => {
+    const data = tiledMapToTic80Map(map, undefined, 0);
+    expect(data.length).toBe(240 * 136);
+    expect(Array.from(data.subarray(0, 4))).toEqual([0, 1, 2, 0]);
+    expect(Array.from(data.subarray(kTic80MapWidth, kTic80MapWidth + 3))).toEqual([0, 4, 1]);
+  });
+
+  it("should select layers by name and apply the tile id offset", () => {
+    const data = tiledMapToTic80Map(map, "foreground", 16);
+    expect(data[0]).toBe(19);
+    expect(data[1]).toBe(0); // empty cells stay 0
+    expect(data[kTic80MapWidth + 2]).toBe(16);
+    expect(() => tiledMapToTic80Map(map, "nope", 0)).toThrow("available: background, foreground");
+    expect(() => tiledMapToTic80Map(map, undefined, 254)).toThrow("out of range");
+  });
+
+  it("should emit object layer values", () => {
+    const resource = new TiledMapResource("level.tmx", map, { name: "level", objectFields: ["tx", "ty", "y"] });
+    expect(resource.getObjectLayerValues("spawns")).toEqual([2, 3, 24, 5, 1, 8]);
+
+    const withProps = new TiledMapResource("level.tmx", map, { name: "level", objectFields: ["hp"] });
+    expect(() => withProps.getObjectLayerValues("spawns")).toThrow(
+      'id 8 in layer spawns has no numeric field or property "hp"',
+    );
+    expect(() => withProps.getObjectLayerValues("enemies")).toThrow("available: spawns");
+  });
+});
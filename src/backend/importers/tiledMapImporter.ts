@@ -0,0 +1,177 @@
+// imports Tiled maps (.tmx / .tmj) as MAP chunk data.
+//
+// one tile layer is converted to the 240x136 TIC-80 map (1 byte per cell, row-major).
+// object layers are not part of the MAP chunk but can be pulled into code with
+// __IMPORT("u16le", "import:<name>:<object layer name>").
+
+import { readTextFileAsync } from "../../utils/fileSystem";
+import { gidToLocalTileId, parseTiledMap, TiledMap, TiledObject, TiledObjectLayer } from "../../utils/tiled";
+import { Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
+import { ExternalDependency, ImportedResourceBase, ResourceViewBase } from "../ImportedResourceTypes";
+import { ImportDefinition } from "../manifestTypes";
+import { TicbuildProjectCore } from "../projectCore";
+
+export const kTic80MapWidth = 240;
+export const kTic80MapHeight = 136;
+
+const kDefaultObjectFields = ["x", "y"];
+
+export class TiledMapResourceView extends ResourceViewBase {
+  private data: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    super();
+    this.data = data;
+  }
+
+  getDataForChunk(project: TicbuildProjectCore, chunkType: Tic80CartChunkTypeKey): Uint8Array {
+    if (chunkType !== "MAP") {
+      throw new Error(`Tiled map resources do not support chunk type ${chunkType}`);
+    }
+    return this.data;
+  }
+
+  getSupportedChunkTypes(): Tic80CartChunkTypeKey[] {
+    return ["MAP"];
+  }
+
+  getParallelChunkTypes(): Tic80CartChunkTypeKey[] {
+    return ["MAP"];
+  }
+}
+
+export class TiledMapResource extends ImportedResourceBase {
+  view: TiledMapResourceView;
+  mapPath: string;
+  map: TiledMap;
+  objectFields: string[];
+
+  constructor(mapPath: string, map: TiledMap, spec: ImportDefinition) {
+    super();
+    this.mapPath = mapPath;
+    this.map = map;
+    this.objectFields = spec.objectFields || kDefaultObjectFields;
+    this.view = new TiledMapResourceView(tiledMapToTic80Map(map, spec.layer, spec.tileIdOffset ?? 0));
+  }
+
+  dump(): void {
+    console.log(`TiledMapResource dump for map: ${this.mapPath} (${this.map.width}x${this.map.height})`);
+    for (const layer of this.map.layers) {
+      console.log(`  ${layer.kind} layer: ${layer.name}`);
+    }
+  }
+
+  getView(project: TicbuildProjectCore, chunks?: Tic80CartChunkTypeKey[]) {
+    for (const chunkType of chunks || []) {
+      if (chunkType !== "MAP") {
+        throw new Error(`Tiled map resources do not support chunk type ${chunkType}: ${this.mapPath}`);
+      }
+    }
+    return this.view;
+  }
+
+  getDependencyList(): ExternalDependency[] {
+    return [
+      {
+        path: this.mapPath,
+        reason: `Imported Tiled map`,
+      },
+    ];
+  }
+
+  // flattened numeric values of an object layer; for each object, one value per objectFields entry.
+  getObjectLayerValues(layerName: string): number[] {
+    const layer = this.map.layers.find((l): l is TiledObjectLayer => l.kind === "object" && l.name === layerName);
+    if (!layer) {
+      const available = this.map.layers.filter((l) => l.kind === "object").map((l) => l.name);
+      throw new Error(
+        `Object layer not found in ${this.mapPath}: ${layerName} (available: ${available.join(", ") || "none"})`,
+      );
+    }
+    const values: number[] = [];
+    for (const obj of layer.objects) {
+      for (const field of this.objectFields) {
+        values.push(getObjectFieldValue(this.map, obj, field, layerName));
+      }
+    }
+    return values;
+  }
+}
+
+// built-in fields: x, y, width, height (pixels), tx, ty (tile coordinates), id.
+// anything else is looked up in the object's custom properties.
+function getObjectFieldValue(map: TiledMap, obj: TiledObject, field: string, layerName: string): number {
+  switch (field) {
+    case "x":
+      return Math.round(obj.x);
+    case "y":
+      return Math.round(obj.y);
+    case "width":
+      return Math.round(obj.width);
+    case "height":
+      return Math.round(obj.height);
+    case "tx":
+      return Math.floor(obj.x / map.tileWidth);
+    case "ty":
+      return Math.floor(obj.y / map.tileHeight);
+    case "id":
+      return obj.id;
+  }
+  const value = obj.properties[field];
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  const label = obj.name ? `${obj.name} (id ${obj.id})` : `id ${obj.id}`;
+  if (value === undefined) {
+    throw new Error(`Object ${label} in layer ${layerName} has no numeric field or property "${field}"`);
+  }
+  throw new Error(`Object ${label} in layer ${layerName}: property "${field}" is not numeric`);
+}
+
+// converts the selected tile layer (or the first one) to TIC-80 MAP chunk data.
+// cells hold the tile's index within its tileset plus tileIdOffset; empty cells are 0.
+export function tiledMapToTic80Map(map: TiledMap, layerName: string | undefined, tileIdOffset: number): Uint8Array {
+  const tileLayers = map.layers.filter((l) => l.kind === "tile");
+  const layer = layerName === undefined ? tileLayers[0] : tileLayers.find((l) => l.name === layerName);
+  if (!layer || layer.kind !== "tile") {
+    const available = tileLayers.map((l) => l.name).join(", ") || "none";
+    throw new Error(`Tile layer not found: ${layerName ?? "(first)"} (available: ${available})`);
+  }
+  if (layer.width > kTic80MapWidth || layer.height > kTic80MapHeight) {
+    throw new Error(
+      `Tile layer ${layer.name} is ${layer.width}x${layer.height}; TIC-80 maps are at most ${kTic80MapWidth}x${kTic80MapHeight}`,
+    );
+  }
+  if (layer.gids.length !== layer.width * layer.height) {
+    throw new Error(`Tile layer ${layer.name} has ${layer.gids.length} cells; expected ${layer.width * layer.height}`);
+  }
+
+  const out = new Uint8Array(kTic80MapWidth * kTic80MapHeight);
+  for (let y = 0; y < layer.height; y++) {
+    for (let x = 0; x < layer.width; x++) {
+      const localId = gidToLocalTileId(map, layer.gids[y * layer.width + x]);
+      if (localId === undefined) {
+        continue;
+      }
+      const tile = localId + tileIdOffset;
+      if (tile < 0 || tile > 255) {
+        throw new Error(`Tile layer ${layer.name}: tile id ${tile} at (${x}, ${y}) is out of range 0..255`);
+      }
+      out[y * kTic80MapWidth + x] = tile;
+    }
+  }
+  return out;
+}
+
+export async function importTiledMap(project: TicbuildProjectCore, spec: ImportDefinition): Promise<TiledMapResource> {
+  const path = project.resolveImportPath(spec);
+  const text = await readTextFileAsync(path);
+  try {
+    return new TiledMapResource(path, parseTiledMap(path, text), spec);
+  } catch (e) {
+    throw new Error(`Failed to load Tiled map ${path}: ${(e as Error).message}`);
+  }
+}
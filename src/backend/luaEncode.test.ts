@@ -319,6 +319,51 @@ describe("luaEncode __IMPORT", () => {
         expect(result.code).toContain("local x = { 10,16,8,2 }");
     });
 
+    it("imports Tiled object layers as numeric values", async () => {
+        const projectDir = createTempDir();
+        fs.writeFileSync(
+            path.join(projectDir, "level.tmj"),
+            JSON.stringify({
+                width: 2,
+                height: 1,
+                tilewidth: 8,
+                tileheight: 8,
+                tilesets: [{ firstgid: 1 }],
+                layers: [
+                    { type: "tilelayer", name: "ground", width: 2, height: 1, data: [1, 3] },
+                    { type: "objectgroup", name: "spawns", objects: [{ id: 1, x: 300, y: 16 }] },
+                ],
+            }),
+            "utf-8",
+        );
+
+        const manifest = createManifest({
+            imports: [
+                {
+                    name: "level",
+                    kind: "tiledMap",
+                    path: "./level.tmj",
+                },
+            ],
+        });
+
+        const project = makeProject(manifest, projectDir);
+        const source = [
+            'local spawns = { __IMPORT("u16le", "import:level:spawns") }',
+            'local row = { __IMPORT("raw,take(0,2),u8", "import:level:MAP") }',
+        ].join("\n");
+        const result = await preprocessLuaCode(project, source, path.join(projectDir, "source.lua"));
+
+        expect(result.code).toContain("local spawns = { 300,16 }");
+        expect(result.code).toContain("local row = { 0,2 }");
+        expect(result.dependencies).toContain(path.join(projectDir, "level.tmj").replace(/\\/g, "/"));
+
+        const badSource = 'local s = { __IMPORT("u8", "import:level:spawns") }';
+        await expect(preprocessLuaCode(project, badSource, path.join(projectDir, "source.lua"))).rejects.toThrow(
+            "out of range",
+        );
+    });
+
     // we need to mock a cart or be able to generate simple carts for this test to be runnable.
 
     // it("imports cart chunk data with chunk specifier", async () => {
@@ -24,6 +24,7 @@ import { loadBinaryImportData, loadTextImportData } from "./importUtils";
 import { trimTrailingZeros } from "../utils/utils";
 import { Tic80CartChunkTypeKey } from "../utils/tic80/tic80";
 import { importTic80Cart } from "./importers/tic80CartImporter";
+import { importTiledMap, TiledMapResource } from "./importers/tiledMapImporter";
 import { EncodeErrorFormatter } from "./luaEncodeBase";
 import { formatLuaNumber, parseNumericList } from "./luaEncodeHelpers";
 
@@ -119,13 +120,31 @@ export async function resolveImportBytes(
     filePath: string,
     lineNumber: number,
     formatError: EncodeErrorFormatter,
+    subResource?: string, // raw segment after the import name (import:NAME:SUB)
+    destSpecRaw?: string, // used as the default value packing for sources that produce numbers
 ): Promise<Uint8Array> {
+    if (importDef.kind === kImportKind.key.tiledMap) {
+        return resolveTiledMapImportBytes(
+            project,
+            importDef,
+            sourceSpecRaw,
+            subResource,
+            destSpecRaw,
+            onDependency,
+            filePath,
+            lineNumber,
+            formatError,
+        );
+    }
+
     if (
         importDef.kind !== kImportKind.key.binary &&
         importDef.kind !== kImportKind.key.text &&
         importDef.kind !== kImportKind.key.Tic80Cartridge
     ) {
-        throw new Error(formatError(filePath, lineNumber, `__IMPORT only supports binary, text, or cart imports`));
+        throw new Error(
+            formatError(filePath, lineNumber, `__IMPORT only supports binary, text, cart, or Tiled map imports`),
+        );
     }
 
     if (chunkSpec && importDef.kind !== kImportKind.key.Tic80Cartridge) {
@@ -215,6 +234,68 @@ export async function resolveImportBytes(
     return bytes;
 }
 
+// Tiled maps: import:NAME or import:NAME:MAP yields the MAP chunk bytes;
+// import:NAME:LAYER yields the numeric values of an object layer, packed with the source codec
+// (defaulting to the dest value codec so e.g. __IMPORT("u16le", "import:level:spawns") round-trips).
+async function resolveTiledMapImportBytes(
+    project: TicbuildProjectCore,
+    importDef: ImportDefinition,
+    sourceSpecRaw: string | null,
+    subResource: string | undefined,
+    destSpecRaw: string | undefined,
+    onDependency: (path: string) => void,
+    filePath: string,
+    lineNumber: number,
+    formatError: EncodeErrorFormatter,
+): Promise<Uint8Array> {
+    let resource: TiledMapResource;
+    try {
+        resource = await importTiledMap(project, importDef);
+    } catch (e) {
+        throw new Error(formatError(filePath, lineNumber, (e as Error).message));
+    }
+    for (const dep of resource.getDependencyList()) {
+        onDependency(dep.path);
+    }
+
+    if (!subResource || subResource === "MAP") {
+        const bytes = resource.view.getDataForChunk(project, "MAP");
+        if (!sourceSpecRaw) {
+            return bytes;
+        }
+        const sourceSpec = parseSpecChain(sourceSpecRaw, filePath, lineNumber, "Source", formatError);
+        return applyByteTransforms(bytes, sourceSpec.transforms, filePath, lineNumber, formatError);
+    }
+
+    let values: number[];
+    try {
+        values = resource.getObjectLayerValues(subResource);
+    } catch (e) {
+        throw new Error(formatError(filePath, lineNumber, (e as Error).message));
+    }
+    const packingSpec = sourceSpecRaw ?? destSpecRaw;
+    if (!packingSpec) {
+        throw new Error(formatError(filePath, lineNumber, `Object layer imports require a numeric codec`));
+    }
+    const spec = parseSpecChain(packingSpec, filePath, lineNumber, "Source", formatError);
+    const encoding = normalizeBinaryOutputEncoding(spec.base);
+    if (!isNumericBinaryOutputEncoding(encoding)) {
+        throw new Error(
+            formatError(filePath, lineNumber, `Object layer imports require a numeric codec; got ${spec.base}`),
+        );
+    }
+    let bytes: Uint8Array;
+    try {
+        bytes = encodeValuesToBytes(values, encoding);
+    } catch (e) {
+        throw new Error(formatError(filePath, lineNumber, `Object layer ${subResource}: ${(e as Error).message}`));
+    }
+    if (sourceSpecRaw) {
+        bytes = applyByteTransforms(bytes, spec.transforms, filePath, lineNumber, formatError);
+    }
+    return bytes;
+}
+
 export function encodeBytesWithDestSpec(
     data: Uint8Array,
     destSpecRaw: string,
@@ -0,0 +1,110 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { AssembleTic80Cart } from "../utils/tic80/cartWriter";
+import { CachedLuaErrorTranslator, LuaErrorTranslator, loadLuaErrorTranslator } from "./luaErrorTranslator";
+import { buildMinifiedSourceMap, SourceMapBuilder } from "./sourceMap";
+
+describe("LuaErrorTranslator", () => {
+  let dir: string;
+  let mainPath: string;
+  let utilPath: string;
+
+  // main.lua includes util.lua; minified code puts both on one line after a metadata line.
+  const mainSource = "-- main\n\nlocal x = 1\nprint(x)\n";
+  const utilSource = "\n\nfunction f()\n  return nil .. 1\nend\n";
+  const code = "-- title: t\nfunction f() return nil..1 end local x=1 print(x)\n";
+
+  function makeMap() {
+    const builder = new SourceMapBuilder();
+    builder.appendOriginal(utilSource, utilPath, 0);
+    builder.appendOriginal(mainSource, mainPath, 0);
+    const preprocessed = utilSource + mainSource;
+    const ppMap = builder.toSourceMap(preprocessed);
+    const statementStart = (text: string) => code.indexOf(text);
+    return buildMinifiedSourceMap(
+      code,
+      [
+        { outputOffset: statementStart("function"), inputOffset: preprocessed.indexOf("function") },
+        { outputOffset: statementStart("return"), inputOffset: preprocessed.indexOf("return") },
+        { outputOffset: statementStart("local"), inputOffset: preprocessed.indexOf("local") },
+        { outputOffset: statementStart("print"), inputOffset: preprocessed.indexOf("print") },
+      ],
+      ppMap,
+    );
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-errors-"));
+    mainPath = path.join(dir, "src", "main.lua");
+    utilPath = path.join(dir, "src", "util.lua");
+    fs.mkdirSync(path.join(dir, "src"));
+    fs.writeFileSync(mainPath, mainSource, "utf-8");
+    fs.writeFileSync(utilPath, utilSource, "utf-8");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should map code lines to the first original statement on them", () => {
+    const translator = new LuaErrorTranslator(code, makeMap(), dir);
+    expect(translator.mapLine(2)).toEqual({ file: utilPath, line: 3 });
+    expect(translator.mapLine(1)).toBeNull(); // metadata has no origin
+    expect(translator.mapLine(99)).toBeNull();
+  });
+
+  it("should rewrite chunk locations in errors and stack traces", () => {
+    const translator = new LuaErrorTranslator(code, makeMap(), dir);
+    const utilRef = path.join("src", "util.lua");
+    expect(translator.translate('[string "-- title: t..."]:2: attempt to concatenate a nil value')).toBe(
+      `${utilRef}:3: attempt to concatenate a nil value`,
+    );
+    // escaped inside remoting string data
+    expect(translator.translate('"[string \\"-- title: t...\\"]:2: in function \'f\'"')).toBe(
+      `"${utilRef}:3: in function 'f'"`,
+    );
+    expect(translator.translate('[string "-- title: t..."]:1: oops')).toBe('[string "-- title: t..."]:1: oops');
+  });
+
+  it("should only load a map matching the cart's code", async () => {
+    const objDir = path.join(dir, "obj");
+    fs.mkdirSync(objDir);
+    fs.writeFileSync(path.join(objDir, "code.02.minified.map.json"), JSON.stringify(makeMap()), "utf-8");
+
+    const cartPath = path.join(dir, "game.tic");
+    const writeCart = async (text: string) => {
+      const cart = await AssembleTic80Cart({
+        chunks: [{ chunkType: "CODE", bank: 0, data: new TextEncoder().encode(text) }],
+      });
+      fs.writeFileSync(cartPath, cart);
+    };
+
+    await writeCart(code);
+    expect(loadLuaErrorTranslator(cartPath, objDir, dir)?.mapLine(2)).toEqual({ file: utilPath, line: 3 });
+
+    await writeCart(code + "-- stale\n");
+    expect(loadLuaErrorTranslator(cartPath, objDir, dir)).toBeUndefined();
+  });
+
+  it("should reuse a cached translator until the cart or map changes on disk", async () => {
+    const objDir = path.join(dir, "obj");
+    fs.mkdirSync(objDir);
+    const mapPath = path.join(objDir, "code.02.minified.map.json");
+    fs.writeFileSync(mapPath, JSON.stringify(makeMap()), "utf-8");
+    const cartPath = path.join(dir, "game.tic");
+    const data = new TextEncoder().encode(code);
+    fs.writeFileSync(cartPath, await AssembleTic80Cart({ chunks: [{ chunkType: "CODE", bank: 0, data }] }));
+
+    const cached = new CachedLuaErrorTranslator(cartPath, objDir, dir);
+    const first = cached.get();
+    expect(first?.mapLine(2)).toEqual({ file: utilPath, line: 3 });
+    expect(cached.get()).toBe(first);
+
+    const later = new Date(Date.now() + 10000);
+    fs.utimesSync(mapPath, later, later);
+    const reloaded = cached.get();
+    expect(reloaded).not.toBe(first);
+    expect(reloaded?.mapLine(2)).toEqual({ file: utilPath, line: 3 });
+  });
+});
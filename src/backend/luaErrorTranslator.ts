@@ -0,0 +1,182 @@
+// rewrites TIC-80 Lua error locations into original source locations.
+//
+// TIC-80 loads cart code as one chunk, so errors and stack traces refer to it like
+//   [string "-- title: game..."]:12: attempt to index a nil value
+// with line numbers into the (minified) cart code. using the minified source map the build
+// writes to objDir, those become clickable `src/foo.lua:42:` references.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getCartCodeText } from "../utils/tic80/cartDiff";
+import { parseTic80Cart } from "../utils/tic80/cartLoader";
+import { hashTextSha1 } from "../utils/utils";
+import { LuaMinifiedSourceMap, mapMinifiedOffset, SourceMapLocation } from "./sourceMap";
+
+// chunk name + line. inside remoting string data the quotes are escaped.
+const kChunkLocationRegex = /\[string \\?".*?\\?"\]:(\d+):/g;
+const kMinifiedMapSuffix = ".minified.map.json";
+
+export type OriginalLineLocation = {
+  file: string;
+  line: number; // 1-based
+};
+
+// 0-based offsets where each line starts
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+export class LuaErrorTranslator {
+  private codeLineStarts: number[];
+  private fileLineStarts = new Map<string, number[] | null>();
+
+  constructor(
+    code: string,
+    private map: LuaMinifiedSourceMap,
+    private baseDir: string = process.cwd(),
+  ) {
+    this.codeLineStarts = computeLineStarts(code);
+  }
+
+  // maps a 1-based line of the running code to the first original statement on it.
+  mapLine(line: number): OriginalLineLocation | null {
+    if (line < 1 || line > this.codeLineStarts.length) {
+      return null;
+    }
+    const lineStart = this.codeLineStarts[line - 1];
+    const lineEnd = line < this.codeLineStarts.length ? this.codeLineStarts[line] : this.map.minifiedFile.charLength;
+
+    // prefer a statement starting on this line; otherwise the line continues an earlier statement.
+    let location: SourceMapLocation | null = null;
+    const entry = this.map.entries.find(
+      (e) => e.minifiedOffset >= lineStart && e.minifiedOffset < lineEnd && e.originalFile,
+    );
+    if (entry) {
+      location = { file: entry.originalFile, offset: entry.originalOffset };
+    } else {
+      location = mapMinifiedOffset(this.map, lineStart);
+    }
+    if (!location) {
+      return null;
+    }
+
+    const starts = this.getFileLineStarts(location.file);
+    if (!starts) {
+      return null;
+    }
+    let originalLine = 0;
+    while (originalLine + 1 < starts.length && starts[originalLine + 1] <= location.offset) {
+      originalLine++;
+    }
+    return { file: location.file, line: originalLine + 1 };
+  }
+
+  // rewrites every chunk location in text; unmapped locations are left as they are.
+  translate(text: string): string {
+    return text.replace(kChunkLocationRegex, (match: string, lineText: string) => {
+      const location = this.mapLine(Number(lineText));
+      if (!location) {
+        return match;
+      }
+      return `${this.formatPath(location.file)}:${location.line}:`;
+    });
+  }
+
+  private formatPath(file: string): string {
+    const relative = path.relative(this.baseDir, file);
+    return relative.startsWith("..") || path.isAbsolute(relative) ? file : relative;
+  }
+
+  private getFileLineStarts(file: string): number[] | null {
+    let starts = this.fileLineStarts.get(file);
+    if (starts === undefined) {
+      try {
+        starts = computeLineStarts(fs.readFileSync(file, "utf-8"));
+      } catch {
+        starts = null;
+      }
+      this.fileLineStarts.set(file, starts);
+    }
+    return starts;
+  }
+}
+
+// finds the source map in objDir describing the code of the given cart.
+// returns undefined when the cart has no code or no map matches it (e.g. the build is stale).
+export function loadLuaErrorTranslator(
+  cartPath: string,
+  objDir: string,
+  baseDir?: string,
+): LuaErrorTranslator | undefined {
+  let code: string | undefined;
+  let mapFiles: string[];
+  try {
+    code = getCartCodeText(parseTic80Cart(new Uint8Array(fs.readFileSync(cartPath))));
+    mapFiles = fs.readdirSync(objDir).filter((name) => name.endsWith(kMinifiedMapSuffix));
+  } catch {
+    return undefined;
+  }
+  if (code === undefined) {
+    return undefined;
+  }
+
+  const hash = hashTextSha1(code);
+  for (const name of mapFiles) {
+    try {
+      const map = JSON.parse(fs.readFileSync(path.join(objDir, name), "utf-8")) as LuaMinifiedSourceMap;
+      if (map.minifiedFile?.hash === hash) {
+        return new LuaErrorTranslator(code, map, baseDir);
+      }
+    } catch {
+      // unreadable map; keep looking
+    }
+  }
+  return undefined;
+}
+
+// loadLuaErrorTranslator for a long-running session: reloads only when the cart or a map in objDir
+// changes on disk (mtime), so rebuilds are picked up without re-reading them for every line.
+export class CachedLuaErrorTranslator {
+  private stamp: string | undefined;
+  private translator: LuaErrorTranslator | undefined;
+
+  constructor(
+    private cartPath: string,
+    private objDir: string,
+    private baseDir?: string,
+  ) {}
+
+  get(): LuaErrorTranslator | undefined {
+    const stamp = this.readStamp();
+    if (stamp !== this.stamp) {
+      this.stamp = stamp;
+      this.translator = loadLuaErrorTranslator(this.cartPath, this.objDir, this.baseDir);
+    }
+    return this.translator;
+  }
+
+  private readStamp(): string {
+    const files = [this.cartPath];
+    try {
+      const maps = fs.readdirSync(this.objDir).filter((name) => name.endsWith(kMinifiedMapSuffix));
+      files.push(...maps.map((name) => path.join(this.objDir, name)));
+    } catch {
+      // no objDir yet
+    }
+    return files
+      .map((file) => {
+        try {
+          return `${file}@${fs.statSync(file).mtimeMs}`;
+        } catch {
+          return `${file}@-`;
+        }
+      })
+      .join("|");
+  }
+}
@@ -283,6 +283,142 @@ describe("Lua preprocessor error/warning directives", () => {
   });
 });
 
+describe("Lua preprocessor assertions", () => {
+  const manifest: Manifest = {
+    project: {
+      name: "test",
+      binDir: "./bin",
+      objDir: "./obj",
+      outputCartName: "test.tic",
+    },
+    variables: {},
+    imports: [],
+    assembly: {
+      blocks: [],
+    },
+  };
+
+  it("should pass --#assert when the expression is truthy", async () => {
+    const project = makeProject(manifest);
+    const source = `--#define MAX_VOICES 4
+--#assert MAX_VOICES <= 4 and #"abc" == 3, "too many voices"
+local x = 1`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe("local x = 1");
+  });
+
+  it("should show evaluated operands when --#assert fails", async () => {
+    const project = makeProject(manifest);
+    const source = `--#define MAX_VOICES 8
+--#assert MAX_VOICES <= 4 -- four channels
+`;
+    await expect(preprocessLuaCode(project, source, "C:/test/source.lua")).rejects.toThrow(
+      "[LuaPreprocessor] C:/test/source.lua:2 Assertion failed: MAX_VOICES <= 4 (8 <= 4)",
+    );
+    const withMessage = `--#define MODE "fast"
+--#assert not defined(X) and MODE == "slow", "mode is " .. MODE`;
+    await expect(preprocessLuaCode(project, withMessage, "C:/test/source.lua")).rejects.toThrow(
+      'Assertion failed: not defined(X) and MODE == "slow" (not false and ("fast" == "slow")): mode is fast',
+    );
+  });
+
+  it("should show arithmetic operands of a failed comparison as values", async () => {
+    const project = makeProject(manifest);
+    const source = `--#define N 3
+--#assert N * 2 > 10 or -N .. "x" == "3x"`;
+    await expect(preprocessLuaCode(project, source, "C:/test/source.lua")).rejects.toThrow(
+      'Assertion failed: N * 2 > 10 or -N .. "x" == "3x" ((6 > 10) or ("-3x" == "3x"))',
+    );
+  });
+
+  it("should not evaluate the short-circuited side in the failure message", async () => {
+    const project = makeProject(manifest);
+    await expect(preprocessLuaCode(project, "--#assert defined(X) and X > 1", "C:/test/source.lua")).rejects.toThrow(
+      "Assertion failed: defined(X) and X > 1 (false and ...)",
+    );
+  });
+
+  it("should check and remove __STATIC_ASSERT after imports are expanded", async () => {
+    const project = makeProject(manifest);
+    const source = `--#define SPRITE_COUNT 3
+__STATIC_ASSERT(#{ __ENCODE("hex,u8", "0a0b0c") } == SPRITE_COUNT, "sprite table size")
+local x = 1`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe("\nlocal x = 1");
+
+    await expect(
+      preprocessLuaCode(project, source.replace("0a0b0c", "0a0b"), "C:/test/source.lua"),
+    ).rejects.toThrow("[LuaPreprocessor] C:/test/source.lua:2 __STATIC_ASSERT failed (2 == 3): sprite table size");
+  });
+
+  it("should check __STATIC_ASSERT against the defines where it appears", async () => {
+    const project = makeProject(manifest);
+    const redefined = "--#define N 3\n__STATIC_ASSERT(N == 3)\n--#define N 4\n__STATIC_ASSERT(N == 4)";
+    expect((await preprocessLuaCode(project, redefined, "C:/test/source.lua")).code).toBe("\n");
+
+    const undefinedAfter = "--#define N 3\n__STATIC_ASSERT(N == 3)\n--#undef N";
+    expect((await preprocessLuaCode(project, undefinedAfter, "C:/test/source.lua")).code).toBe("");
+
+    const looped = "--#for i = 1, 2\n__STATIC_ASSERT(i < 2)\n--#endfor";
+    await expect(preprocessLuaCode(project, looped, "C:/test/source.lua")).rejects.toThrow(
+      "__STATIC_ASSERT failed (2 < 2)",
+    );
+  });
+
+  it("should see an include's `with` defines in its __STATIC_ASSERTs", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-preproc-"));
+    try {
+      fs.writeFileSync(path.join(tempRoot, "kernel.lua"), "__STATIC_ASSERT(SIZE == 4, \"kernel size\")\n", "utf-8");
+      const project = new TicbuildProjectCore({
+        manifest,
+        manifestPath: path.join(tempRoot, "manifest.ticbuild.jsonc"),
+        projectDir: tempRoot,
+      });
+      const mainPath = path.join(tempRoot, "main.lua");
+
+      const good = '--#include "kernel.lua" with { SIZE = 4 }\nlocal x = 1';
+      expect((await preprocessLuaCode(project, good, mainPath)).code).toBe("\n\nlocal x = 1");
+      await expect(preprocessLuaCode(project, good.replace("4", "2"), mainPath)).rejects.toThrow(
+        "__STATIC_ASSERT failed (2 == 4): kernel size",
+      );
+    } finally {
+      fs.rmSync(tempRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("should require __STATIC_ASSERT to be a statement", async () => {
+    const project = makeProject(manifest);
+    await expect(preprocessLuaCode(project, "local x = __STATIC_ASSERT(true)", "C:/test/source.lua")).rejects.toThrow(
+      "__STATIC_ASSERT must be used as a statement",
+    );
+  });
+});
+
+describe("Lua preprocessor passthrough", () => {
+  const manifest: Manifest = {
+    project: {
+      name: "test",
+      binDir: "./bin",
+      objDir: "./obj",
+      outputCartName: "test.tic",
+    },
+    variables: {},
+    imports: [],
+    assembly: {
+      blocks: [],
+    },
+  };
+
+  it("should leave source without directives untouched, including leading blank lines", async () => {
+    const project = makeProject(manifest);
+    const source = "\n\n\nfunction TIC()\n\tcls(0)\nend\n";
+
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+
+    expect(result.code).toBe(source);
+  });
+});
+
 describe("Lua preprocessor macros", () => {
   const manifest: Manifest = {
     project: {
@@ -483,6 +619,232 @@ local y = x
     expect(result.code).toContain(`local boundWidth = 240
 local y = x`);
   });
+
+  it("should pass extra args to ... in variadic macros", async () => {
+    const project = makeProject(manifest);
+    const source = `--#macro LOG(fmt, ...) => trace(string.format(fmt, ...))
+LOG("%d %s", n, "x")
+LOG("plain")`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`trace(string.format("%d %s", n, "x"))
+trace(string.format("plain"))`);
+  });
+
+  it("should fill omitted trailing args with default values", async () => {
+    const project = makeProject(manifest);
+    const source = `--#macro LERP(a, b, t = 0.5) => ((a) + ((b) - (a)) * (t))
+--#macro PICK(t, sep = ", ", f = max(1, 2)) => (t..sep..f)
+local m = LERP(x, y)
+local n = LERP(x, y, 0.25)
+local s = PICK("a")`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toContain("local m = ((x) + ((y) - (x)) * (0.5))");
+    expect(result.code).toContain("local n = ((x) + ((y) - (x)) * (0.25))");
+    expect(result.code).toContain('local s = ("a"..", "..max(1, 2))');
+    expect(result.preprocessorSymbols.map((symbol) => symbol.params)).toEqual([
+      ["a", "b", "t"],
+      ["t", "sep", "f"],
+    ]);
+  });
+
+  it("should report arity mismatches at the call site's original line", async () => {
+    const project = makeProject(manifest);
+    const source = `--#macro LERP(a, b, t = 0.5) => ((a) + ((b) - (a)) * (t))
+--#macro LOG(fmt, ...) => trace(string.format(fmt, ...))
+--#if false
+skipped()
+--#endif
+local m = LERP(x)`;
+    await expect(preprocessLuaCode(project, source, "C:/test/source.lua")).rejects.toThrow(
+      "[LuaPreprocessor] C:/test/source.lua:6 Macro LERP expects 2 to 3 args but got 1",
+    );
+    await expect(preprocessLuaCode(project, source.replace("LERP(x)", "LOG()"), "C:/test/source.lua")).rejects.toThrow(
+      "[LuaPreprocessor] C:/test/source.lua:6 Macro LOG expects at least 1 args but got 0",
+    );
+  });
+
+  it("should reject invalid variadic and default parameter lists", async () => {
+    const project = makeProject(manifest);
+    await expect(preprocessLuaCode(project, "--#macro F(..., a) => a", "C:/test/source.lua")).rejects.toThrow(
+      "... must be the last parameter of macro F",
+    );
+    await expect(preprocessLuaCode(project, "--#macro F(a = 1, b) => a", "C:/test/source.lua")).rejects.toThrow(
+      "Parameter b of macro F must have a default value",
+    );
+  });
+});
+
+describe("Lua preprocessor loops", () => {
+  const manifest: Manifest = {
+    project: {
+      name: "test",
+      binDir: "./bin",
+      objDir: "./obj",
+      outputCartName: "test.tic",
+    },
+    variables: {},
+    imports: [],
+    assembly: {
+      blocks: [],
+    },
+  };
+
+  it("should unroll --#for with the loop variable substituted", async () => {
+    const project = makeProject(manifest);
+    const source = `--#for i = 1, 3
+x[i] = i * 2 -- i stays in comments
+--#endfor`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`x[1] = 1 * 2 -- i stays in comments
+x[2] = 2 * 2 -- i stays in comments
+x[3] = 3 * 2 -- i stays in comments`);
+  });
+
+  it("should support a step, including negative steps", async () => {
+    const project = makeProject(manifest);
+    const source = `--#for i = 6, 0, -3
+f(i)
+--#endfor
+--#for i = 0, -1, -1
+g(1-i)
+--#endfor`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe("f(6)\nf(3)\nf(0)\ng(1-0)\ng(1-(-1))");
+  });
+
+  it("should iterate --#each over a list and leave strings and fields alone", async () => {
+    const project = makeProject(manifest);
+    const source = `--#each name in { "kick", "snare" }
+play(name, "name", t.name)
+--#endeach`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`play("kick", "name", t.name)
+play("snare", "name", t.name)`);
+  });
+
+  it("should leave table keys alone, including in multi-line constructors", async () => {
+    const project = makeProject(manifest);
+    const source = `--#for i = 1, 2
+t = { i = i, [i] = i == 1 }
+u = {
+  i = i,
+}
+--#endfor`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`t = { i = 1, [1] = 1 == 1 }
+u = {
+  i = 1,
+}
+t = { i = 2, [2] = 2 == 1 }
+u = {
+  i = 2,
+}`);
+  });
+
+  it("should reject loop bodies which redeclare the loop variable", async () => {
+    const project = makeProject(manifest);
+    const fail = (body: string) =>
+      expect(preprocessLuaCode(project, `--#for ch = 0, 1\n${body}\n--#endfor`, "C:/test/source.lua")).rejects.toThrow(
+        "[LuaPreprocessor] C:/test/source.lua:2 Loop variable ch is redeclared in the loop body",
+      );
+
+    await fail("for ch = 1, 2 do print(ch) end");
+    await fail("local ch = 5 print(ch)");
+    await fail("local a, ch = 1, 2");
+    await fail("for k, ch in pairs(t) do end");
+    await fail("local function f(x, ch, ...) end");
+  });
+
+  it("should substitute names next to declarations, but not declared fields", async () => {
+    const project = makeProject(manifest);
+    const source = `--#for i = 1, 1
+local a = i
+for k, v in pairs(t[i]) do end
+for j = i, 3 do end
+function g.i() end
+--#endfor`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`local a = 1
+for k, v in pairs(t[1]) do end
+for j = 1, 3 do end
+function g.i() end`);
+  });
+
+  it("should make the loop variable visible to --#if and macros", async () => {
+    const project = makeProject(manifest);
+    const source = `--#macro CHANNEL_ADDR(ch) => (0xFF9C + (ch) * 18)
+--#for ch = 0, 3
+--#if ch == 3
+poke(CHANNEL_ADDR(ch), 0) -- noise
+--#else
+poke(CHANNEL_ADDR(ch), 1)
+--#endif
+--#endfor`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe(`poke((0xFF9C + (0) * 18), 1)
+poke((0xFF9C + (1) * 18), 1)
+poke((0xFF9C + (2) * 18), 1)
+poke((0xFF9C + (3) * 18), 0) -- noise`);
+  });
+
+  it("should nest loops and restore shadowed defines afterwards", async () => {
+    const project = makeProject(manifest);
+    const source = `--#define i "outer"
+--#for i = 1, 2
+--#for j = i, 2
+p(i, j)
+--#endfor
+--#endfor
+--#if i == "outer"
+done()
+--#endif`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe("p(1, 1)\np(1, 2)\np(2, 2)\ndone()");
+  });
+
+  it("should skip loops in inactive blocks and empty ranges", async () => {
+    const project = makeProject(manifest);
+    const source = `--#if false
+--#for i = 1, 2
+a(i)
+--#endfor
+--#endif
+--#for i = 1, 0
+b(i)
+--#endfor
+c()`;
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    expect(result.code).toBe("c()");
+  });
+
+  it("should map unrolled lines back to the loop body", async () => {
+    const project = makeProject(manifest);
+    const source = "--#for i = 1, 2\nf(i)\n--#endfor";
+    const result = await preprocessLuaCode(project, source, "C:/test/source.lua");
+    const bodyOffset = source.indexOf("f(i)");
+    const secondCall = result.code.lastIndexOf("f(");
+    const segment = result.sourceMap.segments.find((seg) => seg.ppBegin === secondCall);
+    expect(segment?.originalOffset).toBe(bodyOffset);
+  });
+
+  it("should report malformed loops", async () => {
+    const project = makeProject(manifest);
+    await expect(preprocessLuaCode(project, "--#for i = 1, 2\nf(i)", "C:/test/source.lua")).rejects.toThrow(
+      "Unclosed --#for block",
+    );
+    await expect(preprocessLuaCode(project, "--#endfor", "C:/test/source.lua")).rejects.toThrow(
+      "--#endfor without matching --#for",
+    );
+    await expect(
+      preprocessLuaCode(project, "--#each x in { 1 }\n--#endfor", "C:/test/source.lua"),
+    ).rejects.toThrow("--#endfor does not close --#each");
+    await expect(
+      preprocessLuaCode(project, "--#for i = 1, 2\n--#if i == 1\n--#endfor", "C:/test/source.lua"),
+    ).rejects.toThrow("Unclosed --#if block in loop body");
+    await expect(preprocessLuaCode(project, "--#for i = 1, 2, 0\n--#endfor", "C:/test/source.lua")).rejects.toThrow(
+      "--#for step must not be 0",
+    );
+  });
 });
 
 describe("Lua preprocessor include resolution", () => {
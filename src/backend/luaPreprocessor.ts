@@ -25,13 +25,26 @@ import {
 
 export type LuaPreprocessorValue = PreprocessorValue;
 
+// how one `--#include` of a file was resolved, so a cached result can check it still resolves the same.
+export type LuaIncludeResolution = {
+  target: string; // after variable substitution
+  fromFile: string;
+  resolvedPath: string;
+};
+
 export type LuaPreprocessResult = {
   code: string;
   dependencies: string[];
+  includes: LuaIncludeResolution[];
   sourceMap: LuaPreprocessorSourceMap;
   preprocessorSymbols: PreprocessorSymbol[];
 };
 
+export type LuaPreprocessOptions = {
+  // reads included Lua files; the file system by default. the language server passes unsaved editor buffers.
+  readSourceFile?: (filePath: string) => Promise<string>;
+};
+
 export type PreprocessorSymbol = {
   name: string;
   kind: "macro";
@@ -44,15 +57,21 @@ export type PreprocessorSymbol = {
 type PreprocessorState = {
   defines: Map<string, LuaPreprocessorValue>;
   dependencies: Set<string>;
+  includes: Map<string, LuaIncludeResolution>; // by fromFile + target
   pragmaOnceKeys: Set<string>;
   includeStack: string[];
   macros: Map<string, MacroDefinition>;
   macroSymbols: PreprocessorSymbol[];
+  sources: Map<string, string>; // processed source text per file, for locating macro call sites in errors
+  defineSnapshots: Map<string, LuaPreprocessorValue>[]; // defines in effect where code was emitted; source map tags
+  readSourceFile: (filePath: string) => Promise<string>;
 };
 
 type MacroDefinition = {
   name: string;
   params: string[];
+  defaults: Array<string | undefined>;
+  variadic: boolean;
   body: string;
   sourceFile: string;
   lineNumber: number;
@@ -65,29 +84,49 @@ type ConditionFrame = {
   hasElse: boolean;
 };
 
+// an active --#for / --#each. the body is re-run by jumping back to bodyIndex at the end directive.
+type LoopFrame = {
+  name: string;
+  values: LuaPreprocessorValue[];
+  iteration: number;
+  bodyIndex: number;
+  endIndex: number;
+  conditionDepth: number; // --#if blocks must not cross the loop body
+  shadowed: LuaPreprocessorValue | undefined; // define of the same name, restored after the loop
+};
+
+const kMaxLoopIterations = 10000;
+
 export async function preprocessLuaCode(
   project: TicbuildProjectCore,
   source: string,
   filePath: string,
+  options: LuaPreprocessOptions = {},
 ): Promise<LuaPreprocessResult> {
   const manifestDefines = getManifestPreprocessorDefines(project);
   const state: PreprocessorState = {
     defines: new Map<string, LuaPreprocessorValue>(Object.entries(manifestDefines)),
     dependencies: new Set<string>(),
+    includes: new Map<string, LuaIncludeResolution>(),
     pragmaOnceKeys: new Set<string>(),
     includeStack: [],
     macros: new Map<string, MacroDefinition>(),
     macroSymbols: [],
+    sources: new Map<string, string>(),
+    defineSnapshots: [],
+    readSourceFile: options.readSourceFile ?? ((file) => readTextFileAsync(file)),
   };
 
   const includeKey = makeIncludeKey(filePath, {});
   const rawResult = await processSource(project, source, filePath, includeKey, state, {});
-  const expandedResult = expandMacros(project, rawResult, state.macros, filePath);
-  const finalResult = await expandPreprocessorCalls(project, expandedResult, filePath, state);
+  const expandedResult = expandMacros(project, rawResult, state, filePath);
+  const callsResult = await expandPreprocessorCalls(project, expandedResult, filePath, state);
+  const finalResult = expandStaticAsserts(callsResult, filePath, state);
 
   return {
     code: finalResult.code,
     dependencies: Array.from(state.dependencies.values()),
+    includes: Array.from(state.includes.values()),
     sourceMap: finalResult.map.toSourceMap(finalResult.code),
     preprocessorSymbols: state.macroSymbols,
   };
@@ -129,6 +168,7 @@ async function processSource(
   }
 
   state.includeStack.push(includeKey);
+  state.sources.set(filePath, source);
   if (trackDependency) {
     state.dependencies.add(filePath);
   }
@@ -142,8 +182,11 @@ async function processSource(
   }
 
   const conditionalStack: ConditionFrame[] = [];
+  const loopStack: LoopFrame[] = [];
+  let loopScan: LoopScanState = { longClose: "", braceDepth: 0 }; // carried across loop body lines
   const builder = new SourceMapBuilder();
   let output = "";
+  let emittedAnyLine = false; // not output.length; leading blank lines must survive
   let lastEmittedOrigin: { file: string; offset: number } | null = null;
 
   // helper to check if current line is in active conditional block
@@ -164,13 +207,26 @@ async function processSource(
     const directiveMatch = line.match(/^\s*--#\s*(\w+)\s*(.*)$/);
     if (!directiveMatch) {
       if (isActive()) {
-        if (output.length > 0) {
+        if (emittedAnyLine) {
           output += "\n";
           const newlineOrigin = lastEmittedOrigin ?? { file: filePath, offset: lineInfo.startOffset };
           builder.appendOriginal("\n", newlineOrigin.file, newlineOrigin.offset);
         }
-        output += line;
-        builder.appendOriginal(line, filePath, lineInfo.startOffset);
+        emittedAnyLine = true;
+        if (loopStack.length > 0) {
+          // loop variables are substituted here so macro calls see their values
+          const variables = getLoopVariables(loopStack);
+          const substituted = substituteLoopVariables(line, variables, loopScan, filePath, lineNumber);
+          loopScan = substituted.state;
+          const tag = snapshotDefines(state, localDefines);
+          for (const piece of substituted.pieces) {
+            output += piece.text;
+            builder.appendOriginal(piece.text, filePath, lineInfo.startOffset + piece.offset, tag);
+          }
+        } else {
+          output += line;
+          builder.appendOriginal(line, filePath, lineInfo.startOffset, snapshotDefines(state, localDefines));
+        }
         lastEmittedOrigin = { file: filePath, offset: lineInfo.endOffset };
       }
       continue;
@@ -184,11 +240,14 @@ async function processSource(
         const macroHeader = parseMacroHeader(rest, filePath, lineNumber);
         const nameOffset = findMacroNameOffset(line, lineInfo.startOffset, macroHeader.name);
         const docLines = collectDocCommentAbove(lineTexts, i);
+        const symbolParams = macroHeader.variadic ? [...macroHeader.params, "..."] : macroHeader.params;
         if (macroHeader.inlineBody !== undefined) {
           if (isActive()) {
             state.macros.set(macroHeader.name, {
               name: macroHeader.name,
               params: macroHeader.params,
+              defaults: macroHeader.defaults,
+              variadic: macroHeader.variadic,
               body: macroHeader.inlineBody,
               sourceFile: filePath,
               lineNumber,
@@ -198,7 +257,7 @@ async function processSource(
               kind: "macro",
               sourceFile: filePath,
               offset: nameOffset,
-              params: macroHeader.params,
+              params: symbolParams,
               docLines,
             });
           }
@@ -212,6 +271,8 @@ async function processSource(
           state.macros.set(macroHeader.name, {
             name: macroHeader.name,
             params: macroHeader.params,
+            defaults: macroHeader.defaults,
+            variadic: macroHeader.variadic,
             body: strippedBody,
             sourceFile: filePath,
             lineNumber,
@@ -221,7 +282,7 @@ async function processSource(
             kind: "macro",
             sourceFile: filePath,
             offset: nameOffset,
-            params: macroHeader.params,
+            params: symbolParams,
             docLines,
           });
         }
@@ -342,6 +403,67 @@ async function processSource(
         conditionalStack.pop();
         break;
       }
+      case "for":
+      case "each": {
+        const endIndex = findLoopEnd(lineTexts, i + 1, directive, filePath, lineNumber);
+        if (!isActive()) {
+          i = endIndex;
+          break;
+        }
+        const loop =
+          directive === "for"
+            ? parseForLoop(rest, localDefines, filePath, lineNumber)
+            : parseEachLoop(rest, localDefines, filePath, lineNumber);
+        if (loop.values.length === 0) {
+          i = endIndex;
+          break;
+        }
+        if (loopStack.length === 0) {
+          loopScan = { longClose: "", braceDepth: 0 };
+        }
+        loopStack.push({
+          name: loop.name,
+          values: loop.values,
+          iteration: 0,
+          bodyIndex: i + 1,
+          endIndex,
+          conditionDepth: conditionalStack.length,
+          shadowed: localDefines.get(loop.name),
+        });
+        localDefines.set(loop.name, loop.values[0]);
+        break;
+      }
+      case "endfor":
+      case "endeach": {
+        const loop = loopStack[loopStack.length - 1];
+        if (!loop || loop.endIndex !== i) {
+          const opener = directive === "endfor" ? "for" : "each";
+          throw new Error(formatError(filePath, lineNumber, `--#${directive} without matching --#${opener}`));
+        }
+        if (conditionalStack.length !== loop.conditionDepth) {
+          throw new Error(formatError(filePath, lineNumber, `Unclosed --#if block in loop body`));
+        }
+        loop.iteration++;
+        if (loop.iteration < loop.values.length) {
+          localDefines.set(loop.name, loop.values[loop.iteration]);
+          i = loop.bodyIndex - 1;
+          break;
+        }
+        loopStack.pop();
+        if (loop.shadowed === undefined) {
+          localDefines.delete(loop.name);
+        } else {
+          localDefines.set(loop.name, loop.shadowed);
+        }
+        break;
+      }
+      case "assert": {
+        if (!isActive()) {
+          break;
+        }
+        checkAssertDirective(rest, localDefines, filePath, lineNumber);
+        break;
+      }
       case "pragma": {
         if (!isActive()) {
           break;
@@ -371,11 +493,12 @@ async function processSource(
 
         const included = await resolveInclude(project, includeTarget, filePath, overrides, state, lineNumber);
         if (included.code) {
-          if (output.length > 0) {
+          if (emittedAnyLine) {
             output += "\n";
             const newlineOrigin = lastEmittedOrigin ?? { file: filePath, offset: 0 };
             builder.appendOriginal("\n", newlineOrigin.file, newlineOrigin.offset);
           }
+          emittedAnyLine = true;
           output += included.code;
           builder.appendMap(included.map);
           const endOrigin = included.map.mapOffset(included.code.length);
@@ -420,6 +543,11 @@ async function processSource(
   return { code: output, map: builder };
 }
 
+// the including file's directory first, then the project dir and includeDirs. throws when not found.
+export function resolveLuaIncludePath(project: TicbuildProjectCore, target: string, fromFile: string): string {
+  return resolveFileWithSearchPaths(target, path.dirname(fromFile)) ?? project.resolveIncludePath(target);
+}
+
 async function resolveInclude(
   project: TicbuildProjectCore,
   includeTarget: string,
@@ -434,25 +562,20 @@ async function resolveInclude(
 
   const substituted = project.substituteVariables(includeTarget);
   let resolvedPath: string;
-
-  const localFound = resolveFileWithSearchPaths(substituted, path.dirname(fromFile));
-  if (localFound) {
-    resolvedPath = localFound;
-  } else {
-    try {
-      resolvedPath = project.resolveIncludePath(substituted);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(formatError(fromFile, lineNumber, message));
-    }
+  try {
+    resolvedPath = resolveLuaIncludePath(project, substituted, fromFile);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(formatError(fromFile, lineNumber, message));
   }
+  state.includes.set(`${fromFile}\n${substituted}`, { target: substituted, fromFile, resolvedPath });
   const includeKey = makeIncludeKey(resolvedPath, overrides);
 
   if (state.pragmaOnceKeys.has(includeKey)) {
     return { code: "", map: new SourceMapBuilder() };
   }
 
-  const source = await readTextFileAsync(resolvedPath);
+  const source = await state.readSourceFile(resolvedPath);
   const included = await processSource(project, source, resolvedPath, includeKey, state, overrides);
   return ensureTrailingNewline(included, resolvedPath);
 }
@@ -479,7 +602,7 @@ async function resolveImportInclude(
     if (state.pragmaOnceKeys.has(includeKey)) {
       return { code: "", map: new SourceMapBuilder() };
     }
-    const source = await readTextFileAsync(resolvedPath);
+    const source = await state.readSourceFile(resolvedPath);
     const included = await processSource(project, source, resolvedPath, includeKey, state, overrides);
     return ensureTrailingNewline(included, resolvedPath);
   }
@@ -585,6 +708,18 @@ function parseExpression(exprText: string, filePath: string, lineNumber: number)
   }
 }
 
+function parseExpressionList(exprText: string, filePath: string, lineNumber: number): luaparse.Expression[] {
+  try {
+    const chunk = parseLua(`return ${exprText}`)!;
+    if (chunk.body.length === 0 || chunk.body[0].type !== "ReturnStatement") {
+      throw new Error("Invalid expression");
+    }
+    return chunk.body[0].arguments;
+  } catch (error) {
+    throw new Error(formatError(filePath, lineNumber, `Failed to parse expression list: ${exprText}`));
+  }
+}
+
 // alternatively i could actually RUN the Lua but it's not trivial and would be slow.
 // turns out not to be so bad to just evaluate off the AST.
 function evaluateExpression(
@@ -612,6 +747,9 @@ function evaluateExpression(
       return defines.get(expr.name)!;
     }
     case "UnaryExpression": {
+      if (expr.operator === "#") {
+        return evaluateLength(expr.argument, defines, filePath, lineNumber);
+      }
       const arg = evaluateExpression(expr.argument, defines, filePath, lineNumber);
       switch (expr.operator) {
         case "not":
@@ -689,6 +827,106 @@ function evaluateExpression(
   }
 }
 
+// `#` on a string, or on a table constructor (e.g. an expanded __IMPORT) for its number of values
+function evaluateLength(
+  expr: luaparse.Expression,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): number {
+  if (expr.type === "TableConstructorExpression") {
+    return expr.fields.filter((field) => field.type === "TableValue").length;
+  }
+  const value = evaluateExpression(expr, defines, filePath, lineNumber);
+  if (typeof value !== "string") {
+    throw new Error(formatError(filePath, lineNumber, `# expects a string or table but got ${typeof value}`));
+  }
+  return value.length;
+}
+
+const kComparisonOperators = new Set(["==", "~=", "<", "<=", ">", ">="]);
+
+// comparisons and logical operators are shown with their operands; anything else is shown as its value.
+function isRenderedAsStructure(expr: luaparse.Expression): boolean {
+  return (
+    (expr.type === "BinaryExpression" && kComparisonOperators.has(expr.operator)) ||
+    expr.type === "LogicalExpression" ||
+    (expr.type === "UnaryExpression" && expr.operator === "not")
+  );
+}
+
+// the expression with its operands evaluated, to explain failed assertions,
+// e.g. `MAX_VOICES <= 4` => `8 <= 4`, `N * 2 > 10` => `6 > 10`
+function renderEvaluatedExpression(
+  expr: luaparse.Expression,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): string {
+  const render = (operand: luaparse.Expression): string => {
+    const text = renderEvaluatedExpression(operand, defines, filePath, lineNumber);
+    const isCompound = isRenderedAsStructure(operand) && operand.type !== "UnaryExpression";
+    return isCompound ? `(${text})` : text;
+  };
+  if (isRenderedAsStructure(expr)) {
+    switch (expr.type) {
+      case "BinaryExpression":
+        return `${render(expr.left)} ${expr.operator} ${render(expr.right)}`;
+      case "LogicalExpression": {
+        // don't evaluate the short-circuited side; it may use undefined symbols
+        const left = isTruthy(evaluateExpression(expr.left, defines, filePath, lineNumber));
+        const skipRight = expr.operator === "and" ? !left : left;
+        return `${render(expr.left)} ${expr.operator} ${skipRight ? "..." : render(expr.right)}`;
+      }
+      case "UnaryExpression":
+        return `not ${render(expr.argument)}`;
+    }
+  }
+  const value = evaluateExpression(expr, defines, filePath, lineNumber);
+  return typeof value === "string" ? toLuaStringLiteral(value) : String(value);
+}
+
+// "<label> (<evaluated operands>): <message>"
+function describeFailedAssertion(
+  label: string,
+  condition: luaparse.Expression,
+  message: luaparse.Expression | undefined,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): string {
+  const description = `${label} (${renderEvaluatedExpression(condition, defines, filePath, lineNumber)})`;
+  if (!message) {
+    return description;
+  }
+  return `${description}: ${String(evaluateExpression(message, defines, filePath, lineNumber))}`;
+}
+
+// --#assert <expr> [, "message"]
+function checkAssertDirective(
+  rest: string,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): void {
+  if (rest.trim() === "") {
+    throw new Error(formatError(filePath, lineNumber, `Missing expression in --#assert`));
+  }
+  const args = parseExpressionList(rest, filePath, lineNumber);
+  if (args.length > 2) {
+    throw new Error(formatError(filePath, lineNumber, `--#assert expects an expression and an optional message`));
+  }
+  const [condition, message] = args;
+  if (isTruthy(evaluateExpression(condition, defines, filePath, lineNumber))) {
+    return;
+  }
+  const range = getRange(condition, filePath);
+  const offset = "return ".length;
+  const label = `Assertion failed: ${rest.slice(range[0] - offset, range[1] - offset)}`;
+  const description = describeFailedAssertion(label, condition, message, defines, filePath, lineNumber);
+  throw new Error(formatError(filePath, lineNumber, description));
+}
+
 // evaluates a table constructor expression into a key-value map
 // used for with-clause parsing in include directives
 function evaluateTable(
@@ -917,37 +1155,130 @@ function formatError(filePath: string, lineNumber: number, message: string): str
   return `[LuaPreprocessor] ${filePath}:${lineNumber} ${message}`;
 }
 
+const kPreprocessorErrorRegex = /^\[LuaPreprocessor\] (.+?):(\d+) ([^]*)$/;
+
+// the location of an error thrown by the preprocessor (see formatError).
+export function parsePreprocessorError(
+  message: string,
+): { filePath: string; lineNumber: number; message: string } | null {
+  const match = kPreprocessorErrorRegex.exec(message);
+  if (!match) {
+    return null;
+  }
+  return { filePath: match[1], lineNumber: Number(match[2]), message: match[3] };
+}
+
 type MacroHeader = {
   name: string;
   params: string[];
+  defaults: Array<string | undefined>; // per param; call sites may omit trailing defaulted args
+  variadic: boolean; // last param is `...`
   inlineBody?: string;
 };
 
 function parseMacroHeader(rest: string, filePath: string, lineNumber: number): MacroHeader {
   const sanitized = stripLuaCommentsPreserveNewlines(rest).trim();
+  const invalid = () => new Error(formatError(filePath, lineNumber, `Invalid --#macro syntax: ${rest}`));
   // name(params...) => inlineBody
-  const headerMatch = sanitized.match(/^([A-Za-z_][A-Za-z0-9_]*)(\s*\(([^)]*)\))?\s*(?:=>\s*(.*))?$/);
-  if (!headerMatch) {
-    throw new Error(formatError(filePath, lineNumber, `Invalid --#macro syntax: ${rest}`));
-  }
-  const name = headerMatch[1];
-  const paramList = headerMatch[3];
-  const inlineBody = headerMatch[4];
-  const params = paramList
-    ? paramList
-      .split(",")
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0)
-    : [];
-  const sanitizedInlineBody =
-    inlineBody !== undefined ? stripLuaCommentsPreserveNewlines(inlineBody).trim() : undefined;
+  const nameMatch = sanitized.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*/);
+  if (!nameMatch) {
+    throw invalid();
+  }
+  const name = nameMatch[1];
+  let remainder = sanitized.slice(nameMatch[0].length);
+
+  let paramTexts: string[] = [];
+  if (remainder.startsWith("(")) {
+    const split = splitTopLevelCommas(remainder, 1);
+    if (!split) {
+      throw invalid();
+    }
+    paramTexts = split.parts.map((p) => p.trim());
+    if (paramTexts.length === 1 && paramTexts[0] === "") {
+      paramTexts = [];
+    }
+    remainder = remainder.slice(split.endIndex + 1).trim();
+  }
+
+  let inlineBody: string | undefined;
+  if (remainder.length > 0) {
+    const arrowMatch = remainder.match(/^=>\s*(.*)$/);
+    if (!arrowMatch) {
+      throw invalid();
+    }
+    inlineBody = arrowMatch[1].trim();
+  }
+
+  const params: string[] = [];
+  const defaults: Array<string | undefined> = [];
+  let variadic = false;
+  paramTexts.forEach((text, index) => {
+    if (text === "...") {
+      if (index !== paramTexts.length - 1) {
+        throw new Error(formatError(filePath, lineNumber, `... must be the last parameter of macro ${name}`));
+      }
+      variadic = true;
+      return;
+    }
+    const paramMatch = text.match(/^([A-Za-z_][A-Za-z0-9_]*)(?:\s*=\s*([\s\S]+))?$/);
+    if (!paramMatch) {
+      throw new Error(formatError(filePath, lineNumber, `Invalid parameter in macro ${name}: ${text}`));
+    }
+    if (params.includes(paramMatch[1])) {
+      throw new Error(formatError(filePath, lineNumber, `Duplicate parameter in macro ${name}: ${paramMatch[1]}`));
+    }
+    const defaultValue = paramMatch[2]?.trim();
+    if (defaultValue === undefined && defaults.some((d) => d !== undefined)) {
+      throw new Error(
+        formatError(filePath, lineNumber, `Parameter ${paramMatch[1]} of macro ${name} must have a default value`),
+      );
+    }
+    if (defaultValue !== undefined) {
+      parseExpression(defaultValue, filePath, lineNumber); // report bad defaults at the definition
+    }
+    params.push(paramMatch[1]);
+    defaults.push(defaultValue);
+  });
+
   return {
     name,
     params,
-    inlineBody: sanitizedInlineBody,
+    defaults,
+    variadic,
+    inlineBody,
   };
 }
 
+// splits `a, f(b, c), "d,e")` at top-level commas up to the closing paren.
+// startIndex is just after the opening paren; returns null if it's never closed.
+function splitTopLevelCommas(text: string, startIndex: number): { parts: string[]; endIndex: number } | null {
+  const parts: string[] = [];
+  let depth = 0;
+  let partStart = startIndex;
+  for (let i = startIndex; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") {
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        i += text[i] === "\\" ? 2 : 1;
+      }
+      continue;
+    }
+    if (ch === "(" || ch === "{" || ch === "[") {
+      depth++;
+    } else if ((ch === ")" || ch === "}" || ch === "]") && depth > 0) {
+      depth--;
+    } else if (ch === ")") {
+      parts.push(text.slice(partStart, i));
+      return { parts, endIndex: i };
+    } else if (ch === "," && depth === 0) {
+      parts.push(text.slice(partStart, i));
+      partStart = i + 1;
+    }
+  }
+  return null;
+}
+
 function readMacroBody(
   lines: string[],
   startIndex: number,
@@ -973,20 +1304,271 @@ function readMacroBody(
   throw new Error(formatError(filePath, lineNumber, `Unclosed --#macro block`));
 }
 
+// index of the --#endfor / --#endeach closing the loop whose body starts at startIndex
+function findLoopEnd(
+  lines: string[],
+  startIndex: number,
+  directive: string,
+  filePath: string,
+  lineNumber: number,
+): number {
+  const open: string[] = [directive];
+  for (let i = startIndex; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*--#\s*(\w+)/);
+    if (!match) {
+      continue;
+    }
+    if (match[1] === "for" || match[1] === "each") {
+      open.push(match[1]);
+    } else if (match[1] === "endfor" || match[1] === "endeach") {
+      const top = open.pop()!;
+      if (match[1] !== `end${top}`) {
+        throw new Error(formatError(filePath, i + 1, `--#${match[1]} does not close --#${top}`));
+      }
+      if (open.length === 0) {
+        return i;
+      }
+    }
+  }
+  throw new Error(formatError(filePath, lineNumber, `Unclosed --#${directive} block`));
+}
+
+type LoopHeader = {
+  name: string;
+  values: LuaPreprocessorValue[];
+};
+
+// --#for name = start, stop[, step]  (inclusive, like Lua's numeric for)
+function parseForLoop(
+  rest: string,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): LoopHeader {
+  const match = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.+)$/);
+  if (!match) {
+    throw new Error(formatError(filePath, lineNumber, `Invalid --#for syntax: ${rest}`));
+  }
+  const bounds = parseExpressionList(match[2], filePath, lineNumber).map((expr) =>
+    asNumber(evaluateExpression(expr, defines, filePath, lineNumber), filePath, lineNumber),
+  );
+  if (bounds.length < 2 || bounds.length > 3) {
+    throw new Error(formatError(filePath, lineNumber, `--#for expects start, stop[, step]`));
+  }
+  const [start, stop, step = 1] = bounds;
+  if (step === 0) {
+    throw new Error(formatError(filePath, lineNumber, `--#for step must not be 0`));
+  }
+  const values: LuaPreprocessorValue[] = [];
+  for (let value = start; step > 0 ? value <= stop : value >= stop; value += step) {
+    if (values.length >= kMaxLoopIterations) {
+      throw new Error(formatError(filePath, lineNumber, `--#for exceeds ${kMaxLoopIterations} iterations`));
+    }
+    values.push(value);
+  }
+  return { name: match[1], values };
+}
+
+// --#each name in { value, ... }
+function parseEachLoop(
+  rest: string,
+  defines: Map<string, LuaPreprocessorValue>,
+  filePath: string,
+  lineNumber: number,
+): LoopHeader {
+  const match = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s+in\s+(.+)$/);
+  if (!match) {
+    throw new Error(formatError(filePath, lineNumber, `Invalid --#each syntax: ${rest}`));
+  }
+  const expr = parseExpression(match[2], filePath, lineNumber);
+  if (expr.type !== "TableConstructorExpression") {
+    throw new Error(formatError(filePath, lineNumber, `--#each expects a list like { "a", "b" }`));
+  }
+  const values = expr.fields.map((field) => {
+    if (field.type !== "TableValue") {
+      throw new Error(formatError(filePath, lineNumber, `--#each lists cannot have keys`));
+    }
+    return evaluateExpression(field.value, defines, filePath, lineNumber);
+  });
+  return { name: match[1], values };
+}
+
+// innermost loop wins when names are reused
+function getLoopVariables(loopStack: LoopFrame[]): Map<string, LuaPreprocessorValue> {
+  const variables = new Map<string, LuaPreprocessorValue>();
+  for (const loop of loopStack) {
+    variables.set(loop.name, loop.values[loop.iteration]);
+  }
+  return variables;
+}
+
+function toLuaLiteral(value: LuaPreprocessorValue): string {
+  if (typeof value === "string") {
+    return toLuaStringLiteral(value);
+  }
+  if (typeof value === "number" && value < 0) {
+    // so that `x-i` doesn't become a comment
+    return `(${value})`;
+  }
+  return String(value);
+}
+
+type LoopScanState = {
+  longClose: string; // closer of a long string/comment left open by a previous line ("" if none)
+  braceDepth: number; // open table constructors
+};
+
+// where a name would be declared: a `local` / `for` name list ("names", then "afterName" until a comma),
+// a `function` name ("function", then "functionName" until `.` / `:` / `(`) and its parameter list
+type DeclarationMode = "names" | "afterName" | "function" | "functionName" | "params" | null;
+
+const kDeclarationKeywords: Record<string, DeclarationMode> = { local: "names", for: "names", function: "function" };
+
+// replaces loop variable names in a line of code with their values as Lua literals.
+// strings, comments, field names (`t.i`, `t:i()`) and table keys (`{ i = 1 }`) are left alone.
+// declaring a loop variable's name (`local i`, `for i`, `function f(i)`) is an error, as later uses
+// would be substituted although they refer to the new variable.
+function substituteLoopVariables(
+  line: string,
+  variables: Map<string, LuaPreprocessorValue>,
+  state: LoopScanState,
+  filePath: string,
+  lineNumber: number,
+): { pieces: Array<{ text: string; offset: number }>; state: LoopScanState } {
+  const pieces: Array<{ text: string; offset: number }> = [];
+  let pieceStart = 0;
+  let close = state.longClose;
+  let braceDepth = state.braceDepth;
+  let declaring: DeclarationMode = null;
+  let i = 0;
+  while (i < line.length) {
+    if (close) {
+      const end = line.indexOf(close, i);
+      if (end < 0) {
+        break;
+      }
+      i = end + close.length;
+      close = "";
+      continue;
+    }
+
+    const ch = line[i];
+    if (ch === "-" && line[i + 1] === "-") {
+      const longOpen = readLongBracketOpen(line, i + 2);
+      if (!longOpen) {
+        break; // line comment
+      }
+      close = longOpen.close;
+      i += 2 + longOpen.length;
+      continue;
+    }
+    if (ch === "[") {
+      const longOpen = readLongBracketOpen(line, i);
+      if (longOpen) {
+        close = longOpen.close;
+        i += longOpen.length;
+        continue;
+      }
+    }
+    if (ch === '"' || ch === "'") {
+      declaring = null;
+      i++;
+      while (i < line.length && line[i] !== ch) {
+        i += line[i] === "\\" ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      // numbers like 0x1f or 1e5 aren't names
+      declaring = null;
+      while (i < line.length && /[\w.]/.test(line[i])) {
+        i++;
+      }
+      continue;
+    }
+    if (!/[A-Za-z_]/.test(ch)) {
+      if (ch === "{") {
+        braceDepth++;
+      } else if (ch === "}") {
+        braceDepth = Math.max(0, braceDepth - 1);
+      }
+      declaring = nextDeclarationMode(declaring, ch);
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < line.length && /\w/.test(line[i])) {
+      i++;
+    }
+    const name = line.slice(start, i);
+    const isDeclared = declaring === "names" || declaring === "function" || declaring === "params";
+    declaring = kDeclarationKeywords[name] ?? nextDeclarationModeAfterName(declaring);
+    const value = variables.get(name);
+    const isField = (line[start - 1] === "." && line[start - 2] !== ".") || line[start - 1] === ":";
+    const isTableKey = braceDepth > 0 && /^\s*=(?!=)/.test(line.slice(i));
+    if (value === undefined || isField || isTableKey) {
+      continue;
+    }
+    if (isDeclared) {
+      throw new Error(
+        formatError(filePath, lineNumber, `Loop variable ${name} is redeclared in the loop body; rename one of them`),
+      );
+    }
+    pieces.push({ text: line.slice(pieceStart, start), offset: pieceStart });
+    pieces.push({ text: toLuaLiteral(value), offset: start });
+    pieceStart = i;
+  }
+  pieces.push({ text: line.slice(pieceStart), offset: pieceStart });
+  return { pieces, state: { longClose: close, braceDepth } };
+}
+
+function nextDeclarationModeAfterName(mode: DeclarationMode): DeclarationMode {
+  switch (mode) {
+    case "names":
+      return "afterName";
+    case "function":
+      return "functionName";
+    case "params":
+      return "params";
+    default:
+      return null;
+  }
+}
+
+// the declaration mode after a punctuation / whitespace character
+function nextDeclarationMode(mode: DeclarationMode, ch: string): DeclarationMode {
+  if (/\s/.test(ch)) {
+    return mode;
+  }
+  switch (mode) {
+    case "afterName":
+      return ch === "," ? "names" : null;
+    case "function": // anonymous: `function(i)`
+    case "functionName":
+      return ch === "(" ? "params" : ch === "." || ch === ":" ? "function" : null;
+    case "params":
+      return ch === "," || ch === "." ? "params" : null; // `.` of `...`
+    default:
+      return null;
+  }
+}
+
 function expandMacros(
   project: TicbuildProjectCore,
   result: ProcessResult,
-  macros: Map<string, MacroDefinition>,
+  state: PreprocessorState,
   filePath: string,
 ): ProcessResult {
-  if (macros.size === 0) {
+  if (state.macros.size === 0) {
     return result;
   }
 
   let current = result;
   const maxPasses = 25;
   for (let pass = 0; pass < maxPasses; pass++) {
-    const passResult = applyMacroPass(project, current, macros, filePath);
+    const passResult = applyMacroPass(project, current, state, filePath);
     if (!passResult.changed) {
       return current;
     }
@@ -999,7 +1581,7 @@ function expandMacros(
 function applyMacroPass(
   project: TicbuildProjectCore,
   result: ProcessResult,
-  macros: Map<string, MacroDefinition>,
+  state: PreprocessorState,
   filePath: string,
 ): { code: string; map: SourceMapBuilder; changed: boolean } {
   const chunk = parseLua(result.code)!;
@@ -1013,7 +1595,7 @@ function applyMacroPass(
     if (callNode.base.type !== "Identifier") {
       return;
     }
-    const macroDef = macros.get(callNode.base.name);
+    const macroDef = state.macros.get(callNode.base.name);
     if (!macroDef) {
       return;
     }
@@ -1021,14 +1603,10 @@ function applyMacroPass(
     const range = getRange(callNode, filePath);
     const lineNumber = getLineNumber(callNode, 1);
     const args = callNode.arguments || [];
-    if (args.length !== macroDef.params.length) {
-      throw new Error(
-        formatError(
-          filePath,
-          lineNumber,
-          `Macro ${macroDef.name} expects ${macroDef.params.length} args but got ${args.length}`,
-        ),
-      );
+    const arityError = checkMacroArity(macroDef, args.length);
+    if (arityError) {
+      const site = locateOriginalLine(result, state.sources, range[0]) ?? { file: filePath, lineNumber };
+      throw new Error(formatError(site.file, site.lineNumber, arityError));
     }
 
     const argTexts = args.map((arg) =>
@@ -1061,6 +1639,37 @@ function applyMacroPass(
   return { code: updated.code, map: updated.map, changed: true };
 }
 
+// undefined if argCount fits the macro's params (including defaulted and variadic ones)
+function checkMacroArity(macro: MacroDefinition, argCount: number): string | undefined {
+  const required = macro.defaults.filter((d) => d === undefined).length;
+  const max = macro.params.length;
+  if (macro.variadic) {
+    if (argCount >= required) {
+      return undefined;
+    }
+    return `Macro ${macro.name} expects at least ${required} args but got ${argCount}`;
+  }
+  if (argCount >= required && argCount <= max) {
+    return undefined;
+  }
+  const expected = required === max ? `${max}` : `${required} to ${max}`;
+  return `Macro ${macro.name} expects ${expected} args but got ${argCount}`;
+}
+
+// original file and line of an offset in the preprocessed code, if known
+function locateOriginalLine(
+  result: ProcessResult,
+  sources: Map<string, string>,
+  offset: number,
+): { file: string; lineNumber: number } | null {
+  const origin = result.map.mapOffset(offset);
+  const source = origin ? sources.get(origin.file) : undefined;
+  if (!origin || source === undefined) {
+    return null;
+  }
+  return { file: origin.file, lineNumber: source.slice(0, origin.offset).split(/\r\n|\r|\n/).length };
+}
+
 function expandMacroBody(
   project: TicbuildProjectCore,
   macro: MacroDefinition,
@@ -1074,15 +1683,35 @@ function expandMacroBody(
     return "";
   }
 
-  if (macro.params.length === 0) {
+  if (macro.params.length === 0 && !macro.variadic) {
     return wrappedBody;
   }
 
+  // omitted trailing args take their defaults; anything past the named params goes to `...`
+  const values = macro.params.map((_, index) => (index < argTexts.length ? argTexts[index] : macro.defaults[index]!));
+  const varargs = argTexts.slice(macro.params.length);
+
   const parsed = parseExpressionWithRanges(macro.body, macro.sourceFile, macro.lineNumber);
   const offset = "return ".length;
   const replacements: Array<{ start: number; end: number; text: string }> = [];
 
   walkLuaAst(parsed, (node, parent) => {
+    if (node.type === "VarargLiteral" && macro.variadic) {
+      const range = getRange(node, macro.sourceFile);
+      let start = range[0] - offset;
+      if (varargs.length === 0) {
+        // `f(a, ...)` with no extra args becomes `f(a)`, not `f(a, )`
+        let prev = start - 1;
+        while (prev >= 0 && /\s/.test(macro.body[prev])) {
+          prev--;
+        }
+        if (macro.body[prev] === ",") {
+          start = prev;
+        }
+      }
+      replacements.push({ start, end: range[1] - offset, text: varargs.join(", ") });
+      return;
+    }
     if (node.type !== "Identifier") {
       return;
     }
@@ -1098,7 +1727,7 @@ function expandMacroBody(
       start: range[0] - offset,
       end: range[1] - offset,
       // #14 we don't need overly aggressive parens, but here's where you'd put it if you wanted to (also see other #14 instances)
-      text: `${argTexts[index]}`,
+      text: `${values[index]}`,
     });
   });
 
@@ -1235,6 +1864,7 @@ async function expandPreprocessorCalls(
           const split = splitPipelineSpec(pipelineSpec, true, filePath, lineNumber, formatError);
           const resolvedSourceSpec = normalizeEmptySpec(project.substituteVariables(split.sourceSpecRaw || ""));
 
+          const destSpec = project.substituteVariables(split.destSpecRaw);
           const bytes = await resolveImportBytes(
             project,
             importDef,
@@ -1244,9 +1874,10 @@ async function expandPreprocessorCalls(
             filePath,
             lineNumber,
             formatError,
+            ref.subResource,
+            destSpec,
           );
 
-          const destSpec = project.substituteVariables(split.destSpecRaw);
           const output = encodeBytesWithDestSpec(bytes, destSpec, filePath, lineNumber, formatError);
           addReplacement(callNode, output);
         })(),
@@ -1297,6 +1928,74 @@ async function expandPreprocessorCalls(
   return applyReplacementsWithMap(result, sorted, filePath);
 }
 
+// __STATIC_ASSERT(condition[, message]) statements are checked once macros and __IMPORT/__ENCODE calls
+// have been expanded (so `#{ __IMPORT(...) }` is countable), against the defines in effect where they
+// appear (tagged on the source map as the code is emitted). they're removed from the output.
+function expandStaticAsserts(result: ProcessResult, filePath: string, state: PreprocessorState): ProcessResult {
+  if (!result.code.includes("__STATIC_ASSERT")) {
+    return result;
+  }
+  const chunk = parseLua(result.code)!;
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  walkLuaAst(chunk, (node, parent) => {
+    if (node.type !== "CallExpression") {
+      return;
+    }
+    const callNode = node as luaparse.CallExpression;
+    if (callNode.base.type !== "Identifier" || callNode.base.name !== "__STATIC_ASSERT") {
+      return;
+    }
+
+    const range = getRange(callNode, filePath);
+    const site = locateOriginalLine(result, state.sources, range[0]) ?? {
+      file: filePath,
+      lineNumber: getLineNumber(callNode, 1),
+    };
+    if (parent?.type !== "CallStatement") {
+      throw new Error(formatError(site.file, site.lineNumber, `__STATIC_ASSERT must be used as a statement`));
+    }
+    const [condition, message] = callNode.arguments;
+    if (!condition || callNode.arguments.length > 2) {
+      throw new Error(
+        formatError(site.file, site.lineNumber, `__STATIC_ASSERT expects a condition and an optional message`),
+      );
+    }
+    const tag = result.map.tagAt(range[0]);
+    const defines = tag === undefined ? state.defines : state.defineSnapshots[tag];
+    if (!isTruthy(evaluateExpression(condition, defines, site.file, site.lineNumber))) {
+      const description = describeFailedAssertion(
+        "__STATIC_ASSERT failed",
+        condition,
+        message,
+        defines,
+        site.file,
+        site.lineNumber,
+      );
+      throw new Error(formatError(site.file, site.lineNumber, description));
+    }
+    replacements.push({ start: range[0], end: range[1], text: "" });
+  });
+
+  if (replacements.length === 0) {
+    return result;
+  }
+  const sorted = replacements.sort((a, b) => b.start - a.start);
+  return applyReplacementsWithMap(result, sorted, filePath);
+}
+
+// index of a snapshot of the defines, for tagging emitted code; reuses the last one while they're unchanged
+function snapshotDefines(state: PreprocessorState, defines: Map<string, LuaPreprocessorValue>): number {
+  const snapshots = state.defineSnapshots;
+  const last = snapshots[snapshots.length - 1];
+  const unchanged =
+    last && last.size === defines.size && [...defines].every(([name, value]) => last.get(name) === value);
+  if (!unchanged) {
+    snapshots.push(new Map(defines));
+  }
+  return snapshots.length - 1;
+}
+
 function applyReplacementsWithMap(
   result: ProcessResult,
   replacements: Array<{ start: number; end: number; text: string }>,
@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as path from "path";
 
 import { findManifestInDirectory, loadManifest, ManifestLoadError, ManifestValidationError } from "./manifestLoader";
 
@@ -147,4 +148,140 @@ describe("Manifest Loader", () => {
       expect(() => loadManifest("/test/bad.ticbuild.jsonc")).toThrow();
     });
   });
+  describe("extends", () => {
+    const baseManifest = {
+      project: {
+        name: "base",
+        includeDirs: ["./src"],
+        additionalWatchGlobs: ["!./src/generated/**"],
+        binDir: "./bin",
+        objDir: "$(project.projectDir)/obj",
+        outputCartName: "base.tic",
+      },
+      preprocessor: { defines: { DEBUG: false, SHARED: 1 } },
+      imports: [
+        { name: "lib", path: "lib.lua", kind: "LuaCode" },
+        { name: "maincode", path: "main.lua", kind: "LuaCode" },
+      ],
+      assembly: { lua: { minify: true }, blocks: [{ asset: "maincode" }] },
+      buildConfigurations: { debug: { project: { binDir: "./debug" } } },
+    };
+
+    function mockFiles(files: Record<string, unknown>) {
+      (mockFs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+        const content = files[path.resolve(filePath)];
+        if (content === undefined) {
+          throw new Error(`ENOENT: ${filePath}`);
+        }
+        return JSON.stringify(content);
+      });
+    }
+
+    it("should merge the base manifest underneath the local one", () => {
+      mockFiles({
+        [path.resolve("/shared/base.ticbuild.jsonc")]: baseManifest,
+        [path.resolve("/game/game.ticbuild.jsonc")]: {
+          extends: "../shared/base.ticbuild.jsonc",
+          project: { name: "game", outputCartName: "game.tic" },
+          preprocessor: { defines: { DEBUG: true } },
+          imports: [
+            { name: "maincode", path: "game.lua", kind: "LuaCode" },
+            { name: "sprites", path: "sprites.png" },
+          ],
+        },
+      });
+
+      const result = loadManifest("/game/game.ticbuild.jsonc");
+
+      expect(result.basePaths).toEqual([path.resolve("/shared/base.ticbuild.jsonc")]);
+      expect(result.manifest.extends).toBeUndefined();
+      expect(result.manifest.project).toEqual({
+        name: "game",
+        includeDirs: ["../shared/src"],
+        additionalWatchGlobs: ["!../shared/src/generated/**"],
+        binDir: "../shared/bin",
+        objDir: "$(project.projectDir)/obj",
+        outputCartName: "game.tic",
+      });
+      expect(result.manifest.preprocessor?.defines).toEqual({ DEBUG: true, SHARED: 1 });
+      expect(result.manifest.imports).toEqual([
+        { name: "lib", path: "../shared/lib.lua", kind: "LuaCode" },
+        { name: "maincode", path: "game.lua", kind: "LuaCode" },
+        { name: "sprites", path: "sprites.png" },
+      ]);
+      expect(result.manifest.assembly.lua?.minify).toBe(true);
+      expect(result.manifest.buildConfigurations?.debug.project?.binDir).toBe("../shared/debug");
+    });
+
+    it("should combine array merge directives from the base and the local manifest", () => {
+      mockFiles({
+        [path.resolve("/shared/base.ticbuild.jsonc")]: {
+          ...baseManifest,
+          buildConfigurations: {
+            debug: { imports: { $append: [{ name: "debugui", path: "debugui.lua", kind: "LuaCode" }] } },
+          },
+        },
+        [path.resolve("/game/game.ticbuild.jsonc")]: {
+          extends: "../shared/base.ticbuild.jsonc",
+          buildConfigurations: {
+            debug: {
+              imports: { $append: [{ name: "cheats", path: "cheats.lua", kind: "LuaCode" }], $remove: ["lib"] },
+            },
+          },
+        },
+      });
+
+      const result = loadManifest("/game/game.ticbuild.jsonc");
+
+      expect(result.manifest.buildConfigurations?.debug.imports).toEqual({
+        $append: [
+          { name: "debugui", path: "../shared/debugui.lua", kind: "LuaCode" },
+          { name: "cheats", path: "cheats.lua", kind: "LuaCode" },
+        ],
+        $remove: ["lib"],
+      });
+    });
+
+    it("should resolve nested bases against the file declaring them", () => {
+      mockFiles({
+        [path.resolve("/shared/common/root.ticbuild.jsonc")]: { project: { includeDirs: ["./lua"] } },
+        [path.resolve("/shared/base.ticbuild.jsonc")]: { ...baseManifest, extends: "common/root.ticbuild.jsonc" },
+        [path.resolve("/game/game.ticbuild.jsonc")]: { extends: ["../shared/base.ticbuild.jsonc"] },
+      });
+
+      const result = loadManifest("/game/game.ticbuild.jsonc");
+
+      expect(result.basePaths).toEqual([
+        path.resolve("/shared/base.ticbuild.jsonc"),
+        path.resolve("/shared/common/root.ticbuild.jsonc"),
+      ]);
+      // the middle manifest overrides the root's includeDirs
+      expect(result.manifest.project.includeDirs).toEqual(["../shared/src"]);
+      expect(result.manifest.project.name).toBe("base");
+    });
+
+    it("should reject circular extends", () => {
+      mockFiles({
+        [path.resolve("/a/a.ticbuild.jsonc")]: { extends: "../b/b.ticbuild.jsonc" },
+        [path.resolve("/b/b.ticbuild.jsonc")]: { extends: "../a/a.ticbuild.jsonc" },
+      });
+
+      expect(() => loadManifest("/a/a.ticbuild.jsonc")).toThrow(/Circular "extends"/);
+    });
+
+    it("should throw ManifestLoadError for a missing base", () => {
+      mockFiles({ [path.resolve("/game/game.ticbuild.jsonc")]: { extends: "./missing.ticbuild.jsonc" } });
+
+      expect(() => loadManifest("/game/game.ticbuild.jsonc")).toThrow(ManifestLoadError);
+    });
+
+    it("should validate only the merged manifest", () => {
+      mockFiles({
+        [path.resolve("/shared/base.ticbuild.jsonc")]: { imports: [] },
+        [path.resolve("/game/game.ticbuild.jsonc")]: { extends: "../shared/base.ticbuild.jsonc", project: {} },
+      });
+
+      expect(() => loadManifest("/game/game.ticbuild.jsonc")).toThrow(ManifestValidationError);
+    });
+  });
 });
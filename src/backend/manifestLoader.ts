@@ -7,6 +7,7 @@ import * as manifestSchema from "../../ticbuild.schema.json";
 
 import { Manifest } from "./manifestTypes";
 import { canonicalizePath, isDirectory } from "../utils/fileSystem";
+import { deepMergeObjects, isArrayMergeDirective, TObject } from "../utils/utils";
 
 export class ManifestValidationError extends Error {
   constructor(
@@ -65,29 +66,183 @@ export interface LoadedManifest {
   manifest: Manifest;
   filePath: string;
   projectDir: string;
+  basePaths: string[]; // manifests merged in via "extends", nearest first
+}
+
+// project fields holding paths relative to the manifest that declares them
+const kProjectPathFields = ["binDir", "objDir"] as const;
+const kProjectPathListFields = ["includeDirs", "importDirs", "additionalWatchGlobs"] as const;
+
+function isPlainObject(value: unknown): value is TObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// re-expresses a path relative to fromDir as relative to toDir.
+// absolute paths and paths starting with a variable reference are left alone.
+function rebasePath(value: unknown, fromDir: string, toDir: string): unknown {
+  if (typeof value !== "string" || value.length === 0 || value.startsWith("$(") || path.isAbsolute(value)) {
+    return value;
+  }
+  // negated globs ("!./src/generated/**")
+  if (value.startsWith("!")) {
+    return `!${rebasePath(value.slice(1), fromDir, toDir)}`;
+  }
+  const rebased = path.relative(toDir, path.resolve(fromDir, value)).replace(/\\/g, "/");
+  return rebased.length === 0 ? "." : rebased;
+}
+
+function rebaseProjectPaths(project: unknown, fromDir: string, toDir: string): void {
+  if (!isPlainObject(project)) {
+    return;
+  }
+  for (const field of kProjectPathFields) {
+    if (field in project) {
+      project[field] = rebasePath(project[field], fromDir, toDir);
+    }
+  }
+  for (const field of kProjectPathListFields) {
+    const list = project[field];
+    if (Array.isArray(list)) {
+      project[field] = list.map((value: unknown) => rebasePath(value, fromDir, toDir));
+    } else if (isArrayMergeDirective(list)) {
+      for (const items of [list.$append, list.$prepend, list.$remove]) {
+        items?.forEach((value, i) => (items[i] = rebasePath(value, fromDir, toDir)));
+      }
+    }
+  }
+}
+
+function rebaseImportPaths(imports: unknown, fromDir: string, toDir: string): void {
+  const lists = isArrayMergeDirective(imports) ? [imports.$append, imports.$prepend] : [imports];
+  for (const list of lists) {
+    if (!Array.isArray(list)) {
+      continue;
+    }
+    for (const importDef of list) {
+      if (isPlainObject(importDef) && "path" in importDef) {
+        importDef.path = rebasePath(importDef.path, fromDir, toDir);
+      }
+    }
+  }
+}
+
+// makes relative paths in a (not yet validated) base manifest relative to the extending manifest's dir.
+function rebaseManifestPaths(data: TObject, fromDir: string, toDir: string): void {
+  rebaseProjectPaths(data.project, fromDir, toDir);
+  rebaseImportPaths(data.imports, fromDir, toDir);
+  if (isPlainObject(data.buildConfigurations)) {
+    for (const buildConfig of Object.values(data.buildConfigurations)) {
+      if (isPlainObject(buildConfig)) {
+        rebaseProjectPaths(buildConfig.project, fromDir, toDir);
+        rebaseImportPaths(buildConfig.imports, fromDir, toDir);
+      }
+    }
+  }
+}
+
+// local values override base values; objects merge recursively and arrays are replaced,
+// like build configurations. the exception is imports, which merge by name so a project can
+// add imports to or replace imports of its base. array merge directives in build configurations
+// stay directives, combined with the base's, until the configuration is applied.
+function mergeManifestData(base: TObject, local: TObject): TObject {
+  const merged: TObject = JSON.parse(JSON.stringify(base));
+  const baseImports = merged.imports;
+  const { buildConfigurations, ...rest } = local;
+  deepMergeObjects(merged, rest);
+  if (isPlainObject(buildConfigurations) && isPlainObject(merged.buildConfigurations ?? {})) {
+    merged.buildConfigurations ??= {};
+    deepMergeObjects(merged.buildConfigurations, buildConfigurations, true);
+  } else if (buildConfigurations !== undefined) {
+    merged.buildConfigurations = buildConfigurations; // not an object; left for validation to report
+  }
+
+  if (Array.isArray(baseImports) && Array.isArray(local.imports)) {
+    const imports = [...baseImports];
+    for (const importDef of local.imports) {
+      const index = imports.findIndex((i) => isPlainObject(i) && i.name === importDef?.name);
+      if (index >= 0) {
+        imports[index] = importDef;
+      } else {
+        imports.push(importDef);
+      }
+    }
+    merged.imports = imports;
+  }
+  return merged;
+}
+
+function readManifestData(filePath: string): unknown {
+  let fileContent: string;
+  try {
+    fileContent = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new ManifestLoadError(
+      `Failed to read manifest file: ${filePath}`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  try {
+    return parseJsonc(fileContent);
+  } catch (error) {
+    throw new ManifestLoadError(
+      `Failed to parse manifest file: ${filePath}`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+// reads a manifest and everything it extends, merged into one unvalidated object whose relative paths
+// are relative to the dir of filePath. chain holds the manifests currently being loaded, for cycle detection.
+function loadManifestData(filePath: string, chain: string[], basePaths: string[]): unknown {
+  const parsed = readManifestData(filePath);
+  if (!isPlainObject(parsed) || parsed.extends === undefined) {
+    return parsed;
+  }
+
+  const extendsValue = parsed.extends;
+  const baseRefs: unknown[] = Array.isArray(extendsValue) ? extendsValue : [extendsValue];
+  const manifestDir = path.dirname(filePath);
+  delete parsed.extends;
+
+  // later bases override earlier ones; the local manifest overrides them all.
+  let merged: TObject = {};
+  for (const baseRef of baseRefs) {
+    if (typeof baseRef !== "string" || baseRef.length === 0) {
+      throw new ManifestLoadError(`Invalid "extends" value in ${filePath}: expected a manifest path`);
+    }
+    const basePath = canonicalizePath(path.resolve(manifestDir, baseRef));
+    if (chain.includes(basePath)) {
+      throw new ManifestLoadError(`Circular "extends" in ${filePath}: ${[...chain, basePath].join(" -> ")}`);
+    }
+    basePaths.push(basePath);
+
+    const base = loadManifestData(basePath, [...chain, basePath], basePaths);
+    if (!isPlainObject(base)) {
+      throw new ManifestLoadError(`Base manifest must be an object: ${basePath} (extended by ${filePath})`);
+    }
+    delete base.$schema; // the extending manifest's editor schema applies
+    rebaseManifestPaths(base, path.dirname(basePath), manifestDir);
+    merged = mergeManifestData(merged, base);
+  }
+  return mergeManifestData(merged, parsed);
 }
 
 // Loads and validates a manifest file.
 // filePath - Path to the manifest file
+// a manifest may declare "extends": "<path>" (or an array of paths) to a base manifest which is merged
+// underneath it; the merged result is what gets validated.
 // returns Loaded and validated manifest with metadata
 export function loadManifest(filePath: string): LoadedManifest {
   try {
-    const fileContent = fs.readFileSync(filePath, "utf-8");
-
-    let parsed: unknown;
-    try {
-      parsed = parseJsonc(fileContent);
-    } catch (error) {
-      throw new ManifestLoadError(
-        `Failed to parse manifest file: ${filePath}`,
-        error instanceof Error ? error : undefined,
-      );
-    }
+    const absolutePath = path.resolve(filePath);
+    const basePaths: string[] = [];
+    const parsed = loadManifestData(absolutePath, [canonicalizePath(absolutePath)], basePaths);
 
     const manifest = validateManifest(parsed);
-    const projectDir = path.dirname(path.resolve(filePath));
+    const projectDir = path.dirname(absolutePath);
 
-    return { manifest, filePath: path.resolve(filePath), projectDir };
+    return { manifest, filePath: absolutePath, projectDir, basePaths };
   } catch (error) {
     if (error instanceof ManifestValidationError || error instanceof ManifestLoadError) {
       throw error;
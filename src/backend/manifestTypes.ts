@@ -1,8 +1,10 @@
 // TODO: make this structured to actually run some rules.
 
 import { defineEnum } from "../utils/enum";
+import { ArrayMergeDirective } from "../utils/utils";
 import { OptimizationRuleOptions } from "../utils/lua/lua_processor";
 import { SourceEncodingKey } from "../utils/encoding/codecRegistry";
+import { PaletteFitKey } from "../utils/tic80/graphics";
 import { Tic80CartChunkTypeKey } from "../utils/tic80/tic80";
 
 // TIC-80 cartridge chunk types.
@@ -22,10 +24,22 @@ export const kImportKind = defineEnum({
   text: {
     value: "text",
   },
+  image: {
+    value: "image",
+  },
+  palette: {
+    value: "palette",
+  },
+  tiledMap: {
+    value: "tiledMap",
+  },
 } as const); // "LuaCode" | "Tic80Cartridge";
 
 export type ImportKindKey = typeof kImportKind.$key;
 
+// bytes, as a number or a string like "16384" / "64kb"
+export type BudgetValue = number | string;
+
 export interface ProjectConfig {
   name: string;
   launchArgs?: string[];
@@ -37,6 +51,8 @@ export interface ProjectConfig {
   objDir: string;
   outputCartName: string;
   autoUpdateManifestSchema?: boolean;
+  budgets?: Record<string, BudgetValue>; // "cart" or a chunk type -> max bytes
+  budgetSeverity?: "error" | "warning"; // what exceeding a budget does; default "error"
 }
 
 export interface ImportDefinition {
@@ -46,6 +62,14 @@ export interface ImportDefinition {
   chunks?: Tic80CartChunkTypeKey[];
   sourceEncoding?: SourceEncodingKey;
   value?: string;
+  // image imports: 16 colors as hex (TIC-80 cart format) or "import:<palette import name>".
+  // defaults to the TIC-80 default palette
+  palette?: string;
+  paletteFit?: PaletteFitKey; // palette imports: how to handle != 16 colors (default "exact")
+  paletteIncludeBdr?: boolean; // palette imports: also emit the BDR half of the PALETTE chunk
+  layer?: string; // tiledMap imports: tile layer to convert to MAP (default: first tile layer)
+  tileIdOffset?: number; // tiledMap imports: added to each tile's index within its tileset
+  objectFields?: string[]; // tiledMap imports: per-object values emitted for object layers (default ["x", "y"])
 }
 
 // specifies a view of an imported resource; containing possibly a subset of its supported chunks.
@@ -81,18 +105,26 @@ export interface LuaAssemblyConfig {
 
 export interface AssemblyConfig {
   lua?: LuaAssemblyConfig;
+  preserveChunkOrder?: boolean; // emit chunks in block order instead of sorted by type and bank
   blocks: AssemblyBlock[];
 }
 
+// array values in overrides can be replaced, or modified with ArrayMergeDirective ($append / $prepend / $remove)
+export type MergeableOverride<T> = {
+  [K in keyof T]?: T[K] extends (infer E)[] | undefined ? E[] | ArrayMergeDirective<E> : T[K];
+};
+
 export interface BuildConfiguration {
-  project?: Partial<ProjectConfig>;
+  project?: MergeableOverride<ProjectConfig>;
   variables?: Record<string, string>;
   preprocessor?: Partial<PreprocessorConfig>;
-  assembly?: Partial<AssemblyConfig>;
+  imports?: ImportDefinition[] | ArrayMergeDirective<ImportDefinition>;
+  assembly?: MergeableOverride<AssemblyConfig>;
 }
 
 export interface Manifest {
   $schema?: string;
+  extends?: string | string[]; // base manifest(s); merged in and removed by the loader
   project: ProjectConfig;
   variables?: Record<string, string>;
   preprocessor?: PreprocessorConfig;
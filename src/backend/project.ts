@@ -2,6 +2,7 @@ import { assert } from "../utils/errorHandling";
 import { AssembleTic80Cart } from "../utils/tic80/cartWriter";
 import { kTic80CartChunkTypes, Tic80CartChunk } from "../utils/tic80/tic80";
 import { deepMergeObjects } from "../utils/utils";
+import { BuildCache } from "./buildCache";
 import { ResourceManager } from "./ImportedResourceTypes";
 import { loadAllImports } from "./importResources";
 import { resolveAndLoadManifest } from "./manifestLoader";
@@ -12,6 +13,7 @@ export type TicbuildProjectLoadOptions = {
   manifestPath?: string | undefined;
   buildConfigName?: string | undefined;
   overrideVariables?: Record<string, string>;
+  buildCache?: boolean; // reuse import outputs persisted in objDir by previous runs
 };
 
 export type AssembleOutputResult = {
@@ -32,15 +34,19 @@ export class TicbuildProject {
   resolvedCore: TicbuildProjectCore; // core with resolved manifest
 
   resourceMgr: ResourceManager | undefined;
+  buildCache: BuildCache | undefined;
+  manifestBasePaths: string[] = []; // manifests merged in via "extends"
 
   static loadFromManifest(options?: TicbuildProjectLoadOptions): TicbuildProject {
     const loadedManifest = resolveAndLoadManifest(options?.manifestPath);
-    return new TicbuildProject(
+    const project = new TicbuildProject(
       loadedManifest.manifest, //
       loadedManifest.filePath,
       loadedManifest.projectDir,
       options,
     );
+    project.manifestBasePaths = loadedManifest.basePaths;
+    return project;
   }
 
   private constructor(
@@ -65,6 +71,10 @@ export class TicbuildProject {
       buildConfigName: options?.buildConfigName,
       overrideVariables: options?.overrideVariables,
     });
+
+    if (options?.buildCache) {
+      this.buildCache = new BuildCache(this.resolvedCore.resolveObjPath("cache"));
+    }
   }
 
   private resolveManifest(
@@ -139,7 +149,7 @@ export class TicbuildProject {
   }
 
   async loadImports(): Promise<void> {
-    this.resourceMgr = await loadAllImports(this.resolvedCore);
+    this.resourceMgr = await loadAllImports(this.resolvedCore, this.buildCache);
   }
 
   // takse a block def and returns the multiple chunks it may produce.
@@ -213,9 +223,12 @@ export class TicbuildProject {
     }
 
     // generate final tic80 cart binary
-    const output = await AssembleTic80Cart({
-      chunks: finalChunks,
-    });
+    const output = await AssembleTic80Cart(
+      {
+        chunks: finalChunks,
+      },
+      { preserveChunkOrder: assembly.preserveChunkOrder },
+    );
 
     return { output, chunks: finalChunks };
   }
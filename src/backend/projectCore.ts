@@ -2,6 +2,7 @@
 // provides the basic utils required to execute builds.
 
 import { canonicalizePath, isAbsolutePath, joinPathParts, resolveFileWithSearchPaths } from "../utils/fileSystem";
+import { deducePaletteFormatFromPath } from "../utils/paletteFormats";
 import { Tic80CartChunkTypeKey } from "../utils/tic80/tic80";
 import { extractVariablesFromObject } from "../utils/utils";
 import { AssetReference, ImportDefinition, kImportKind, Manifest, VariableInfo } from "./manifestTypes";
@@ -16,6 +17,15 @@ export function deduceImportKindFromPath(path: string | undefined): string | und
   if (path.endsWith(".lua")) {
     return kImportKind.key.LuaCode;
   }
+  if (path.toLowerCase().endsWith(".png")) {
+    return kImportKind.key.image;
+  }
+  if (deducePaletteFormatFromPath(path)) {
+    return kImportKind.key.palette;
+  }
+  if (/\.(tmx|tmj)$/i.test(path)) {
+    return kImportKind.key.tiledMap;
+  }
   return undefined;
 }
 
@@ -1,4 +1,4 @@
-import { SourceMapBuilder, mapPreprocessedOffset } from "./sourceMap";
+import { SourceMapBuilder, buildMinifiedSourceMap, mapMinifiedOffset, mapPreprocessedOffset } from "./sourceMap";
 
 describe("Source map builder", () => {
     it("should map appended original segments", () => {
@@ -38,4 +38,29 @@ describe("Source map builder", () => {
         expect(middle).toEqual({ file: "src/a.lua", offset: 2 });
         expect(end).toEqual({ file: "src/a.lua", offset: 10 });
     });
-});
\ No newline at end of file
+});
+describe("Minified source map", () => {
+    it("should chain minifier marks through the preprocessor map", () => {
+        const builder = new SourceMapBuilder();
+        builder.appendOriginal("a = 1\n", "src/a.lua", 0);
+        builder.appendOriginal("b = 2\n", "src/b.lua", 20);
+        const preprocessorMap = builder.toSourceMap("a = 1\nb = 2\n");
+
+        const minified = "a=1 b=2\n";
+        const map = buildMinifiedSourceMap(
+            minified,
+            [
+                { outputOffset: 4, inputOffset: 6 },
+                { outputOffset: 0, inputOffset: 0 },
+            ],
+            preprocessorMap,
+        );
+
+        expect(map.minifiedFile.charLength).toBe(minified.length);
+        expect(map.entries.map((e) => e.minifiedOffset)).toEqual([0, 4]);
+        expect(mapMinifiedOffset(map, 0)).toEqual({ file: "src/a.lua", offset: 0 });
+        expect(mapMinifiedOffset(map, 2)).toEqual({ file: "src/a.lua", offset: 0 });
+        expect(mapMinifiedOffset(map, 5)).toEqual({ file: "src/b.lua", offset: 20 });
+        expect(mapMinifiedOffset(map, minified.length)).toBeNull();
+    });
+});
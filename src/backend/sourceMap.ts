@@ -1,5 +1,6 @@
 // preprocessed lua location : file + offset mapping.
 
+import { LuaSourceMark } from "../utils/lua/lua_processor";
 import { hashTextSha1 } from "../utils/utils";
 
 export type SourceMapSegment = {
@@ -53,10 +54,99 @@ export function mapPreprocessedOffset(map: LuaPreprocessorSourceMap, offset: num
     return null;
 }
 
+// minified lua offset -> original file + offset. one entry per minified statement (from the minifier's
+// marks, chained through the preprocessor map); an offset maps to the start of the statement containing it.
+export type LuaMinifiedSourceMapEntry = {
+    minifiedOffset: number;
+    originalFile: string; // "" for generated code with no known origin
+    originalOffset: number;
+};
+
+export type LuaMinifiedSourceMap = {
+    minifiedFile: {
+        charLength: number;
+        hash: string;
+    };
+    entries: LuaMinifiedSourceMapEntry[];
+};
+
+// like mapPreprocessedOffset, but an offset on a segment boundary maps to the segment which starts there,
+// since marks point at the start of statements.
+function mapPreprocessedStart(map: LuaPreprocessorSourceMap, offset: number): SourceMapLocation | null {
+    const segments = map.segments;
+    let lo = 0;
+    let hi = segments.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const seg = segments[mid];
+        if (offset < seg.ppBegin) {
+            hi = mid - 1;
+        } else if (offset >= seg.ppEnd) {
+            lo = mid + 1;
+        } else {
+            return { file: seg.originalFile, offset: seg.originalOffset + (offset - seg.ppBegin) };
+        }
+    }
+    return mapPreprocessedOffset(map, offset);
+}
+
+// marks map minified offsets to offsets in the preprocessed code described by preprocessorMap.
+export function buildMinifiedSourceMap(
+    minifiedCode: string,
+    marks: LuaSourceMark[],
+    preprocessorMap: LuaPreprocessorSourceMap,
+): LuaMinifiedSourceMap {
+    const entries: LuaMinifiedSourceMapEntry[] = [];
+    for (const mark of marks) {
+        const location = mapPreprocessedStart(preprocessorMap, mark.inputOffset);
+        entries.push({
+            minifiedOffset: mark.outputOffset,
+            originalFile: location?.file ?? "",
+            originalOffset: location?.offset ?? 0,
+        });
+    }
+    entries.sort((a, b) => a.minifiedOffset - b.minifiedOffset);
+    return {
+        minifiedFile: {
+            charLength: minifiedCode.length,
+            hash: hashTextSha1(minifiedCode),
+        },
+        entries,
+    };
+}
+
+// Maps a minified file offset to the start of the original statement it belongs to, if known.
+export function mapMinifiedOffset(map: LuaMinifiedSourceMap, offset: number): SourceMapLocation | null {
+    if (offset < 0 || offset >= map.minifiedFile.charLength) {
+        return null;
+    }
+    const entries = map.entries;
+    let lo = 0;
+    let hi = entries.length - 1;
+    let found: LuaMinifiedSourceMapEntry | null = null;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (entries[mid].minifiedOffset <= offset) {
+            found = entries[mid];
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    if (!found || !found.originalFile) {
+        return null;
+    }
+    return { file: found.originalFile, offset: found.originalOffset };
+}
+
+// a segment can carry a tag from the code that appended it (the preprocessor tags code with the defines
+// in effect there); it follows the text through splices but isn't part of the serialized map.
+type TaggedSegment = SourceMapSegment & { tag?: number };
+
 // progressively builds a source map by appending segments and splicing as needed when text is replaced.
 // as the preprocessor advances through the file, it appends segments here.
 export class SourceMapBuilder {
-    private segments: SourceMapSegment[] = [];
+    private segments: TaggedSegment[] = [];
     private length = 0;
 
     // length of the preprocessed code
@@ -69,13 +159,13 @@ export class SourceMapBuilder {
         return this.segments;
     }
 
-    appendOriginal(text: string, originalFile: string, originalOffset: number): void {
+    appendOriginal(text: string, originalFile: string, originalOffset: number, tag?: number): void {
         if (!text) {
             return;
         }
         const start = this.length;
         const end = start + text.length;
-        this.segments.push({ ppBegin: start, ppEnd: end, originalFile, originalOffset });
+        this.segments.push({ ppBegin: start, ppEnd: end, originalFile, originalOffset, tag });
         this.length = end;
     }
 
@@ -97,28 +187,30 @@ export class SourceMapBuilder {
         }
         const offset = this.length;
         for (const seg of other.segments) {
-            this.segments.push({
-                ppBegin: seg.ppBegin + offset,
-                ppEnd: seg.ppEnd + offset,
-                originalFile: seg.originalFile,
-                originalOffset: seg.originalOffset,
-            });
+            this.segments.push({ ...seg, ppBegin: seg.ppBegin + offset, ppEnd: seg.ppEnd + offset });
         }
         this.length += other.length;
     }
 
     mapOffset(offset: number): SourceMapLocation | null {
-        const map = this.toSourceMap("");
+        const map = { preprocessedFile: { charLength: this.length, hash: "" }, segments: this.segments };
         return mapPreprocessedOffset(map, offset);
     }
 
+    // tag of the text at an offset, if it has one
+    tagAt(offset: number): number | undefined {
+        return this.segments.find((seg) => offset >= seg.ppBegin && offset < seg.ppEnd)?.tag;
+    }
+
     // when text is replaced in the preprocessed code, we need to splice the source map segments accordingly.
     spliceRange(start: number, end: number, newLength: number, origin: SourceMapLocation | null): void {
         if (start > end) {
             return;
         }
         const delta = newLength - (end - start);
-        const nextSegments: SourceMapSegment[] = [];
+        const nextSegments: TaggedSegment[] = [];
+        // replacement text keeps the tag of the text it replaces
+        const tag = this.tagAt(start);
 
         for (const seg of this.segments) {
             if (seg.ppEnd <= start) {
@@ -126,32 +218,17 @@ export class SourceMapBuilder {
                 continue;
             }
             if (seg.ppBegin >= end) {
-                nextSegments.push({
-                    ppBegin: seg.ppBegin + delta,
-                    ppEnd: seg.ppEnd + delta,
-                    originalFile: seg.originalFile,
-                    originalOffset: seg.originalOffset,
-                });
+                nextSegments.push({ ...seg, ppBegin: seg.ppBegin + delta, ppEnd: seg.ppEnd + delta });
                 continue;
             }
 
             if (seg.ppBegin < start) {
-                nextSegments.push({
-                    ppBegin: seg.ppBegin,
-                    ppEnd: start,
-                    originalFile: seg.originalFile,
-                    originalOffset: seg.originalOffset,
-                });
+                nextSegments.push({ ...seg, ppEnd: start });
             }
 
             if (seg.ppEnd > end) {
                 const originalOffset = seg.originalOffset + (end - seg.ppBegin);
-                nextSegments.push({
-                    ppBegin: end + delta,
-                    ppEnd: seg.ppEnd + delta,
-                    originalFile: seg.originalFile,
-                    originalOffset,
-                });
+                nextSegments.push({ ...seg, ppBegin: end + delta, ppEnd: seg.ppEnd + delta, originalOffset });
             }
         }
 
@@ -164,6 +241,7 @@ export class SourceMapBuilder {
                 ppEnd: startOffset + newLength,
                 originalFile: file,
                 originalOffset: offset,
+                tag,
             });
         }
 
@@ -178,7 +256,12 @@ export class SourceMapBuilder {
                 charLength: code.length,
                 hash: hashTextSha1(code),
             },
-            segments: this.segments,
+            segments: this.segments.map(({ ppBegin, ppEnd, originalFile, originalOffset }) => ({
+                ppBegin,
+                ppEnd,
+                originalFile,
+                originalOffset,
+            })),
         };
     }
 }
@@ -12,14 +12,14 @@ import { hashTextSha1 } from "../utils/utils";
 import { IsImportReference } from "./importUtils";
 import { isLuaDocCommentText, isWhitespaceText } from "../utils/lua/lua_doc";
 
-type Span = {
+export type Span = {
     start: number;
     length: number;
 };
 
 type ScopeKind = "file" | "function" | "for" | "do" | "if" | "while" | "repeat";
 
-type Scope = {
+export type Scope = {
     scopeId: string;
     kind: ScopeKind;
     range: Span;
@@ -29,9 +29,9 @@ type Scope = {
 
 type SymbolVisibility = "local" | "global";
 
-type SymbolKind = "function" | "localVariable" | "globalVariable" | "param" | "macro";
+export type SymbolKind = "function" | "localVariable" | "globalVariable" | "param" | "macro";
 
-type SymbolInfo = {
+export type SymbolInfo = {
     symbolId: string;
     name: string;
     kind: SymbolKind;
@@ -52,7 +52,7 @@ type DocParam = {
     description?: string;
 };
 
-type DocInfo = {
+export type DocInfo = {
     description?: string;
     params?: DocParam[];
     returnType?: string;
@@ -64,7 +64,7 @@ type SymbolSpan = {
     range: Span;
 };
 
-type FileIndex = {
+export type FileIndex = {
     hash: string;
     path: string;
     scopes: Scope[];
@@ -72,7 +72,7 @@ type FileIndex = {
     symbolSpans: SymbolSpan[];
 };
 
-type ProjectIndex = {
+export type ProjectIndex = {
     schemaVersion: number;
     generatedAt: string;
     projectRoot: string;
@@ -651,17 +651,27 @@ function buildSymbolIndexForPreprocessed(
 export async function buildProjectSymbolIndex(
     project: TicbuildProjectCore,
     resources: ResourceManager,
+): Promise<ProjectIndex> {
+    const preprocessResults: LuaPreprocessResult[] = [];
+    for (const resource of resources.items.values()) {
+        if (resource instanceof LuaCodeResource) {
+            preprocessResults.push(resource.getPreprocessResult());
+        }
+    }
+    return buildSymbolIndexFromPreprocessed(project, preprocessResults);
+}
+
+// same as buildProjectSymbolIndex, for preprocessing done outside of the imports (e.g. the language server).
+export async function buildSymbolIndexFromPreprocessed(
+    project: TicbuildProjectCore,
+    preprocessResults: LuaPreprocessResult[],
 ): Promise<ProjectIndex> {
     const builder = new ProjectIndexBuilder();
     const builtins = await loadBuiltinsPreprocess();
     if (builtins) {
         buildSymbolIndexForPreprocessed(builtins, project.projectDir, builder);
     }
-    for (const resource of resources.items.values()) {
-        if (!(resource instanceof LuaCodeResource)) {
-            continue;
-        }
-        const preprocess = resource.getPreprocessResult();
+    for (const preprocess of preprocessResults) {
         buildSymbolIndexForPreprocessed(preprocess, project.projectDir, builder);
     }
 
@@ -671,8 +681,18 @@ export async function buildProjectSymbolIndex(
     return index;
 }
 
+const kBuiltinsIndexPath = canonicalizePath(path.join("templates", "builtins", "tic80.lua"));
+
+// absolute path of an indexed file; keys are relative to the project root, except for the built-in symbols.
+export function resolveIndexedFilePath(projectRoot: string, fileKey: string): string {
+    if (fileKey === kBuiltinsIndexPath) {
+        return getPathRelativeToTemplates("builtins/tic80.lua");
+    }
+    return path.resolve(projectRoot, fileKey);
+}
+
 async function loadBuiltinsPreprocess(): Promise<LuaPreprocessResult | null> {
-    const builtinsRelativePath = canonicalizePath(path.join("templates", "builtins", "tic80.lua"));
+    const builtinsRelativePath = kBuiltinsIndexPath;
     const builtinsAbsolutePath = getPathRelativeToTemplates("builtins/tic80.lua");
     if (!fileExists(builtinsAbsolutePath)) {
         return null;
@@ -686,6 +706,7 @@ async function loadBuiltinsPreprocess(): Promise<LuaPreprocessResult | null> {
     return {
         code,
         dependencies: [],
+        includes: [],
         sourceMap: mapBuilder.toSourceMap(code),
         preprocessorSymbols: [],
     };
@@ -693,7 +714,7 @@ async function loadBuiltinsPreprocess(): Promise<LuaPreprocessResult | null> {
 
 // for normal files, makes relative to project root and normalizes separators.
 // for imports (or theoretically other special paths), just normalizes separators.
-function normalizePath(projectRoot: string, filePath: string): string {
+export function normalizePath(projectRoot: string, filePath: string): string {
     if (!filePath) {
         return "";
     }
@@ -0,0 +1,98 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { preprocessLuaCode } from "./luaPreprocessor";
+import { TicbuildProjectCore } from "./projectCore";
+import { buildSymbolIndexFromPreprocessed, ProjectIndex } from "./symbolIndex";
+import { findNameOccurrences, findSymbolAt, formatSymbolHover, listVisibleSymbols } from "./symbolQueries";
+
+async function buildIndex(projectDir: string, code: string): Promise<ProjectIndex> {
+    const filePath = path.join(projectDir, "main.lua");
+    fs.writeFileSync(filePath, code, "utf-8");
+    const project = new TicbuildProjectCore({
+        manifest: {
+            project: { name: "test", binDir: "./bin", objDir: "./obj", outputCartName: "test.tic" },
+            variables: {},
+            imports: [],
+            assembly: { blocks: [] },
+        },
+        manifestPath: path.join(projectDir, "project.ticbuild.jsonc"),
+        projectDir,
+    });
+    const result = await preprocessLuaCode(project, code, filePath);
+    return buildSymbolIndexFromPreprocessed(project, [result]);
+}
+
+describe("Symbol queries", () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+        projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-symbol-queries-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it("should find names used as variables, skipping strings, comments and fields", () => {
+        const code = 'x = 1 -- x\nprint("x", [[x]], t.x, t:x(), x..x)\n--[==[ x ]==] return x';
+        const concat = code.indexOf("x..x");
+        expect(findNameOccurrences(code, "x")).toEqual([0, concat, concat + 3, code.length - 1]);
+    });
+
+    it("should resolve names through scopes, preferring the innermost declaration", async () => {
+        const code = [
+            "speed = 1",
+            "function update(speed)",
+            "  local before = speed",
+            "  do",
+            "    local speed = 2",
+            "    return speed",
+            "  end",
+            "end",
+            "print(speed)",
+        ].join("\n");
+        const index = await buildIndex(projectDir, code);
+
+        const at = (needle: string, nth = 0) => {
+            let offset = -1;
+            for (let i = 0; i <= nth; i++) {
+                offset = code.indexOf(needle, offset + 1);
+            }
+            return findSymbolAt(index, "main.lua", code, offset);
+        };
+        expect(at("speed")?.symbol).toMatchObject({ kind: "globalVariable" });
+        expect(at("speed", 2)?.symbol).toMatchObject({ kind: "param" });
+        expect(at("speed", 4)?.symbol).toMatchObject({ kind: "localVariable" });
+        expect(at("speed", 5)?.symbol).toMatchObject({ kind: "globalVariable" });
+
+        const visible = listVisibleSymbols(index, "main.lua", code.indexOf("local before")).map((s) => s.symbol.name);
+        expect(visible).toEqual(expect.arrayContaining(["speed", "update", "cls"]));
+        expect(visible).not.toContain("before");
+    });
+
+    it("should format hovers from the signature and doc comment", async () => {
+        const code = [
+            "--- Moves the player.",
+            "---@param dx number horizontal step",
+            "---@return boolean",
+            "function move(dx) return true end",
+        ].join("\n");
+        const index = await buildIndex(projectDir, code);
+        const found = findSymbolAt(index, "main.lua", code, code.indexOf("move"));
+
+        expect(formatSymbolHover(index, found!)).toBe(
+            [
+                "```lua",
+                "function move(dx)",
+                "```",
+                "",
+                "Moves the player.",
+                "",
+                "- `dx` `number` horizontal step",
+                "",
+                "Returns `boolean`",
+            ].join("\n"),
+        );
+    });
+});
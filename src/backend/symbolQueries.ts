@@ -0,0 +1,221 @@
+// lookups over the symbol index, for editor features (definition, references, hover, completion).
+//
+// names are resolved the way Lua scopes them, as far as the index knows: the innermost scope declaring
+// the name, then the project-wide global of that name. locals declared after the offset aren't visible.
+
+import { DocInfo, FileIndex, ProjectIndex, Scope, SymbolInfo } from "./symbolIndex";
+
+export type ResolvedSymbol = {
+    file: string; // index key
+    symbol: SymbolInfo;
+};
+
+export type NameAtOffset = {
+    name: string;
+    start: number;
+    end: number;
+};
+
+const kIdentifierChar = /[A-Za-z0-9_]/;
+const kLongBracketOpen = /\[(=*)\[/y;
+
+function spanContains(span: { start: number; length: number }, offset: number): boolean {
+    return offset >= span.start && offset <= span.start + span.length;
+}
+
+// scopes containing offset, innermost first. (walked by range rather than parentScopeId, since scope ids
+// aren't unique: a function at the very start of a file gets the file scope's id.)
+export function findScopesAt(file: FileIndex, offset: number): Scope[] {
+    return file.scopes
+        .map((scope, order) => ({ scope, order }))
+        .filter(({ scope }) => spanContains(scope.range, offset))
+        .sort((a, b) => a.scope.range.length - b.scope.range.length || b.order - a.order)
+        .map(({ scope }) => scope);
+}
+
+// the identifier at (or just before) offset, or null when offset isn't on one.
+export function findNameAt(text: string, offset: number): NameAtOffset | null {
+    let start = offset;
+    while (start > 0 && kIdentifierChar.test(text[start - 1])) {
+        start--;
+    }
+    let end = offset;
+    while (end < text.length && kIdentifierChar.test(text[end])) {
+        end++;
+    }
+    if (start === end || /[0-9]/.test(text[start])) {
+        return null;
+    }
+    return { name: text.slice(start, end), start, end };
+}
+
+// the symbol whose declaration is at offset
+export function findDeclarationAt(file: FileIndex, offset: number): SymbolInfo | undefined {
+    for (const span of file.symbolSpans) {
+        if (spanContains(span.range, offset)) {
+            return file.symbols[span.symbolId];
+        }
+    }
+    return undefined;
+}
+
+function isVisibleAt(symbol: SymbolInfo, offset: number): boolean {
+    return symbol.visibility === "global" || symbol.selectionRange.start <= offset;
+}
+
+export function resolveName(index: ProjectIndex, fileKey: string, name: string, offset: number): ResolvedSymbol | null {
+    const file = index.files[fileKey];
+    if (file) {
+        for (const scope of findScopesAt(file, offset)) {
+            const symbolId = scope.declaredSymbolIds[name];
+            const symbol = symbolId ? file.symbols[symbolId] : undefined;
+            if (symbol && isVisibleAt(symbol, offset)) {
+                return { file: fileKey, symbol };
+            }
+        }
+    }
+    const global = index.globalIndex.symbolsByName[name]?.[0];
+    const symbol = global ? index.files[global.file]?.symbols[global.symbolId] : undefined;
+    return global && symbol ? { file: global.file, symbol } : null;
+}
+
+// the symbol at offset: a declaration, or a name referring to one.
+export function findSymbolAt(
+    index: ProjectIndex,
+    fileKey: string,
+    text: string,
+    offset: number,
+): ResolvedSymbol | null {
+    const file = index.files[fileKey];
+    const declared = file ? findDeclarationAt(file, offset) : undefined;
+    if (declared) {
+        return { file: fileKey, symbol: declared };
+    }
+    const name = findNameAt(text, offset);
+    return name ? resolveName(index, fileKey, name.name, name.start) : null;
+}
+
+// `t.name` or `t:name` (but not `a..name` or `::label::`)
+function isFieldName(text: string, start: number): boolean {
+    let i = start - 1;
+    while (i >= 0 && /\s/.test(text[i])) {
+        i--;
+    }
+    return (text[i] === "." || text[i] === ":") && text[i - 1] !== text[i];
+}
+
+// the `=` of a long bracket (`[==[`) starting at offset, or null
+function matchLongBracket(text: string, offset: number): string | null {
+    kLongBracketOpen.lastIndex = offset;
+    const match = kLongBracketOpen.exec(text);
+    return match ? match[1] : null;
+}
+
+// offset after the long bracket string / comment starting at offset
+function skipLongBracket(text: string, offset: number, level: string): number {
+    const close = text.indexOf(`]${level}]`, offset + level.length + 2);
+    return close === -1 ? text.length : close + level.length + 2;
+}
+
+// offsets of `name` used as a variable: not in strings or comments, and not a field (`t.name`, `t:name`).
+export function findNameOccurrences(text: string, name: string): number[] {
+    const offsets: number[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === "-" && text[i + 1] === "-") {
+            const level = matchLongBracket(text, i + 2);
+            if (level !== null) {
+                i = skipLongBracket(text, i + 2, level);
+            } else {
+                const eol = text.indexOf("\n", i);
+                i = eol === -1 ? text.length : eol;
+            }
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== "\n") {
+                i += text[i] === "\\" ? 2 : 1;
+            }
+            i++;
+            continue;
+        }
+        const level = ch === "[" ? matchLongBracket(text, i) : null;
+        if (level !== null) {
+            i = skipLongBracket(text, i, level);
+            continue;
+        }
+        if (kIdentifierChar.test(ch)) {
+            let end = i;
+            while (end < text.length && kIdentifierChar.test(text[end])) {
+                end++;
+            }
+            if (text.slice(i, end) === name && !isFieldName(text, i)) {
+                offsets.push(i);
+            }
+            i = end;
+            continue;
+        }
+        i++;
+    }
+    return offsets;
+}
+
+// symbols visible at offset, innermost first, without duplicate names.
+export function listVisibleSymbols(index: ProjectIndex, fileKey: string, offset: number): ResolvedSymbol[] {
+    const byName = new Map<string, ResolvedSymbol>();
+    const file = index.files[fileKey];
+    if (file) {
+        for (const scope of findScopesAt(file, offset)) {
+            for (const [name, symbolId] of Object.entries(scope.declaredSymbolIds)) {
+                const symbol = file.symbols[symbolId];
+                if (symbol && !byName.has(name) && isVisibleAt(symbol, offset)) {
+                    byName.set(name, { file: fileKey, symbol });
+                }
+            }
+        }
+    }
+    for (const [name, entries] of Object.entries(index.globalIndex.symbolsByName)) {
+        const symbol = index.files[entries[0].file]?.symbols[entries[0].symbolId];
+        if (symbol && !byName.has(name)) {
+            byName.set(name, { file: entries[0].file, symbol });
+        }
+    }
+    return Array.from(byName.values());
+}
+
+export function formatSymbolSignature(index: ProjectIndex, resolved: ResolvedSymbol): string {
+    const { symbol } = resolved;
+    if (symbol.callable) {
+        // params are symbol ids
+        const file = index.files[resolved.file];
+        const params = symbol.callable.params.map((id) => file?.symbols[id]?.name ?? id);
+        return `function ${symbol.name}(${params.join(", ")})`;
+    }
+    if (symbol.kind === "macro") {
+        return `--#macro ${symbol.name}`;
+    }
+    return `${symbol.visibility === "local" ? "local " : ""}${symbol.name}`;
+}
+
+// markdown for hovers: signature, then the doc comment.
+export function formatSymbolHover(index: ProjectIndex, resolved: ResolvedSymbol): string {
+    const lines = ["```lua", formatSymbolSignature(index, resolved), "```"];
+    const doc: DocInfo | undefined = resolved.symbol.doc;
+    if (doc?.description) {
+        lines.push("", doc.description);
+    }
+    if (doc?.params && doc.params.length > 0) {
+        lines.push("");
+        for (const param of doc.params) {
+            const type = param.type ? ` \`${param.type}\`` : "";
+            lines.push(`- \`${param.name}\`${type}${param.description ? ` ${param.description}` : ""}`);
+        }
+    }
+    if (doc?.returnType || doc?.returnDescription) {
+        const type = doc.returnType ? ` \`${doc.returnType}\`` : "";
+        lines.push("", `Returns${type}${doc.returnDescription ? ` ${doc.returnDescription}` : ""}`);
+    }
+    return lines.join("\n");
+}
@@ -1,6 +1,14 @@
 import { ChildProcess } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { CustomTic80Controller } from "./customController";
+import { FakeTic80RemotingServer } from "./fakeRemotingServer";
+import { RemotingCommandError, RemotingEvent } from "./remotingClient";
 import { launchProcessReturnImmediately } from "../../utils/tic80/launch";
+import { AssembleTic80Cart } from "../../utils/tic80/cartWriter";
+import { Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
+import * as cons from "../../utils/console";
 
 jest.mock("../../utils/fileSystem", () => ({
     fileExists: jest.fn(() => true),
@@ -29,7 +37,7 @@ describe("CustomTic80Controller", () => {
             fakeProcess,
         );
 
-        const controller = new CustomTic80Controller("C:\\project");
+        const controller = new CustomTic80Controller("C:\\project", { platform: "win32" });
         jest.spyOn(controller as any, "ensureConnected").mockResolvedValue(undefined);
 
         await controller.launchAndControlCart("C:\\project\\build\\game.tic", ["--fs=C:\\tmp"]);
@@ -45,4 +53,183 @@ describe("CustomTic80Controller", () => {
             ],
         );
     });
-});
\ No newline at end of file
+    it("builds posix session paths on other platforms", async () => {
+        (launchProcessReturnImmediately as jest.Mock).mockResolvedValue({ killed: false, once: jest.fn() });
+        const controller = new CustomTic80Controller("/home/me/project", { platform: "linux" });
+        jest.spyOn(controller as any, "ensureConnected").mockResolvedValue(undefined);
+
+        await controller.launchAndControlCart("/home/me/project/build/game.tic");
+
+        expect(launchProcessReturnImmediately).toHaveBeenLastCalledWith(expect.any(String), [
+            "/home/me/project/build/game.tic",
+            "--skip",
+            "--remoting-port=55001",
+            "--remote-session-location=/home/me/project/.ticbuild/remoting/sessions",
+        ]);
+    });
+
+    describe("hot reload", () => {
+        let dir: string;
+        let cartPath: string;
+
+        const writeCart = async (code: string, tiles: number[] = [0]) => {
+            const chunks: { chunkType: Tic80CartChunkTypeKey; bank: number; data: Uint8Array }[] = [
+                { chunkType: "CODE", bank: 0, data: new TextEncoder().encode(code) },
+                { chunkType: "TILES", bank: 0, data: new Uint8Array(tiles) },
+            ];
+            fs.writeFileSync(cartPath, await AssembleTic80Cart({ chunks }));
+        };
+
+        const createController = () => {
+            (launchProcessReturnImmediately as jest.Mock).mockResolvedValue({ killed: false, once: jest.fn() });
+            const controller = new CustomTic80Controller("C:\\project");
+            jest.spyOn(controller as any, "ensureConnected").mockResolvedValue(undefined);
+            const client = {
+                evalExpr: jest.fn(async () => '"ok"'),
+                loadCart: jest.fn(async () => undefined),
+            };
+            (controller as any).client = client;
+            return { controller, client };
+        };
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-hotreload-"));
+            cartPath = path.join(dir, "game.tic");
+            jest.spyOn(cons, "dim").mockImplementation(() => undefined);
+            jest.spyOn(cons, "warning").mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("swaps in code-only changes instead of reloading the cart", async () => {
+            const { controller, client } = createController();
+            await writeCart("function TIC() cls(1) end");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+
+            await writeCart("function TIC() cls(2) end");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+
+            expect(client.evalExpr).toHaveBeenCalledTimes(1);
+            expect(client.evalExpr.mock.calls[0]).toEqual([expect.stringContaining('"function TIC() cls(2) end"')]);
+            expect(client.loadCart).not.toHaveBeenCalled();
+
+            // other chunks changed: full reload
+            await writeCart("function TIC() cls(2) end", [1]);
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+            expect(client.evalExpr).toHaveBeenCalledTimes(1);
+            expect(client.loadCart).toHaveBeenCalledWith(cartPath, true);
+        });
+
+        it("pokes changed asset chunks into RAM", async () => {
+            const { controller, client } = createController();
+            const poke = jest.fn(async () => undefined);
+            Object.assign(client, { poke });
+            const options = { hotReloadCode: true, hotReloadAssets: true };
+            await writeCart("x=1", [1, 2]);
+            await controller.launchAndControlCart(cartPath, [], options);
+
+            await writeCart("x=1", [3, 4]);
+            await controller.launchAndControlCart(cartPath, [], options);
+            expect(poke).toHaveBeenCalledWith(0x4000, new Uint8Array([3, 4]));
+            expect(client.evalExpr).not.toHaveBeenCalled();
+            expect(client.loadCart).not.toHaveBeenCalled();
+
+            // failed push: full reload
+            poke.mockRejectedValueOnce(new Error("invalid address"));
+            await writeCart("x=1", [5, 6]);
+            await controller.launchAndControlCart(cartPath, [], options);
+            expect(client.loadCart).toHaveBeenCalledTimes(1);
+        });
+
+        it("falls back to loading the cart when hot reload is unsupported or fails", async () => {
+            const { controller, client } = createController();
+            await writeCart("x=1");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+
+            client.evalExpr.mockResolvedValueOnce('"[string \\"x=\\"]:1: unexpected symbol"');
+            await writeCart("x=");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+            expect(client.loadCart).toHaveBeenCalledTimes(1);
+
+            // e.g. a timeout; tried again next time
+            client.evalExpr.mockRejectedValueOnce(new Error("Timed out waiting for response to 'evalexpr'"));
+            await writeCart("x=2");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+            expect(client.loadCart).toHaveBeenCalledTimes(2);
+
+            client.evalExpr.mockRejectedValueOnce(new RemotingCommandError('"unknown command: evalexpr"', "evalexpr"));
+            await writeCart("x=3");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+            expect(client.evalExpr).toHaveBeenCalledTimes(3);
+            expect(client.loadCart).toHaveBeenCalledTimes(3);
+
+            // not retried once unsupported
+            await writeCart("x=4");
+            await controller.launchAndControlCart(cartPath, [], { hotReloadCode: true });
+            expect(client.evalExpr).toHaveBeenCalledTimes(3);
+            expect(client.loadCart).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe("with a fake remoting server", () => {
+        let server: FakeTic80RemotingServer;
+        let dir: string;
+
+        beforeEach(async () => {
+            server = new FakeTic80RemotingServer();
+            await server.start();
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-fake-controller-"));
+            jest.spyOn(cons, "dim").mockImplementation(() => undefined);
+            jest.spyOn(cons, "info").mockImplementation(() => undefined);
+        });
+
+        afterEach(async () => {
+            jest.restoreAllMocks();
+            await server.stop();
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("connects, subscribes to events, reloads and hot-reloads carts", async () => {
+            const fakeProcess = { killed: false, once: jest.fn(), kill: jest.fn() };
+            (launchProcessReturnImmediately as jest.Mock).mockResolvedValue(fakeProcess);
+            server.handle("evalexpr", () => '"ok"');
+            const controller = new CustomTic80Controller("C:\\project");
+            const events: RemotingEvent[] = [];
+            controller.onRemotingEvent((event) => events.push(event));
+
+            const cartPath = path.join(dir, "game.tic");
+            const writeCart = async (code: string) => {
+                const data = new TextEncoder().encode(code);
+                fs.writeFileSync(cartPath, await AssembleTic80Cart({ chunks: [{ chunkType: "CODE", bank: 0, data }] }));
+            };
+            const args = [`--remoting-port=${server.port}`];
+            const options = { hotReloadCode: true };
+
+            await writeCart("x=1");
+            await controller.launchAndControlCart(cartPath, args, options); // launches; nothing to load
+            await controller.launchAndControlCart(cartPath, args); // full reload
+            await writeCart("x=2");
+            await controller.launchAndControlCart(cartPath, args, options); // nothing to compare with: full reload
+            server.pushEvent("trace", '"hi"'); // arrives before the next response
+            await writeCart("x=3");
+            await controller.launchAndControlCart(cartPath, args, options);
+            await controller.stop();
+
+            expect(server.requests.map((r) => r.command)).toEqual([
+                "hello",
+                "event_subscribe",
+                "load",
+                "load",
+                "evalexpr",
+                "quit",
+            ]);
+            expect(server.loadedCartPath).toBe(cartPath);
+            expect(server.requests[4].args[0]).toContain('"x=3"');
+            expect(fakeProcess.kill).toHaveBeenCalled();
+            expect(events.map((e) => [e.eventType, e.data])).toEqual([["trace", '"hi"']]);
+        });
+    });
+});
@@ -2,49 +2,94 @@
 // see: https://github.com/thenfour/TIC-80-ticbuild/blob/ticbuild-remoting/src/ticbuild_remoting/README.md
 
 import { ChildProcess } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
 import { fileExists } from "../../utils/fileSystem";
 import * as cons from "../../utils/console";
+import { getTic80ExecutableName } from "../../utils/platform";
 import { getPathRelativeToTemplates } from "../../utils/templates";
 import { findOptionValue, mergeTic80Args } from "../../utils/tic80/args";
+import { getCartCodeText } from "../../utils/tic80/cartDiff";
+import { parseTic80Cart } from "../../utils/tic80/cartLoader";
 import { launchProcessReturnImmediately } from "../../utils/tic80/launch";
-import { ITic80Controller } from "./tic80Controller";
-import { Tic80RemotingClient } from "./remotingClient";
+import { Tic80Cart } from "../../utils/tic80/tic80";
+import { buildHotReloadExpression, HotReloadPlan, kHotReloadOk, planHotReload } from "./hotReload";
+import { ControlCartOptions, ITic80Controller } from "./tic80Controller";
+import { RemotingCommandError, RemotingEvent, Tic80RemotingClient } from "./remotingClient";
+import { decodeRemotingString } from "./remotingProtocol";
 import { findRandomFreePortInRange } from "./netUtils";
 
 const TICBUILD_PORT_RANGE_START = 55000;
 const TICBUILD_PORT_RANGE_END = 56000;
+const kSubscribedEventTypes = "trace"; // trace() output; the protocol has no event for runtime Lua errors
+
+// the bundled build is Windows-only; elsewhere point this at your own build of TIC-80-ticbuild.
+export const kCustomTic80LocationEnvVar = "TICBUILD_TIC80_LOCATION";
+
+export interface CustomTic80ControllerOptions {
+  remotingVerbose?: boolean;
+  platform?: NodeJS.Platform; // defaults to process.platform; decides executable name & path syntax
+  attach?: { host: string; port: number }; // use this already-running session instead of launching TIC-80
+}
+
+export function resolveCustomTic80Path(platform: NodeJS.Platform): string {
+  const envLocation = process.env[kCustomTic80LocationEnvVar];
+  if (envLocation) {
+    return envLocation;
+  }
+  return getPathRelativeToTemplates(`TIC-80-ticbuild/${getTic80ExecutableName(platform)}`);
+}
 
 export class CustomTic80Controller implements ITic80Controller {
   private tic80Path: string;
   private tic80Process: ChildProcess | undefined;
   private client: Tic80RemotingClient | undefined;
-  private readonly host = "127.0.0.1";
+  private readonly host: string;
   private port: number | undefined;
+  private readonly attached: boolean;
   private readonly remotingVerbose: boolean;
   private exitHandlers: Set<() => void> = new Set();
+  private eventHandlers: Set<(event: RemotingEvent) => void> = new Set();
   private suppressExitSignal = false;
+  private loadedCart: { path: string; cart: Tic80Cart } | undefined; // tracked for hot reload
+  private hotReloadUnsupported = false;
 
   private projectDir: string;
+  private readonly platform: NodeJS.Platform;
 
-  constructor(projectDir: string, options?: { remotingVerbose?: boolean }) {
-    this.tic80Path = getPathRelativeToTemplates("TIC-80-ticbuild/tic80.exe");
+  constructor(projectDir: string, options?: CustomTic80ControllerOptions) {
+    this.platform = options?.platform ?? process.platform;
+    this.tic80Path = resolveCustomTic80Path(this.platform);
     this.projectDir = projectDir;
+    this.host = options?.attach?.host ?? "127.0.0.1";
+    this.port = options?.attach?.port;
+    this.attached = !!options?.attach;
+    this.remotingVerbose = !!options?.remotingVerbose;
     //assert that project dir is absolute & exists
     if (!fileExists(this.projectDir)) {
       throw new Error(`Project directory not found: ${this.projectDir}`);
     }
 
-    if (!fileExists(this.tic80Path)) {
-      throw new Error(`Custom TIC-80 executable not found: ${this.tic80Path}`);
+    if (!this.attached && !fileExists(this.tic80Path)) {
+      const hint =
+        this.platform === "win32"
+          ? ""
+          : ` (the bundled build is Windows-only; set ${kCustomTic80LocationEnvVar} to a TIC-80-ticbuild build` +
+            ` for ${this.platform}, or USE_EXTERNAL_TIC80=1 to use a stock TIC-80 without remoting)`;
+      throw new Error(`Custom TIC-80 executable not found: ${this.tic80Path}${hint}`);
     }
-    this.remotingVerbose = !!options?.remotingVerbose;
   }
 
   private GetArgsForRemotingSession(): string[] {
-    return [`--skip`, `--remoting-port=${this.port}`, `--remote-session-location=${this.projectDir}\\.ticbuild\\remoting\\sessions`];
+    const pathApi = this.platform === "win32" ? path.win32 : path.posix;
+    const sessionDir = pathApi.join(this.projectDir, ".ticbuild", "remoting", "sessions");
+    return [`--skip`, `--remoting-port=${this.port}`, `--remote-session-location=${sessionDir}`];
   }
 
   async launchFireAndForget(cartPath?: string | undefined, userArgs: string[] = []): Promise<void> {
+    if (this.attached) {
+      throw new Error(`Can't launch TIC-80 while attached to ${this.host}:${this.port}`);
+    }
     this.applyRemotingPortOverride(userArgs);
     await this.ensurePortSelected();
     const port = this.port!;
@@ -53,28 +98,99 @@ export class CustomTic80Controller implements ITic80Controller {
     await launchProcessReturnImmediately(this.tic80Path, args);
   }
 
-  async launchAndControlCart(cartPath: string, userArgs: string[] = []): Promise<void> {
+  async launchAndControlCart(cartPath: string, userArgs: string[] = [], options?: ControlCartOptions): Promise<void> {
     const launchedNewProcess = await this.ensureProcessRunning(userArgs, cartPath);
     await this.ensureConnected();
 
+    const previous = this.loadedCart;
+    const hotReload = !!options?.hotReloadCode || !!options?.hotReloadAssets;
+    this.loadedCart = hotReload ? this.readCart(cartPath) : undefined;
+
     if (launchedNewProcess) {
       cons.dim(`[remoting] TIC-80 launched with cart: ${cartPath}`);
       return;
     }
 
+    const current = this.loadedCart;
+    if (previous && current && previous.path === current.path) {
+      const plan = planHotReload(previous.cart, current.cart, {
+        code: !!options?.hotReloadCode && !this.hotReloadUnsupported,
+        assets: !!options?.hotReloadAssets,
+      });
+      if (plan && (await this.tryHotReload(plan, current.cart))) {
+        const applied = [...(plan.code ? ["code"] : []), ...plan.pokes.map((poke) => poke.chunkType)];
+        cons.dim(`[remoting] Hot-reloaded ${applied.length ? applied.join(", ") : "(no changes)"}: ${cartPath}`);
+        return;
+      }
+    }
+
     await this.client!.loadCart(cartPath, true);
     cons.dim(`[remoting] Loaded cart: ${cartPath}`);
   }
 
+  private readCart(cartPath: string): { path: string; cart: Tic80Cart } | undefined {
+    try {
+      return { path: cartPath, cart: parseTic80Cart(new Uint8Array(fs.readFileSync(cartPath))) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  // returns false when the cart should be reloaded instead.
+  private async tryHotReload(plan: HotReloadPlan, cart: Tic80Cart): Promise<boolean> {
+    // assets first; new code may depend on them.
+    for (const poke of plan.pokes) {
+      try {
+        await this.client!.poke(poke.address, poke.data);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        cons.warning(`[remoting] Failed to push ${poke.chunkType} (${message}); reloading cart`);
+        return false;
+      }
+    }
+    return !plan.code || (await this.tryHotReloadCode(cart));
+  }
+
+  // runs the new code in the live Lua state. the cart TIC-80 holds keeps its old CODE (remoting has no
+  // command to replace it), so restarting the cart inside TIC-80 runs the code it loaded last.
+  private async tryHotReloadCode(cart: Tic80Cart): Promise<boolean> {
+    const code = getCartCodeText(cart);
+    if (code === undefined) {
+      return false;
+    }
+
+    let result: string;
+    try {
+      result = decodeRemotingString(await this.client!.evalExpr(buildHotReloadExpression(code)));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // older builds have no `evalexpr`; don't try again. other failures may be transient.
+      if (err instanceof RemotingCommandError && err.isUnknownCommand) {
+        this.hotReloadUnsupported = true;
+        cons.warning(`[remoting] Hot reload not supported (${message}); reloading cart`);
+      } else {
+        cons.warning(`[remoting] Hot reload failed (${message}); reloading cart`);
+      }
+      return false;
+    }
+
+    if (result !== kHotReloadOk) {
+      cons.warning(`[remoting] Hot reload failed: ${result}; reloading cart`);
+      return false;
+    }
+    return true;
+  }
+
+  // an attached session is left running; it isn't ours to quit.
   async stop(): Promise<void> {
-    if (this.client && this.client.isConnected()) {
+    if (this.client && this.client.isConnected() && !this.attached) {
       try {
         await this.client.quit();
       } catch (err) {
         cons.warning(`[remoting] Failed to send quit: ${err instanceof Error ? err.message : String(err)}`);
       }
-      this.client.close();
     }
+    this.client?.close();
     this.client = undefined;
 
     if (this.tic80Process && !this.tic80Process.killed) {
@@ -85,10 +201,11 @@ export class CustomTic80Controller implements ITic80Controller {
     }
     this.suppressExitSignal = false;
     this.tic80Process = undefined;
+    this.loadedCart = undefined;
   }
 
   private async ensureProcessRunning(userArgs: string[] = [], initialCartPath?: string): Promise<boolean> {
-    if (this.tic80Process && !this.tic80Process.killed) {
+    if (this.attached || (this.tic80Process && !this.tic80Process.killed)) {
       return false;
     }
 
@@ -111,11 +228,16 @@ export class CustomTic80Controller implements ITic80Controller {
     this.exitHandlers.add(handler);
   }
 
+  onRemotingEvent(handler: (event: RemotingEvent) => void): void {
+    this.eventHandlers.add(handler);
+  }
+
   private handleProcessExit(processRef: ChildProcess): void {
     if (this.tic80Process !== processRef) {
       return;
     }
     this.tic80Process = undefined;
+    this.loadedCart = undefined;
     if (this.client) {
       this.client.close();
       this.client = undefined;
@@ -137,10 +259,22 @@ export class CustomTic80Controller implements ITic80Controller {
 
     const port = this.port!;
     this.client = new Tic80RemotingClient(this.host, port, this.remotingVerbose);
+    this.client.onEvent((event) => {
+      for (const handler of this.eventHandlers) {
+        handler(event);
+      }
+    });
 
     await this.connectWithRetry(5000, 100);
     const hello = await this.client.hello();
     cons.info(`[remoting] Connected: ${hello}`);
+
+    // events are opt-in per client
+    try {
+      await this.client.subscribeEvents(kSubscribedEventTypes);
+    } catch (err) {
+      cons.warning(`[remoting] Failed to subscribe to events: ${err instanceof Error ? err.message : String(err)}`);
+    }
   }
 
   private async connectWithRetry(timeoutMs: number, intervalMs: number): Promise<void> {
@@ -11,11 +11,11 @@ function writeJson(filePath: string, value: unknown): void {
 describe("discovery", () => {
     it("reads and merges sessions from global and project sources ordered by recent startedAt", async () => {
         const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-discovery-"));
-        const localAppData = path.join(tempRoot, "localappdata");
+        const userDataDir = path.join(tempRoot, "userdata");
         const projectDir = path.join(tempRoot, "project");
 
         try {
-            writeJson(path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.100.json"), {
+            writeJson(path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.100.json"), {
                 pid: 100,
                 host: "127.0.0.1",
                 port: 55100,
@@ -31,7 +31,7 @@ describe("discovery", () => {
                 remotingVersion: "v1",
             });
 
-            const sessions = await readDiscoveredSessions({ localAppData, projectDir });
+            const sessions = await readDiscoveredSessions({ userDataDir, projectDir });
 
             expect(sessions).toHaveLength(2);
             expect(sessions[0].pid).toBe(200);
@@ -45,10 +45,10 @@ describe("discovery", () => {
 
     it("ignores malformed discovery json files", async () => {
         const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-discovery-"));
-        const localAppData = path.join(tempRoot, "localappdata");
+        const userDataDir = path.join(tempRoot, "userdata");
 
         try {
-            writeJson(path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.100.json"), {
+            writeJson(path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.100.json"), {
                 pid: 100,
                 host: "127.0.0.1",
                 port: 55100,
@@ -56,7 +56,7 @@ describe("discovery", () => {
                 remotingVersion: "v1",
             });
 
-            writeJson(path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.101.json"), {
+            writeJson(path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.101.json"), {
                 pid: "not-a-number",
                 host: "127.0.0.1",
                 port: 55101,
@@ -65,12 +65,12 @@ describe("discovery", () => {
             });
 
             fs.writeFileSync(
-                path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.102.json"),
+                path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.102.json"),
                 "{ broken json",
                 "utf-8",
             );
 
-            const sessions = await readDiscoveredSessions({ localAppData });
+            const sessions = await readDiscoveredSessions({ userDataDir });
             expect(sessions).toHaveLength(1);
             expect(sessions[0].pid).toBe(100);
         } finally {
@@ -80,10 +80,10 @@ describe("discovery", () => {
 
     it("filters to running sessions when requested", async () => {
         const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-discovery-"));
-        const localAppData = path.join(tempRoot, "localappdata");
+        const userDataDir = path.join(tempRoot, "userdata");
 
         try {
-            writeJson(path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.301.json"), {
+            writeJson(path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.301.json"), {
                 pid: 301,
                 host: "127.0.0.1",
                 port: 55301,
@@ -91,7 +91,7 @@ describe("discovery", () => {
                 remotingVersion: "v1",
             });
 
-            writeJson(path.join(localAppData, "TIC-80", "remoting", "sessions", "tic80-remote.302.json"), {
+            writeJson(path.join(userDataDir, "TIC-80", "remoting", "sessions", "tic80-remote.302.json"), {
                 pid: 302,
                 host: "127.0.0.1",
                 port: 55302,
@@ -100,7 +100,7 @@ describe("discovery", () => {
             });
 
             const sessions = await listRunningDiscoveredSessions({
-                localAppData,
+                userDataDir,
                 isPidRunning: (pid) => pid === 302,
             });
 
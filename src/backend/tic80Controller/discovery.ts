@@ -1,5 +1,6 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { getUserDataDir } from "../../utils/platform";
 
 export interface DiscoveredTic80Session {
     pid: number;
@@ -15,7 +16,7 @@ export interface DiscoveredTic80Session {
 
 export interface DiscoveryOptions {
     projectDir?: string;
-    localAppData?: string;
+    userDataDir?: string; // where the global sessions live under "TIC-80"; defaults to the OS convention
     isPidRunning?: (pid: number) => boolean;
 }
 
@@ -27,13 +28,13 @@ type SourceDescriptor = {
 const SESSION_FILE_PATTERN = /^tic80-remote\.(\d+)\.json$/i;
 
 function getSourceDirectories(options?: DiscoveryOptions): SourceDescriptor[] {
-    const localAppData = options?.localAppData ?? process.env.LOCALAPPDATA;
+    const userDataDir = options?.userDataDir ?? getUserDataDir();
     const directories: SourceDescriptor[] = [];
 
-    if (localAppData) {
+    if (userDataDir) {
         directories.push({
             source: "global",
-            directoryPath: path.join(localAppData, "TIC-80", "remoting", "sessions"),
+            directoryPath: path.join(userDataDir, "TIC-80", "remoting", "sessions"),
         });
     }
 
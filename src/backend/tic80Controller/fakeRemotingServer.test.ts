@@ -0,0 +1,84 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { listRunningDiscoveredSessions } from "./discovery";
+import { FakeTic80RemotingServer } from "./fakeRemotingServer";
+import { RemotingCommandError, RemotingEvent, Tic80RemotingClient } from "./remotingClient";
+
+describe("FakeTic80RemotingServer", () => {
+  let server: FakeTic80RemotingServer;
+  let client: Tic80RemotingClient;
+
+  beforeEach(async () => {
+    server = new FakeTic80RemotingServer();
+    const port = await server.start();
+    client = new Tic80RemotingClient("127.0.0.1", port, false);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  it("should answer commands and record requests", async () => {
+    await expect(client.hello()).resolves.toBe('"TIC-80 remoting v1 (fake)"');
+    await client.loadCart("C:\\carts\\game.tic", true);
+    await client.poke(0x3fc0, new Uint8Array([0x1a, 0x1c, 0x2c]));
+    await expect(client.peek(0x3fbf, 4)).resolves.toEqual(new Uint8Array([0, 0x1a, 0x1c, 0x2c]));
+
+    expect(server.loadedCartPath).toBe("C:\\carts\\game.tic");
+    expect(server.requests.map((r) => r.command)).toEqual(["hello", "load", "poke", "peek"]);
+    expect(server.requests[1].args).toEqual(["C:\\carts\\game.tic", "1"]);
+    await expect(client.peek(0x17fff, 2)).rejects.toThrow("invalid address");
+  });
+
+  it("should use scripted responses", async () => {
+    const unknown = await client.evalExpr("1+1").catch((err) => err);
+    expect(unknown).toMatchObject({ message: '"unknown command: evalexpr"', isUnknownCommand: true });
+
+    server.handle("evalexpr", (request) => `"${request.args[0]} = 2"`);
+    await expect(client.evalExpr("1+1")).resolves.toBe('"1+1 = 2"');
+
+    server.handle("hello", () => ({ status: "ERR", data: '"busy"' }));
+    const error = await client.hello().catch((err) => err);
+    expect(error).toBeInstanceOf(RemotingCommandError);
+    expect(error).toMatchObject({ message: '"busy"', command: "hello", isUnknownCommand: false });
+  });
+
+  it("should push events to subscribed clients only", async () => {
+    const events: RemotingEvent[] = [];
+    client.onEvent((event) => events.push(event));
+
+    server.pushEvent("trace", '"ignored"');
+    await client.subscribeEvents("trace|cart_run");
+    server.pushEvent("trace", '"hello"');
+    await client.loadCart("game.tic", true); // cart_run
+    await client.subscribeEvents("trace", false);
+    server.pushEvent("trace", '"ignored"');
+    await client.hello(); // round trip so pending events have arrived
+
+    expect(events.map((e) => [e.eventType, e.data])).toEqual([
+      ["trace", '"hello"'],
+      ["cart_run", ""],
+    ]);
+  });
+
+  it("should be discoverable while running", async () => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-fake-tic80-"));
+    const discoverable = new FakeTic80RemotingServer({
+      sessionDirs: [path.join(projectDir, ".ticbuild", "remoting", "sessions")],
+    });
+    try {
+      const port = await discoverable.start();
+      const sessions = await listRunningDiscoveredSessions({ projectDir, userDataDir: "" });
+      expect(sessions).toEqual([expect.objectContaining({ pid: process.pid, port, source: "project" })]);
+
+      await discoverable.stop();
+      expect(await listRunningDiscoveredSessions({ projectDir, userDataDir: "" })).toEqual([]);
+    } finally {
+      await discoverable.stop();
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,268 @@
+// an in-process stand-in for the remoting TIC-80 build (see templates/TIC-80-ticbuild/remoting_README.md),
+// for tests and for working on the remoting features where the custom tic80.exe can't run.
+//
+// it speaks the line protocol, writes discovery session files, records every request, simulates RAM for
+// peek/poke and event subscriptions, and lets callers script responses and push events.
+
+import * as fs from "node:fs";
+import net from "node:net";
+import * as path from "node:path";
+import {
+  encodeRemotingBinary,
+  encodeRemotingString,
+  parseRemotingBinary,
+  parseRemotingRequestLine,
+} from "./remotingProtocol";
+
+const kRamSize = 0x18000;
+
+export type FakeRemotingRequest = {
+  id: number;
+  command: string; // lowercase
+  args: string[]; // strings unquoted
+  line: string;
+};
+
+export type FakeRemotingReply = {
+  status?: "OK" | "ERR"; // default OK
+  data?: string; // encoded response data, e.g. `"text"`, `<00 ff>`, `42`
+};
+
+// return undefined to fall back to the default behavior; throwing responds with ERR.
+export type FakeRemotingHandler = (
+  request: FakeRemotingRequest,
+) => FakeRemotingReply | string | undefined | Promise<FakeRemotingReply | string | undefined>;
+
+export type FakeTic80RemotingServerOptions = {
+  host?: string; // default 127.0.0.1
+  port?: number; // default: any free port
+  pid?: number; // written to session files; default: this process, so discovery sees it as running
+  remotingVersion?: string;
+  sessionDirs?: string[]; // where to write tic80-remote.<pid>.json, like --remote-session-location
+};
+
+type ClientState = {
+  socket: net.Socket;
+  buffer: string;
+  subscriptions: Set<string>;
+};
+
+///////////////////////////////////////////////////////////////////////////////////////////////////
+export class FakeTic80RemotingServer {
+  readonly requests: FakeRemotingRequest[] = [];
+  readonly ram = new Uint8Array(kRamSize);
+  loadedCartPath = "";
+  quitRequested = false;
+
+  private server: net.Server | undefined;
+  private clients = new Set<ClientState>();
+  private handlers = new Map<string, FakeRemotingHandler>();
+  private requestWaiters: { command: string; resolve: (request: FakeRemotingRequest) => void }[] = [];
+  private sessionFiles: string[] = [];
+  private nextEventId = -1;
+  private readonly host: string;
+  private readonly pid: number;
+  private readonly remotingVersion: string;
+  port = 0;
+
+  constructor(private options: FakeTic80RemotingServerOptions = {}) {
+    this.host = options.host ?? "127.0.0.1";
+    this.pid = options.pid ?? process.pid;
+    this.remotingVersion = options.remotingVersion ?? "v1";
+  }
+
+  // starts listening and writes the session files; returns the port.
+  async start(): Promise<number> {
+    const server = net.createServer((socket) => this.onConnection(socket));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.host, () => resolve());
+    });
+    const address = server.address();
+    if (!address || typeof address === "string") {
+      throw new Error("Fake remoting server did not bind to a TCP port");
+    }
+    this.port = address.port;
+
+    const session = {
+      pid: this.pid,
+      host: this.host,
+      port: this.port,
+      startedAt: new Date().toISOString(),
+      remotingVersion: this.remotingVersion,
+    };
+    for (const dir of this.options.sessionDirs ?? []) {
+      const filePath = path.join(dir, `tic80-remote.${this.pid}.json`);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(session, null, 2), "utf-8");
+      this.sessionFiles.push(filePath);
+    }
+    return this.port;
+  }
+
+  // disconnects clients, stops listening and deletes the session files.
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.socket.destroy();
+    }
+    this.clients.clear();
+    for (const filePath of this.sessionFiles) {
+      fs.rmSync(filePath, { force: true });
+    }
+    this.sessionFiles = [];
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  // scripts the response to a command (case-insensitive), replacing any previous handler.
+  handle(command: string, handler: FakeRemotingHandler): void {
+    this.handlers.set(command.toLowerCase(), handler);
+  }
+
+  // pushes an event to clients subscribed to its type. data is sent as-is, e.g. `"hello from tic80"`.
+  pushEvent(eventType: string, data: string = ""): void {
+    const line = `${this.nextEventId--} ${eventType}${data ? ` ${data}` : ""}\n`;
+    for (const client of this.clients) {
+      if (client.subscriptions.has(eventType)) {
+        client.socket.write(line, "utf8");
+      }
+    }
+  }
+
+  // resolves with the next request for command (or the earliest already received, if any).
+  waitForRequest(command: string, timeoutMs: number = 5000): Promise<FakeRemotingRequest> {
+    const name = command.toLowerCase();
+    const received = this.requests.find((request) => request.command === name);
+    if (received) {
+      return Promise.resolve(received);
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        command: name,
+        resolve: (request: FakeRemotingRequest) => {
+          clearTimeout(timer);
+          resolve(request);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.requestWaiters = this.requestWaiters.filter((w) => w !== waiter);
+        reject(new Error(`Timed out waiting for a '${command}' request`));
+      }, timeoutMs);
+      this.requestWaiters.push(waiter);
+    });
+  }
+
+  private onConnection(socket: net.Socket): void {
+    const client: ClientState = { socket, buffer: "", subscriptions: new Set() };
+    this.clients.add(client);
+    socket.on("data", (chunk) => {
+      client.buffer += chunk.toString("utf8");
+      let newlineIndex = client.buffer.indexOf("\n");
+      while (newlineIndex >= 0) {
+        const line = client.buffer.slice(0, newlineIndex).trim();
+        client.buffer = client.buffer.slice(newlineIndex + 1);
+        if (line.length > 0) {
+          void this.onLine(client, line);
+        }
+        newlineIndex = client.buffer.indexOf("\n");
+      }
+    });
+    socket.on("close", () => this.clients.delete(client));
+    socket.on("error", () => this.clients.delete(client));
+  }
+
+  private async onLine(client: ClientState, line: string): Promise<void> {
+    const parsed = parseRemotingRequestLine(line);
+    if (!parsed || parsed.id < 0) {
+      this.respond(client, 0, { status: "ERR", data: encodeRemotingString(parsed ? "invalid id" : "parse error") });
+      return;
+    }
+
+    const request: FakeRemotingRequest = { ...parsed, line };
+    this.requests.push(request);
+    const waiters = this.requestWaiters.filter((w) => w.command === request.command);
+    this.requestWaiters = this.requestWaiters.filter((w) => w.command !== request.command);
+
+    let reply: FakeRemotingReply;
+    try {
+      const scripted = await this.handlers.get(request.command)?.(request);
+      reply = typeof scripted === "string" ? { data: scripted } : scripted ?? this.defaultReply(client, request);
+    } catch (err) {
+      reply = { status: "ERR", data: encodeRemotingString(err instanceof Error ? err.message : String(err)) };
+    }
+    this.respond(client, request.id, reply);
+
+    for (const waiter of waiters) {
+      waiter.resolve(request);
+    }
+    if (request.command === "quit" && reply.status !== "ERR") {
+      this.quitRequested = true;
+      client.socket.end();
+    }
+  }
+
+  private respond(client: ClientState, id: number, reply: FakeRemotingReply): void {
+    const data = reply.data ? ` ${reply.data}` : "";
+    client.socket.write(`${id} ${reply.status ?? "OK"}${data}\n`, "utf8");
+  }
+
+  // roughly what the real build does; unknown commands (incl. evalexpr, which needs Lua) are errors.
+  private defaultReply(client: ClientState, request: FakeRemotingRequest): FakeRemotingReply {
+    const [arg0, arg1] = request.args;
+    switch (request.command) {
+      case "hello":
+        return { data: encodeRemotingString(`TIC-80 remoting ${this.remotingVersion} (fake)`) };
+      case "ping":
+        return { data: "PONG" };
+      case "load":
+        this.loadedCartPath = arg0 ?? "";
+        if (arg1 === "1") {
+          this.pushEvent("cart_run");
+        }
+        return {};
+      case "cartpath":
+        return { data: encodeRemotingString(this.loadedCartPath) };
+      case "peek": {
+        const address = this.parseRamRange(arg0, Number(arg1));
+        return { data: encodeRemotingBinary(this.ram.slice(address, address + Number(arg1))) };
+      }
+      case "poke": {
+        const data = parseRemotingBinary(arg1 ?? "");
+        if (!data) {
+          throw new Error("invalid data");
+        }
+        this.ram.set(data, this.parseRamRange(arg0, data.length));
+        return {};
+      }
+      case "event_subscribe":
+        for (const eventType of (arg0 ?? "").split("|").filter((t) => t.length > 0)) {
+          if (arg1 === "0") {
+            client.subscriptions.delete(eventType);
+          } else {
+            client.subscriptions.add(eventType);
+          }
+        }
+        return {};
+      case "eval":
+      case "sync":
+      case "restart":
+      case "quit":
+        return {};
+      default:
+        throw new Error(`unknown command: ${request.command}`);
+    }
+  }
+
+  private parseRamRange(addressText: string | undefined, size: number): number {
+    const address = Number(addressText); // accepts 0x.. too
+    if (!Number.isInteger(address) || !Number.isInteger(size) || address < 0 || size < 0 || address + size > kRamSize) {
+      throw new Error("invalid address");
+    }
+    return address;
+  }
+}
@@ -0,0 +1,61 @@
+import * as luaparse from "luaparse";
+import { Tic80Cart } from "../../utils/tic80/tic80";
+import { buildHotReloadExpression, planHotReload } from "./hotReload";
+
+function makeCart(code: string, tiles: number[]): Tic80Cart {
+  return {
+    chunks: [
+      { chunkType: "CODE", bank: 0, data: new TextEncoder().encode(code) },
+      { chunkType: "TILES", bank: 0, data: new Uint8Array(tiles) },
+    ],
+  };
+}
+
+describe("hot reload", () => {
+  it("should plan code swaps and RAM pokes for changed chunks", () => {
+    const allowAll = { code: true, assets: true };
+    const cart = makeCart("x=1", [1, 2, 3]);
+    expect(planHotReload(cart, cart, allowAll)).toEqual({ code: false, pokes: [] });
+    expect(planHotReload(cart, makeCart("x=2", [1, 2, 3]), allowAll)).toEqual({ code: true, pokes: [] });
+
+    // trimmed chunk: the old tail is cleared
+    expect(planHotReload(cart, makeCart("x=1", [4]), allowAll)).toEqual({
+      code: false,
+      pokes: [{ chunkType: "TILES", address: 0x4000, data: new Uint8Array([4, 0, 0]) }],
+    });
+    // removed chunk
+    expect(planHotReload(cart, { chunks: [cart.chunks[0]] }, allowAll)?.pokes).toEqual([
+      { chunkType: "TILES", address: 0x4000, data: new Uint8Array(3) },
+    ]);
+  });
+
+  it("should require a reload for changes that can't be applied live", () => {
+    const cart = makeCart("x=1", [0]);
+    expect(planHotReload(cart, makeCart("x=2", [0]), { code: false, assets: true })).toBeUndefined();
+    expect(planHotReload(cart, makeCart("x=1", [1]), { code: true, assets: false })).toBeUndefined();
+
+    const allowAll = { code: true, assets: true };
+    const withBank1 = { chunks: [...cart.chunks, { chunkType: "TILES" as const, bank: 1, data: new Uint8Array(1) }] };
+    expect(planHotReload(cart, withBank1, allowAll)).toBeUndefined();
+    const withCover = { chunks: [...cart.chunks, { chunkType: "SCREEN" as const, bank: 0, data: new Uint8Array(1) }] };
+    expect(planHotReload(cart, withCover, allowAll)).toBeUndefined();
+  });
+
+  it("should build a single-line ASCII expression embedding the code", () => {
+    const code = '-- title: "q"\nfunction TIC()\n\tprint("a\\\\b")\nend\n';
+    const expression = buildHotReloadExpression(code);
+    expect(expression).toMatch(/^[\x20-\x7e]*$/);
+
+    const ast = luaparse.parse(`return ${expression}`, { luaVersion: "5.3", encodingMode: "pseudo-latin1" });
+    const literals: string[] = [];
+    JSON.stringify(ast, (key, value) => {
+      if (value?.type === "StringLiteral") {
+        literals.push(value.value);
+      }
+      return value;
+    });
+    expect(literals).toContain(code);
+
+    expect(buildHotReloadExpression('s="é"')).toContain('s=\\"\\195\\169\\"');
+  });
+});
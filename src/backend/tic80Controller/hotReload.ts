@@ -0,0 +1,92 @@
+// hot reload for the remoting TIC-80 build: applying a rebuilt cart to the running one without restarting it.
+//
+// changed asset chunks (bank 0 of sprites, map, palette, sfx, ...) are poked into RAM.
+//
+// changed code is run inside the running Lua state:
+// - function definitions replace the old ones, so TIC() & friends pick up the new code next frame.
+// - top-level assignments to globals which already exist are skipped, so game state survives.
+//   new globals are defined as usual.
+// - top-level locals are re-created, and other top-level statements run again.
+
+import { toLuaStringLiteral } from "../../utils/lua/lua_fundamentals";
+import { diffTic80Carts } from "../../utils/tic80/cartDiff";
+import { kTic80ChunkRamRegions, Tic80Cart, Tic80CartChunkTypeKey } from "../../utils/tic80/tic80";
+
+const kCodeChunkTypes: Tic80CartChunkTypeKey[] = ["CODE", "CODE_COMPRESSED"];
+
+// the evalexpr result when the code was swapped in; anything else is an error message.
+export const kHotReloadOk = "ok";
+
+export type HotReloadPoke = {
+  chunkType: Tic80CartChunkTypeKey;
+  address: number;
+  data: Uint8Array;
+};
+
+export type HotReloadPlan = {
+  code: boolean; // code changed
+  pokes: HotReloadPoke[];
+};
+
+function findChunkData(cart: Tic80Cart, chunkType: Tic80CartChunkTypeKey, bank: number): Uint8Array {
+  return cart.chunks.find((c) => c.chunkType === chunkType && c.bank === bank)?.data ?? new Uint8Array(0);
+}
+
+// how to apply the changes between two builds of a cart to the running one.
+// returns undefined when some change can't be applied live (or isn't allowed), so the cart must be reloaded.
+export function planHotReload(
+  previous: Tic80Cart,
+  next: Tic80Cart,
+  allow: { code: boolean; assets: boolean },
+): HotReloadPlan | undefined {
+  const plan: HotReloadPlan = { code: false, pokes: [] };
+  for (const diff of diffTic80Carts(previous, next)) {
+    if (diff.status === "unchanged") {
+      continue;
+    }
+    if (kCodeChunkTypes.includes(diff.chunkType)) {
+      if (!allow.code) {
+        return undefined;
+      }
+      plan.code = true;
+      continue;
+    }
+
+    const region = kTic80ChunkRamRegions[diff.chunkType];
+    if (!allow.assets || !region || diff.bank !== 0) {
+      return undefined;
+    }
+    // chunks load zero-padded, so write over the old data's length too (e.g. a removed or trimmed chunk).
+    const data = new Uint8Array(Math.min(Math.max(diff.sizeA, diff.sizeB), region.size));
+    data.set(findChunkData(next, diff.chunkType, diff.bank).subarray(0, data.length));
+    plan.pokes.push({ chunkType: diff.chunkType, address: region.address, data });
+  }
+  return plan;
+}
+
+// remoting args must be ASCII; escape everything else as Lua decimal byte escapes.
+function toAsciiLuaStringLiteral(text: string): string {
+  return toLuaStringLiteral(text).replace(/[^\x20-\x7e]/g, (ch) =>
+    Array.from(new TextEncoder().encode(ch), (byte) => `\\${byte.toString().padStart(3, "0")}`).join(""),
+  );
+}
+
+// builds a single-line Lua expression (for `evalexpr`) which runs code as described above.
+// the chunk is named by its source like TIC-80 does, so error locations read the same as the cart's.
+export function buildHotReloadExpression(code: string): string {
+  const src = toAsciiLuaStringLiteral(code);
+  return [
+    "(function()",
+    "local G,loading=_G,true",
+    "local env=setmetatable({},{__index=G,__newindex=function(_,k,v)",
+    "if not loading or type(v)=='function' or rawget(G,k)==nil then G[k]=v end end})",
+    `local src=${src}`,
+    "local f,err=load(src,src,'t',env)",
+    "if not f then return tostring(err) end",
+    "local ok,runErr=pcall(f)",
+    "loading=false",
+    "if not ok then return tostring(runErr) end",
+    `return '${kHotReloadOk}'`,
+    "end)()",
+  ].join(" ");
+}
@@ -55,4 +55,29 @@ describe("Tic80RemotingClient", () => {
       await closeServer(server);
     }
   });
+
+  it("sends peek/poke with binary payloads", async () => {
+    const received: string[] = [];
+    const server = net.createServer((socket) => {
+      socket.on("data", (chunk) => {
+        for (const line of chunk.toString("utf8").split("\n").filter((l) => l.trim().length > 0)) {
+          received.push(line);
+          const [id, command] = line.split(/\s+/);
+          socket.write(command === "peek" ? `${id} OK <1a 1c 2c>\n` : `${id} OK\n`);
+        }
+      });
+    });
+    const port = await listen(server);
+    const client = new Tic80RemotingClient("127.0.0.1", port, false);
+
+    try {
+      await client.connect();
+      await expect(client.peek(0x3fc0, 3)).resolves.toEqual(new Uint8Array([0x1a, 0x1c, 0x2c]));
+      await client.poke(0x3fc0, new Uint8Array([0x5d, 0x27]));
+      expect(received).toEqual(["1 peek 0x3fc0 3", "2 poke 0x3fc0 <5d 27>"]);
+    } finally {
+      client.close();
+      await closeServer(server);
+    }
+  });
 });
@@ -1,11 +1,12 @@
 import net from "node:net";
 import * as cons from "../../utils/console";
-import { parseRemotingLine } from "./remotingProtocol";
+import { encodeRemotingBinary, encodeRemotingString, parseRemotingLine } from "./remotingProtocol";
 
 export interface RemotingResponse {
   id: number;
   status: "OK" | "ERR";
   data: string;
+  binary?: Uint8Array;
 }
 
 export interface RemotingEvent {
@@ -14,6 +15,22 @@ export interface RemotingEvent {
   data: string;
 }
 
+// the server answered ERR, as opposed to the command not getting through (timeouts, socket errors).
+export class RemotingCommandError extends Error {
+  constructor(
+    message: string,
+    public command: string,
+  ) {
+    super(message);
+    this.name = "RemotingCommandError";
+  }
+
+  // builds without a command answer e.g. `ERR "unknown command: evalexpr"`
+  get isUnknownCommand(): boolean {
+    return /unknown command/i.test(this.message);
+  }
+}
+
 export class Tic80RemotingClient {
   private socket: net.Socket | undefined;
   private buffer = "";
@@ -21,7 +38,12 @@ export class Tic80RemotingClient {
   private eventHandlers = new Set<(event: RemotingEvent) => void>();
   private pending = new Map<
     number,
-    { resolve: (value: RemotingResponse) => void; reject: (error: Error) => void; timeout: NodeJS.Timeout }
+    {
+      command: string;
+      resolve: (value: RemotingResponse) => void;
+      reject: (error: Error) => void;
+      timeout: NodeJS.Timeout;
+    }
   >();
 
   constructor(
@@ -77,11 +99,41 @@ export class Tic80RemotingClient {
   }
 
   async loadCart(cartPath: string, runAfterLoad: boolean = true): Promise<void> {
-    const pathArg = this.encodeString(cartPath);
+    const pathArg = encodeRemotingString(cartPath);
     const runArg = runAfterLoad ? "1" : "0";
     await this.sendCommand("load", `${pathArg} ${runArg}`);
   }
 
+  // events are only pushed for subscribed types, e.g. "trace|cart_run".
+  async subscribeEvents(eventTypes: string, enabled: boolean = true): Promise<void> {
+    await this.sendCommand("event_subscribe", `${encodeRemotingString(eventTypes)} ${enabled ? "1" : "0"}`);
+  }
+
+  // reads size bytes of TIC-80 RAM
+  async peek(address: number, size: number): Promise<Uint8Array> {
+    const response = await this.sendCommand("peek", `0x${address.toString(16)} ${size}`);
+    if (!response.binary) {
+      throw new Error(`Unexpected peek response: ${response.data}`);
+    }
+    return response.binary;
+  }
+
+  async poke(address: number, data: Uint8Array): Promise<void> {
+    await this.sendCommand("poke", `0x${address.toString(16)} ${encodeRemotingBinary(data)}`);
+  }
+
+  // runs Lua code in the running cart; there is no result.
+  async evalCode(code: string): Promise<void> {
+    await this.sendCommand("eval", encodeRemotingString(code));
+  }
+
+  // evaluates a single Lua expression in the running cart; returns the raw response data.
+  // builds without `evalexpr` respond with ERR, rejecting with an unknown-command RemotingCommandError.
+  async evalExpr(expression: string): Promise<string> {
+    const response = await this.sendCommand("evalexpr", encodeRemotingString(expression));
+    return response.data;
+  }
+
   async quit(): Promise<void> {
     await this.sendCommand("quit");
   }
@@ -93,11 +145,6 @@ export class Tic80RemotingClient {
     }
   }
 
-  private encodeString(value: string): string {
-    const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-    return `"${escaped}"`;
-  }
-
   private async sendCommand(command: string, args: string = ""): Promise<RemotingResponse> {
     if (!this.socket || this.socket.destroyed) {
       throw new Error("Remoting socket is not connected");
@@ -110,7 +157,7 @@ export class Tic80RemotingClient {
         this.pending.delete(id);
         reject(new Error(`Timed out waiting for response to '${command}'`));
       }, 5000);
-      this.pending.set(id, { resolve, reject, timeout });
+      this.pending.set(id, { command, resolve, reject, timeout });
     });
 
     if (this.verbose) {
@@ -164,7 +211,7 @@ export class Tic80RemotingClient {
       return;
     }
 
-    const { id, data } = parsed;
+    const { id, data, binary } = parsed;
     const status = parsed.status as "OK" | "ERR";
     const pending = this.pending.get(id);
     if (!pending) {
@@ -176,9 +223,9 @@ export class Tic80RemotingClient {
     this.pending.delete(id);
 
     if (status === "OK") {
-      pending.resolve({ id, status, data });
+      pending.resolve({ id, status, data, binary });
     } else {
-      pending.reject(new Error(data || `Remoting command failed for id ${id}`));
+      pending.reject(new RemotingCommandError(data || `Remoting command failed for id ${id}`, pending.command));
     }
   }
 
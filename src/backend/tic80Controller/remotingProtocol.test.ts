@@ -1,4 +1,11 @@
-import { parseRemotingLine } from "./remotingProtocol";
+import {
+  decodeRemotingString,
+  encodeRemotingBinary,
+  parseRemotingBinary,
+  parseRemotingLine,
+  parseRemotingRequestLine,
+  splitRemotingArgs,
+} from "./remotingProtocol";
 
 describe("parseRemotingLine", () => {
   it("parses response lines", () => {
@@ -19,8 +26,64 @@ describe("parseRemotingLine", () => {
     });
   });
 
+  it("decodes binary response data", () => {
+    expect(parseRemotingLine("3 OK <c0 a7 ff 00>")).toEqual({
+      kind: "response",
+      id: 3,
+      status: "OK",
+      data: "<c0 a7 ff 00>",
+      binary: new Uint8Array([0xc0, 0xa7, 0xff, 0x00]),
+    });
+  });
+
   it("rejects lines without an integer id", () => {
     expect(parseRemotingLine('abc OK "nope"')).toBeUndefined();
     expect(parseRemotingLine('1.5 OK "nope"')).toBeUndefined();
   });
 });
+
+describe("decodeRemotingString", () => {
+  it("unquotes and unescapes string data", () => {
+    expect(decodeRemotingString('"a \\"b\\"\\nc\\\\d"')).toBe('a "b"\nc\\d');
+  });
+
+  it("returns unquoted data as-is", () => {
+    expect(decodeRemotingString("42")).toBe("42");
+  });
+});
+
+describe("remoting binary values", () => {
+  it("round-trips bytes", () => {
+    const data = new Uint8Array([0x24, 0xff, 0xc0]);
+    expect(encodeRemotingBinary(data)).toBe("<24 ff c0>");
+    expect(parseRemotingBinary("<24ff c0>")).toEqual(data);
+    expect(parseRemotingBinary("<>")).toEqual(new Uint8Array(0));
+  });
+
+  it("rejects anything else", () => {
+    expect(parseRemotingBinary('"<24>"')).toBeUndefined();
+    expect(parseRemotingBinary("<2>")).toBeUndefined();
+    expect(parseRemotingBinary("<zz>")).toBeUndefined();
+  });
+});
+
+describe("parseRemotingRequestLine", () => {
+  it("parses commands with quoted, binary and plain args", () => {
+    expect(parseRemotingRequestLine('7 LOAD "c:\\\\a \\"b\\".tic" 1')).toEqual({
+      id: 7,
+      command: "load",
+      args: ['c:\\a "b".tic', "1"],
+    });
+    expect(parseRemotingRequestLine("1   poke\t0x8fff <24 ff c0>  ")).toEqual({
+      id: 1,
+      command: "poke",
+      args: ["0x8fff", "<24 ff c0>"],
+    });
+  });
+
+  it("rejects malformed lines", () => {
+    expect(parseRemotingRequestLine("hello")).toBeUndefined();
+    expect(parseRemotingRequestLine('1 eval "unterminated')).toBeUndefined();
+    expect(splitRemotingArgs("<00 11")).toBeUndefined();
+  });
+});
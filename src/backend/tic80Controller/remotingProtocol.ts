@@ -1,8 +1,11 @@
+import { decodeHexString } from "../../utils/encoding/hex";
+
 export interface ParsedRemotingResponseLine {
   kind: "response";
   id: number;
   status: string;
   data: string;
+  binary?: Uint8Array; // set when data is a binary value like `<c0 a7 ff 00>` (e.g. `peek`)
 }
 
 export interface ParsedRemotingEventLine {
@@ -36,10 +39,120 @@ export function parseRemotingLine(line: string): ParsedRemotingLine | undefined
     };
   }
 
+  const binary = parseRemotingBinary(data);
   return {
     kind: "response",
     id,
     status: token.toUpperCase(),
     data,
+    ...(binary ? { binary } : {}),
   };
 }
+
+// binary values are hex bytes in angle brackets, e.g. `<c0 a7 ff 00>`; whitespace inside is ignored.
+export function parseRemotingBinary(data: string): Uint8Array | undefined {
+  const match = /^<([0-9a-fA-F\s]*)>$/.exec(data.trim());
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return decodeHexString(match[1]);
+  } catch {
+    return undefined; // odd number of digits
+  }
+}
+
+export function encodeRemotingBinary(data: Uint8Array): string {
+  return `<${Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join(" ")}>`;
+}
+
+export interface ParsedRemotingRequestLine {
+  id: number;
+  command: string; // lowercase; commands are case-insensitive
+  args: string[]; // strings unquoted / unescaped; binary and numbers as written
+}
+
+// splits request args: whitespace-separated, with "quoted strings" (escape char \) and <binary data>.
+// returns undefined for unterminated quotes / binary.
+export function splitRemotingArgs(text: string): string[] | undefined {
+  const args: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    if (text[i] === '"') {
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          i++;
+        }
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) {
+        return undefined;
+      }
+      args.push(value);
+      i++;
+      continue;
+    }
+    if (text[i] === "<") {
+      const end = text.indexOf(">", i);
+      if (end < 0) {
+        return undefined;
+      }
+      args.push(text.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+    const start = i;
+    while (i < text.length && !/\s/.test(text[i])) {
+      i++;
+    }
+    args.push(text.slice(start, i));
+  }
+  return args;
+}
+
+// the server side of parseRemotingLine: `<id> <command> <args...>`
+export function parseRemotingRequestLine(line: string): ParsedRemotingRequestLine | undefined {
+  const match = /^\s*([^\s]+)\s+([^\s]+)\s*(.*)$/.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const id = Number(match[1]);
+  const args = splitRemotingArgs(match[3]);
+  if (!Number.isInteger(id) || !args) {
+    return undefined;
+  }
+  return { id, command: match[2].toLowerCase(), args };
+}
+
+export function encodeRemotingString(value: string): string {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  return `"${escaped}"`;
+}
+
+// event / response data is usually a quoted string with C-style escapes. returns it unquoted;
+// anything else is returned as-is.
+export function decodeRemotingString(data: string): string {
+  const trimmed = data.trim();
+  if (trimmed.length < 2 || !trimmed.startsWith('"') || !trimmed.endsWith('"')) {
+    return data;
+  }
+  return trimmed.slice(1, -1).replace(/\\(.)/g, (_match: string, ch: string) => {
+    switch (ch) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      default:
+        return ch;
+    }
+  });
+}
@@ -1,3 +1,12 @@
+import { RemotingEvent } from "./remotingClient";
+
+// when the cart was rebuilt with only the allowed kinds of changes since it was last loaded, apply them to
+// the running cart instead of reloading it. only the remoting build supports this; others reload as usual.
+export type ControlCartOptions = {
+  hotReloadCode?: boolean; // swap in new code, keeping globals
+  hotReloadAssets?: boolean; // poke changed asset chunks (sprites, map, palette, ...) into RAM
+};
+
 // common interface.
 // encapsulates TIC-80 process control (args, launch/kill/reload for run/watch/launch)
 export interface ITic80Controller {
@@ -13,7 +22,7 @@ export interface ITic80Controller {
   // for our custom remote-capable build, we keep the same instance running and use IPC to reload the cart.
   // does not return exit codes. again: this controller interface should (mostly)
   // hide the fact that it's a separate process.
-  launchAndControlCart(cartPath: string, userArgs?: string[]): Promise<void>;
+  launchAndControlCart(cartPath: string, userArgs?: string[], options?: ControlCartOptions): Promise<void>;
 
   // if a managed instance is running, stops it.
   // for vanilla builds, kills the process.
@@ -24,4 +33,8 @@ export interface ITic80Controller {
   // register a callback for when the TIC-80 process exits on its own.
   // callbacks may be invoked multiple times if the process is restarted.
   onExit(handler: () => void): void;
+
+  // register a callback for events pushed by the running instance (trace output, errors, ...).
+  // handlers stay registered across restarts / reconnects. vanilla builds have no event stream.
+  onRemotingEvent(handler: (event: RemotingEvent) => void): void;
 }
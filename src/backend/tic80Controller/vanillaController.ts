@@ -1,13 +1,15 @@
 import { fileExists, findExecutableInPath } from "../../utils/fileSystem";
 import { mergeTic80Args } from "../../utils/tic80/args";
+import { getWellKnownTic80Locations } from "../../utils/platform";
 import { launchProcessReturnImmediately } from "../../utils/tic80/launch";
-import { getWindowPosition, setWindowPosition, waitForWindow, WindowPlacement } from "../../utils/windowPosition";
+import { getWindowPositionProvider, WindowPlacement, WindowPositionProvider } from "../../utils/windowPosition";
+import { RemotingEvent } from "./remotingClient";
 import { ITic80Controller } from "./tic80Controller";
 import { ChildProcess } from "node:child_process";
 
 export interface Tic80Location {
   path: string;
-  source: "env" | "path";
+  source: "env" | "path" | "wellKnown";
 }
 
 function resolveExternalTic80Location(projectDir: string): Tic80Location | undefined {
@@ -24,6 +26,11 @@ function resolveExternalTic80Location(projectDir: string): Tic80Location | undef
     return { path: pathLocation, source: "path" };
   }
 
+  const wellKnownLocation = getWellKnownTic80Locations().find((candidate) => fileExists(candidate));
+  if (wellKnownLocation) {
+    return { path: wellKnownLocation, source: "wellKnown" };
+  }
+
   return undefined;
 }
 
@@ -50,7 +57,10 @@ export class VanillaTic80Controller implements ITic80Controller {
     });
   }
 
-  constructor(projectDir: string) {
+  constructor(
+    projectDir: string,
+    private windowPositions: WindowPositionProvider | undefined = getWindowPositionProvider(),
+  ) {
     const location = resolveExternalTic80Location(projectDir);
     if (!location) {
       throw new Error("External TIC-80 executable not found");
@@ -84,10 +94,11 @@ export class VanillaTic80Controller implements ITic80Controller {
     // Window position management is a controller-specific hack and lives here.
     let savedWindowPosition: WindowPlacement | null = null;
     const existingPid = this.tic80Process?.pid;
-    if (existingPid && process.platform === "win32") {
+    const windowPositions = this.windowPositions;
+    if (existingPid && windowPositions) {
       console.log(`[VanillaController] Attempting to save window position for PID ${existingPid}`);
       try {
-        savedWindowPosition = await getWindowPosition(existingPid);
+        savedWindowPosition = await windowPositions.getWindowPosition(existingPid);
         if (savedWindowPosition) {
           console.log(
             `[VanillaController] Saved window position: (${savedWindowPosition.x}, ${savedWindowPosition.y}) ${savedWindowPosition.width}x${savedWindowPosition.height}`,
@@ -122,13 +133,13 @@ export class VanillaTic80Controller implements ITic80Controller {
 
     const newPid = this.tic80Process?.pid;
     console.log(`[VanillaController] New TIC-80 PID: ${newPid}`);
-    if (savedWindowPosition && newPid && process.platform === "win32") {
+    if (savedWindowPosition && newPid && windowPositions) {
       console.log(`[VanillaController] Waiting for window to appear for PID ${newPid}...`);
-      const windowFound = await waitForWindow(newPid, 3000);
+      const windowFound = await windowPositions.waitForWindow(newPid, 3000);
       console.log(`[VanillaController] Window found: ${windowFound}`);
       if (windowFound) {
         console.log(`[VanillaController] Restoring window position...`);
-        await setWindowPosition(newPid, savedWindowPosition);
+        await windowPositions.setWindowPosition(newPid, savedWindowPosition);
         console.log(`[VanillaController] Window position restored`);
       }
     } else {
@@ -142,6 +153,10 @@ export class VanillaTic80Controller implements ITic80Controller {
     this.exitHandlers.add(handler);
   }
 
+  onRemotingEvent(handler: (event: RemotingEvent) => void): void {
+    // vanilla TIC-80 has no remoting; nothing will be pushed.
+  }
+
   private handleProcessExit(processRef: ChildProcess): void {
     if (this.tic80Process !== processRef) {
       return;
@@ -1,17 +1,26 @@
-// Searches for TIC-80 in the following order:
-// 1. TIC80_LOCATION environment variable from .env/.env.local
-// 2. tic80 or tic80.exe in PATH
+// Picks the TIC-80 controller, with settings from .env/.env.local in the project dir:
+// 0. options.attach: the remoting session already listening there; nothing is launched
+// 1. USE_EXTERNAL_TIC80=1: a stock TIC-80 (TIC80_LOCATION, then PATH, then well-known install locations)
+// 2. the TIC-80-ticbuild remoting build: TICBUILD_TIC80_LOCATION, else the bundled build
+// 3. when there's no bundled build for this platform (and TICBUILD_TIC80_LOCATION isn't set), falls back
+//    to a stock TIC-80 with a warning
 
 import { config } from "dotenv";
 import * as path from "path";
 
-import { getPathRelativeToTemplates } from "../utils/templates";
+import * as cons from "../utils/console";
+import { fileExists } from "../utils/fileSystem";
 import { VanillaTic80Controller } from "./tic80Controller/vanillaController";
-import { CustomTic80Controller } from "./tic80Controller/customController";
+import {
+  CustomTic80Controller,
+  kCustomTic80LocationEnvVar,
+  resolveCustomTic80Path,
+} from "./tic80Controller/customController";
 import { ITic80Controller } from "./tic80Controller/tic80Controller";
 
 export interface Tic80ControllerOptions {
   remotingVerbose?: boolean;
+  attach?: { host: string; port: number };
 }
 
 export function createTic80Controller(
@@ -24,11 +33,25 @@ export function createTic80Controller(
   config({ path: envPath });
   config({ path: envLocalPath });
 
+  if (options?.attach) {
+    return new CustomTic80Controller(projectDir, options);
+  }
+
   const useExternalPath = process.env.USE_EXTERNAL_TIC80;
   if (useExternalPath === "1" || useExternalPath === "true") {
     return new VanillaTic80Controller(projectDir);
   }
 
+  const customPath = resolveCustomTic80Path(process.platform);
+  if (!process.env[kCustomTic80LocationEnvVar] && !fileExists(customPath)) {
+    cons.warning(
+      `No bundled TIC-80-ticbuild build for ${process.platform}; using a stock TIC-80 instead ` +
+        `(no remoting: restarts on every rebuild, no hot reload). ` +
+        `Set ${kCustomTic80LocationEnvVar} to use your own build.`,
+    );
+    return new VanillaTic80Controller(projectDir);
+  }
+
   // use the built-in custom build of TIC-80
   return new CustomTic80Controller(projectDir, options);
 }
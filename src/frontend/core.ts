@@ -2,6 +2,7 @@ import { AssembleOutputResult, TicbuildProject } from "../backend/project";
 import { buildProjectSymbolIndex } from "../backend/symbolIndex";
 import { LuaCodeResource } from "../backend/importers/LuaCodeImporter";
 import { Tic80Resource } from "../backend/importers/tic80CartImporter";
+import { computeBudgetUsage } from "../backend/budgets";
 import { AssetReference } from "../backend/manifestTypes";
 import * as cons from "../utils/console";
 import { ensureDir, fileExists, readTextFileAsync, writeBinaryFile, writeTextFile } from "../utils/fileSystem";
@@ -9,6 +10,7 @@ import { canonicalizePath } from "../utils/fileSystem";
 import { formatBytes } from "../utils/utils";
 import { kTic80CartChunkTypes } from "../utils/tic80/tic80";
 import { CommandLineOptions, parseBuildOptions } from "./parseOptions";
+import { buildCodeSizeReports, writeCodeSizeReports } from "./stats";
 import { writeFileSync } from "node:fs";
 import * as path from "node:path";
 
@@ -85,14 +87,18 @@ export async function buildCore(manifestPath?: string, options?: CommandLineOpti
       const artifacts = resource.getCodeArtifacts(project.resolvedCore);
       const preprocessedPath = project.resolvedCore.resolveObjPath(`${identifier}.01.preprocessed.lua`);
       const minifiedPath = project.resolvedCore.resolveObjPath(`${identifier}.02.minified.lua`);
+      const sourceMapPath = project.resolvedCore.resolveObjPath(`${identifier}.02.minified.map.json`);
       const compressedPath = project.resolvedCore.resolveObjPath(`${identifier}.03.compressed.bin`);
 
       await writeTextFile(preprocessedPath, artifacts.preprocessedSource, "utf-8");
       await writeTextFile(minifiedPath, artifacts.minifiedSource, "utf-8");
+      const sourceMap = resource.getMinifiedSourceMap(project.resolvedCore);
+      await writeTextFile(sourceMapPath, JSON.stringify(sourceMap, null, 2), "utf-8");
       await writeBinaryFile(compressedPath, artifacts.compressedBytes);
 
       importsLines.push(`    Wrote: ${preprocessedPath}`);
       importsLines.push(`    Wrote: ${minifiedPath}`);
+      importsLines.push(`    Wrote: ${sourceMapPath}`);
       importsLines.push(`    Wrote: ${compressedPath}`);
     }
     if (resource instanceof Tic80Resource) {
@@ -119,6 +125,10 @@ export async function buildCore(manifestPath?: string, options?: CommandLineOpti
     await writeTextFile(symbolIndexPath, JSON.stringify(symbolIndex, null, 2), "utf-8");
     importsLines.push(`Symbol index: ${symbolIndexPath}`);
   }
+  if (options?.stats) {
+    const reportPath = await writeCodeSizeReports(project, await buildCodeSizeReports(project));
+    importsLines.push(`Size report: ${reportPath}`);
+  }
 
   await writeTextFile(importsLogPath, importsLines.join("\n"), "utf-8");
 
@@ -129,6 +139,8 @@ export async function buildCore(manifestPath?: string, options?: CommandLineOpti
   const assembleDuration = Date.now() - assembleStartTime;
 
   warnDeprecatedChunks(assemblyOutput);
+  logCartStats(assemblyOutput);
+  checkBudgets(project, assemblyOutput); // before writing, so an over-budget cart is never shipped
 
   const outDir = await project.resolvedCore.resolveBinPath();
   await ensureDir(outDir);
@@ -139,7 +151,8 @@ export async function buildCore(manifestPath?: string, options?: CommandLineOpti
   await writeBinaryFile(outputFilePath, output);
   const writeDuration = Date.now() - writeStartTime;
 
-  logCartStats(assemblyOutput);
+  // drop cache entries for imports which no longer exist or changed
+  project.buildCache?.prune();
 
   const totalDuration = Date.now() - buildStartTime;
   cons.success(`Build completed successfully in ${totalDuration}ms.`);
@@ -258,6 +271,46 @@ function buildCartStatsLines(
   return lines;
 }
 
+// project.budgets: logs usage of each budget; exceeding one fails the build unless budgetSeverity is "warning".
+function checkBudgets(project: TicbuildProject, assemblyOutput: AssembleOutputResult): void {
+  const projectConfig = project.resolvedCore.manifest.project;
+  if (!projectConfig.budgets) {
+    return;
+  }
+  const usage = computeBudgetUsage(projectConfig.budgets, assemblyOutput.chunks, assemblyOutput.output.length);
+  if (usage.length === 0) {
+    return;
+  }
+
+  const labelWidth = Math.max(...usage.map((u) => u.key.length), 5);
+  const sizeWidth = Math.max(...usage.map((u) => String(u.used).length));
+  const limitWidth = Math.max(...usage.map((u) => String(u.limit).length));
+  cons.h1("Budgets:");
+  const exceeded: string[] = [];
+  for (const u of usage) {
+    const label = u.key.padEnd(labelWidth, " ");
+    const sizes = `${String(u.used).padStart(sizeWidth)} / ${String(u.limit).padStart(limitWidth)} bytes`;
+    const usage = `${formatUsageMeter(u.used, u.limit)} ${formatPercent(u.used, u.limit)}`.trimEnd();
+    const line = `  ${label}  ${sizes} ${usage}`;
+    if (u.used > u.limit) {
+      cons.error(`${line}  over by ${u.used - u.limit}`);
+      exceeded.push(`${u.key} is ${u.used} bytes, over its ${u.limit} byte budget by ${u.used - u.limit}`);
+    } else {
+      cons.info(line);
+    }
+  }
+  if (exceeded.length === 0) {
+    return;
+  }
+  if (projectConfig.budgetSeverity === "warning") {
+    for (const message of exceeded) {
+      cons.warning(`Over budget: ${message}`);
+    }
+    return;
+  }
+  throw new Error(`Over budget: ${exceeded.join("; ")}`);
+}
+
 function warnDeprecatedChunks(assemblyOutput: AssembleOutputResult): void {
   const warned = new Set<string>();
   for (const chunk of assemblyOutput.chunks) {
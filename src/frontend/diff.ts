@@ -0,0 +1,128 @@
+import * as path from "node:path";
+import * as cons from "../utils/console";
+import { readBinaryFileAsync } from "../utils/fileSystem";
+import { diffLines, formatUnifiedDiff } from "../utils/textDiff";
+import { ChunkDiff, diffTic80Carts, formatIndexRanges, getCartCodeText } from "../utils/tic80/cartDiff";
+import { parseTic80Cart } from "../utils/tic80/cartLoader";
+import { Tic80Cart } from "../utils/tic80/tic80";
+
+export type DiffOptions = {
+  context?: string; // lines of context around code changes
+};
+
+const kStatusMarkers: Record<ChunkDiff["status"], string> = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+  unchanged: "=",
+};
+
+const kMaxElementRanges = 16;
+
+/////////////////////////////////////////////////////////////////////////////////
+function formatChunkLabel(diff: ChunkDiff): string {
+  return diff.bank === 0 ? diff.chunkType : `${diff.chunkType}#${diff.bank}`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function formatSizeDelta(diff: ChunkDiff): string {
+  const delta = diff.sizeB - diff.sizeA;
+  const sign = delta > 0 ? "+" : "";
+  return `${diff.sizeA} -> ${diff.sizeB} bytes (${sign}${delta})`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function formatElementSummary(diff: ChunkDiff): string | undefined {
+  if (!diff.changedElements || diff.changedElements.length === 0) {
+    return undefined;
+  }
+  const ranges = formatIndexRanges(diff.changedElements).split(", ");
+  const shown = ranges.slice(0, kMaxElementRanges).join(", ") + (ranges.length > kMaxElementRanges ? ", ..." : "");
+  return `${diff.changedElements.length} ${diff.elementName}(s) changed: ${shown}`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function printChunkDiffs(diffs: ChunkDiff[]): void {
+  const labelWidth = Math.max(...diffs.map((d) => formatChunkLabel(d).length), 5);
+  for (const diff of diffs) {
+    const label = formatChunkLabel(diff).padEnd(labelWidth, " ");
+    const line = `  ${kStatusMarkers[diff.status]} ${label}  ${formatSizeDelta(diff)}`;
+    switch (diff.status) {
+      case "unchanged":
+        cons.dim(line);
+        continue;
+      case "added":
+        cons.success(line);
+        continue;
+      case "removed":
+        cons.error(line);
+        continue;
+    }
+    cons.info(`${line}, ${diff.changedBytes} byte(s) differ`);
+    const summary = formatElementSummary(diff);
+    if (summary) {
+      cons.dim(`      ${summary}`);
+    }
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function printCodeDiff(cartA: Tic80Cart, cartB: Tic80Cart, labelA: string, labelB: string, context: number): void {
+  const codeA = getCartCodeText(cartA) ?? "";
+  const codeB = getCartCodeText(cartB) ?? "";
+  if (codeA === codeB) {
+    return;
+  }
+  const lines = formatUnifiedDiff(diffLines(codeA.split("\n"), codeB.split("\n")), labelA, labelB, context);
+  cons.h1("Code diff:");
+  for (const line of lines) {
+    if (line.startsWith("@@")) {
+      cons.info(line);
+    } else if (line.startsWith("+")) {
+      cons.success(line);
+    } else if (line.startsWith("-")) {
+      cons.error(line);
+    } else {
+      cons.dim(line);
+    }
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// compares two carts; sets a non-zero exit code when they differ (like `diff`).
+export async function diffCommand(cartPathA: string, cartPathB: string, options?: DiffOptions): Promise<void> {
+  const context = options?.context === undefined ? 3 : Number.parseInt(options.context, 10);
+  if (!Number.isInteger(context) || context < 0) {
+    throw new Error(`Invalid --context value: ${options?.context}`);
+  }
+
+  const dataA = await readBinaryFileAsync(path.resolve(process.cwd(), cartPathA));
+  const dataB = await readBinaryFileAsync(path.resolve(process.cwd(), cartPathB));
+  const cartA = parseTic80Cart(dataA);
+  const cartB = parseTic80Cart(dataB);
+
+  cons.h1("Comparing carts:");
+  cons.info(`  A: ${cartPathA} (${dataA.length} bytes, ${cartA.chunks.length} chunks)`);
+  cons.info(`  B: ${cartPathB} (${dataB.length} bytes, ${cartB.chunks.length} chunks)`);
+
+  const diffs = diffTic80Carts(cartA, cartB);
+  cons.h1("Chunks:");
+  printChunkDiffs(diffs);
+
+  printCodeDiff(cartA, cartB, cartPathA, cartPathB, context);
+
+  const count = (status: ChunkDiff["status"]) => diffs.filter((d) => d.status === status).length;
+  const summary = (["changed", "added", "removed", "unchanged"] as const).map((s) => `${count(s)} ${s}`).join(", ");
+  const identical = dataA.length === dataB.length && dataA.every((b, i) => b === dataB[i]);
+  if (identical) {
+    cons.success(`Carts are identical (${summary})`);
+    return;
+  }
+  if (count("unchanged") === diffs.length) {
+    // same chunk contents; only chunk order or padding differs
+    cons.warning(`Chunk contents match but the files differ (chunk order?)`);
+  } else {
+    cons.bold(`Carts differ: ${summary}`);
+  }
+  process.exitCode = 1;
+}
@@ -0,0 +1,61 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { extractCart } from "./extract";
+import { AssembleTic80Cart } from "../utils/tic80/cartWriter";
+import { kTic80DefaultPaletteHex, parsePaletteHex } from "../utils/tic80/graphics";
+import { Tic80CartChunk } from "../utils/tic80/tic80";
+
+function makeTiles(seed: number, length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 37 + seed) & 0xff);
+}
+
+async function extractToTemp(chunks: Tic80CartChunk[]) {
+  const cartData = await AssembleTic80Cart({ chunks }, { preserveChunkOrder: true });
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-extract-"));
+  const result = await extractCart(cartData, dir, "test", "test.ticbuild.jsonc");
+  return { dir, result };
+}
+
+describe("extractCart", () => {
+  it("should extract editable sources which rebuild the cart byte-for-byte", async () => {
+    const palette = parsePaletteHex(kTic80DefaultPaletteHex);
+    // TIC-80 saves chunks bank-first rather than sorted by type
+    const { dir, result } = await extractToTemp([
+      { chunkType: "TILES", bank: 0, data: makeTiles(1, 512) },
+      { chunkType: "MAP", bank: 0, data: new Uint8Array([1, 2, 3]) },
+      { chunkType: "PALETTE", bank: 0, data: palette },
+      { chunkType: "TILES", bank: 1, data: makeTiles(2, 8192) },
+      { chunkType: "CODE", bank: 0, data: new TextEncoder().encode("-- title: test\nfunction TIC()\n cls(0)\nend\n") },
+    ]);
+    try {
+      expect(result.identical).toBe(true);
+      expect(result.rawChunks).toEqual([]);
+      expect(fs.readFileSync(path.join(dir, "src/main.lua"), "utf-8")).toContain("function TIC()");
+      expect(fs.existsSync(path.join(dir, "assets/tiles.png"))).toBe(true);
+      expect(fs.existsSync(path.join(dir, "assets/tiles.bank1.png"))).toBe(true);
+      expect(fs.readFileSync(path.join(dir, "assets/palette.hex"), "utf-8").split("\n")[0]).toBe("1a1c2c");
+      expect(fs.existsSync(path.join(dir, "assets/map.bin"))).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep chunks raw when they don't survive the editable format", async () => {
+    // duplicate colors make the PNG ambiguous; a distinct BDR palette can't be expressed by a palette import.
+    const palette = new Uint8Array(96);
+    palette.fill(0x80, 48);
+    const { dir, result } = await extractToTemp([
+      { chunkType: "PALETTE", bank: 0, data: palette },
+      { chunkType: "SPRITES", bank: 0, data: makeTiles(3, 256) },
+    ]);
+    try {
+      expect(result.identical).toBe(true);
+      expect(result.rawChunks).toEqual(["PALETTE", "SPRITES"]);
+      expect(fs.existsSync(path.join(dir, "assets/sprites.png"))).toBe(false);
+      expect(fs.existsSync(path.join(dir, "assets/sprites.bin"))).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,327 @@
+// explodes a .tic cart into an editable ticbuild project:
+// code -> .lua, tiles/sprites -> PNG, palette -> .hex, everything else -> raw binaries.
+// the generated manifest rebuilds the same cart; anything which doesn't round-trip through
+// its editable form is kept as a raw binary import instead.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { AssemblyBlock, ImportDefinition, Manifest } from "../backend/manifestTypes";
+import { TicbuildProject } from "../backend/project";
+import * as cons from "../utils/console";
+import { encodeHexString } from "../utils/encoding/hex";
+import { copyFile, ensureDir, isDirectoryEmpty } from "../utils/fileSystem";
+import { encodePng } from "../utils/png";
+import { getPathRelativeToTemplates } from "../utils/templates";
+import { getCombinedCodeBytes, parseTic80Cart } from "../utils/tic80/cartLoader";
+import {
+  kTic80DefaultPaletteHex,
+  kTic80PaletteBytes,
+  kTic80TilesPerBank,
+  kTic80TileSize,
+  kTic80TilesPerRow,
+  parsePaletteHex,
+  unpackTilesToIndexedImage,
+} from "../utils/tic80/graphics";
+import { Tic80CartChunk, Tic80CartChunkTypeKey } from "../utils/tic80/tic80";
+import { trimTrailingZeros } from "../utils/utils";
+
+export type ExtractOptions = {
+  name?: string;
+  force?: boolean;
+};
+
+export type ExtractResult = {
+  manifestPath: string;
+  rawChunks: string[]; // code / palette / graphics chunks kept as raw binaries because they didn't round-trip
+  identical: boolean; // whether the manifest rebuilds the cart byte-for-byte
+};
+
+type ExtractedFile = {
+  path: string; // relative to the project dir
+  data: Uint8Array;
+};
+
+// one editable asset; reproduces one or more chunks of the source cart.
+type ExtractedAsset = {
+  chunks: Tic80CartChunk[];
+  files: ExtractedFile[];
+  imports: ImportDefinition[];
+  blocks: AssemblyBlock[];
+  raw: boolean;
+};
+
+// chunk types which extract to an editable format; everything else is always raw.
+const kEditableChunkTypes: Tic80CartChunkTypeKey[] = ["CODE", "PALETTE", "TILES", "SPRITES"];
+
+const kSheetWidth = kTic80TilesPerRow * kTic80TileSize;
+const kSheetHeight = (kTic80TilesPerBank / kTic80TilesPerRow) * kTic80TileSize;
+
+/////////////////////////////////////////////////////////////////////////////////
+function chunkLabel(chunk: Tic80CartChunk): string {
+  return chunk.bank === 0 ? chunk.chunkType : `${chunk.chunkType}#${chunk.bank}`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function assetName(chunk: Tic80CartChunk): string {
+  const base = chunk.chunkType.toLowerCase();
+  return chunk.bank === 0 ? base : `${base}_bank${chunk.bank}`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function assetFileName(chunk: Tic80CartChunk, ext: string): string {
+  const base = chunk.chunkType.toLowerCase();
+  return chunk.bank === 0 ? `assets/${base}${ext}` : `assets/${base}.bank${chunk.bank}${ext}`;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function rawAssetForChunks(chunks: Tic80CartChunk[]): ExtractedAsset {
+  const asset: ExtractedAsset = { chunks, files: [], imports: [], blocks: [], raw: true };
+  for (const chunk of chunks) {
+    const name = assetName(chunk);
+    const filePath = assetFileName(chunk, ".bin");
+    asset.files.push({ path: filePath, data: chunk.data });
+    asset.imports.push({ name, path: filePath, kind: "binary" });
+    asset.blocks.push({ asset: name, chunks: [chunk.chunkType], bank: chunk.bank });
+  }
+  return asset;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function codeAsset(cartChunks: Tic80CartChunk[]): ExtractedAsset {
+  const chunks = cartChunks.filter((c) => c.chunkType === "CODE");
+  const source = getCombinedCodeBytes({ chunks })!;
+  return {
+    chunks,
+    files: [{ path: "src/main.lua", data: source }],
+    imports: [{ name: "code", path: "src/main.lua", kind: "LuaCode" }],
+    blocks: [{ asset: "code", chunks: ["CODE"] }],
+    raw: false,
+  };
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// the PALETTE chunk holds the SCN palette followed by the BDR (OVR) palette.
+// palette imports can only express "BDR absent" or "BDR = copy of SCN".
+function paletteAsset(chunk: Tic80CartChunk): ExtractedAsset {
+  const data = new Uint8Array(kTic80PaletteBytes * 2);
+  data.set(chunk.data.subarray(0, data.length));
+  const scn = data.subarray(0, kTic80PaletteBytes);
+  const bdr = data.subarray(kTic80PaletteBytes);
+  const bdrIsEmpty = bdr.every((b) => b === 0);
+  const bdrIsCopy = bdr.every((b, i) => b === scn[i]);
+  if (!bdrIsEmpty && !bdrIsCopy) {
+    return rawAssetForChunks([chunk]);
+  }
+
+  const lines: string[] = [];
+  for (let i = 0; i < kTic80PaletteBytes; i += 3) {
+    lines.push(encodeHexString(scn.subarray(i, i + 3)));
+  }
+  const filePath = assetFileName(chunk, ".hex");
+  const importDef: ImportDefinition = { name: "palette", path: filePath, kind: "palette" };
+  if (!bdrIsEmpty) {
+    importDef.paletteIncludeBdr = true;
+  }
+  return {
+    chunks: [chunk],
+    files: [{ path: filePath, data: new TextEncoder().encode(lines.join("\n") + "\n") }],
+    imports: [importDef],
+    blocks: [{ asset: "palette", chunks: ["PALETTE"] }],
+    raw: false,
+  };
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// tiles and sprites are written as full 128x128 sheets in the cart's palette.
+function tileSheetAsset(chunk: Tic80CartChunk, palette: Uint8Array, paletteRef: string): ExtractedAsset {
+  const indices = unpackTilesToIndexedImage(chunk.data, kSheetWidth, kSheetHeight);
+  const rgba = new Uint8Array(indices.length * 4);
+  for (let i = 0; i < indices.length; i++) {
+    rgba[i * 4] = palette[indices[i] * 3];
+    rgba[i * 4 + 1] = palette[indices[i] * 3 + 1];
+    rgba[i * 4 + 2] = palette[indices[i] * 3 + 2];
+    rgba[i * 4 + 3] = 255;
+  }
+  const name = assetName(chunk);
+  const filePath = assetFileName(chunk, ".png");
+  return {
+    chunks: [chunk],
+    files: [{ path: filePath, data: encodePng({ width: kSheetWidth, height: kSheetHeight, data: rgba }) }],
+    imports: [{ name, path: filePath, kind: "image", palette: paletteRef }],
+    blocks: [{ asset: name, chunks: [chunk.chunkType], bank: chunk.bank }],
+    raw: false,
+  };
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// one asset per editable unit, in the order their first chunk appears in the cart.
+function planAssets(cartChunks: Tic80CartChunk[]): ExtractedAsset[] {
+  const paletteChunk = cartChunks.find((c) => c.chunkType === "PALETTE" && c.bank === 0);
+  const palette = paletteChunk ? paletteAsset(paletteChunk) : undefined;
+  const paletteColors = paletteChunk
+    ? Uint8Array.from({ length: kTic80PaletteBytes }, (_, i) => paletteChunk.data[i] ?? 0)
+    : parsePaletteHex(kTic80DefaultPaletteHex);
+  const paletteRef = palette && !palette.raw ? "import:palette" : encodeHexString(paletteColors);
+
+  const assets: ExtractedAsset[] = [];
+  let codeEmitted = false;
+  for (const chunk of cartChunks) {
+    switch (chunk.chunkType) {
+      case "CODE":
+        if (!codeEmitted) {
+          assets.push(codeAsset(cartChunks));
+          codeEmitted = true;
+        }
+        break;
+      case "PALETTE":
+        assets.push(chunk === paletteChunk ? palette! : rawAssetForChunks([chunk]));
+        break;
+      case "TILES":
+      case "SPRITES":
+        assets.push(tileSheetAsset(chunk, paletteColors, paletteRef));
+        break;
+      default:
+        assets.push(rawAssetForChunks([chunk]));
+        break;
+    }
+  }
+  return assets;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function buildManifest(projectName: string, assets: ExtractedAsset[]): Manifest {
+  return {
+    $schema: "./.ticbuild/ticbuild.schema.json",
+    project: {
+      name: projectName,
+      binDir: "./build/$(buildConfiguration)-bin",
+      objDir: "./build/$(buildConfiguration)-obj",
+      outputCartName: "$(project.name).tic",
+    },
+    imports: assets.flatMap((a) => a.imports),
+    assembly: {
+      // TIC-80 doesn't save chunks sorted by type; keep the original order.
+      preserveChunkOrder: true,
+      lua: {
+        minify: false,
+      },
+      blocks: assets.flatMap((a) => a.blocks),
+    },
+  } as Manifest;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function writeProjectFiles(projectDir: string, manifestPath: string, projectName: string, assets: ExtractedAsset[]) {
+  for (const asset of assets) {
+    for (const file of asset.files) {
+      const filePath = path.join(projectDir, file.path);
+      ensureDir(path.dirname(filePath));
+      fs.writeFileSync(filePath, file.data);
+    }
+  }
+  const manifest = buildManifest(projectName, assets);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 4) + "\n", "utf-8");
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function removeAssetFiles(projectDir: string, asset: ExtractedAsset) {
+  for (const file of asset.files) {
+    fs.rmSync(path.join(projectDir, file.path), { force: true });
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// whether every chunk of the asset was rebuilt with the original data.
+function assetRoundTrips(asset: ExtractedAsset, rebuiltChunks: Tic80CartChunk[]): boolean {
+  return asset.chunks.every((original) => {
+    const rebuilt = rebuiltChunks.find((c) => c.chunkType === original.chunkType && c.bank === original.bank);
+    return !!rebuilt && bytesEqual(trimTrailingZeros(rebuilt.data), trimTrailingZeros(original.data));
+  });
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+export async function extractCart(
+  cartData: Uint8Array,
+  projectDir: string,
+  projectName: string,
+  manifestName: string,
+): Promise<ExtractResult> {
+  const cart = parseTic80Cart(cartData);
+  const assets = planAssets(cart.chunks);
+  const manifestPath = path.join(projectDir, manifestName);
+
+  // rebuild with the generated manifest; anything that fails to load or differs becomes raw.
+  // code goes first because it's the most likely thing to fail (preprocessor directives, non-UTF-8 text).
+  while (true) {
+    writeProjectFiles(projectDir, manifestPath, projectName, assets);
+    let rebuiltChunks: Tic80CartChunk[];
+    let output: Uint8Array;
+    try {
+      const project = TicbuildProject.loadFromManifest({ manifestPath });
+      await project.loadImports();
+      ({ output, chunks: rebuiltChunks } = await project.assembleOutput());
+    } catch (e) {
+      const suspects = assets.filter((a) => !a.raw);
+      if (suspects.length === 0) {
+        throw e;
+      }
+      const suspect = suspects.find((a) => a.imports.some((i) => i.kind === "LuaCode")) || suspects[0];
+      const labels = suspect.chunks.map(chunkLabel).join(", ");
+      cons.warning(`Rebuild failed (${(e as Error).message}); keeping ${labels} as raw binary`);
+      removeAssetFiles(projectDir, suspect);
+      assets.splice(assets.indexOf(suspect), 1, rawAssetForChunks(suspect.chunks));
+      continue;
+    }
+
+    const mismatched = assets.filter((a) => !a.raw && !assetRoundTrips(a, rebuiltChunks));
+    if (mismatched.length === 0) {
+      return {
+        manifestPath,
+        rawChunks: assets
+          .filter((a) => a.raw)
+          .flatMap((a) => a.chunks.filter((c) => kEditableChunkTypes.includes(c.chunkType)).map(chunkLabel)),
+        identical: bytesEqual(output, cartData),
+      };
+    }
+    for (const asset of mismatched) {
+      removeAssetFiles(projectDir, asset);
+      assets.splice(assets.indexOf(asset), 1, rawAssetForChunks(asset.chunks));
+    }
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+export async function extractCommand(cartPath: string, targetDir?: string, options?: ExtractOptions): Promise<void> {
+  const resolvedCartPath = path.resolve(process.cwd(), cartPath);
+  const cartBaseName = path.basename(resolvedCartPath, path.extname(resolvedCartPath));
+  const resolvedDir = path.resolve(process.cwd(), targetDir || cartBaseName);
+  ensureDir(resolvedDir);
+
+  if (!options?.force && !isDirectoryEmpty(resolvedDir)) {
+    throw new Error(`Target directory is not empty: ${resolvedDir} (use --force to overwrite)`);
+  }
+
+  const projectName = options?.name?.trim() || cartBaseName;
+  const cartData = new Uint8Array(fs.readFileSync(resolvedCartPath));
+
+  const force = options?.force === true;
+  const schemaSourcePath = path.resolve(__dirname, "..", "..", "ticbuild.schema.json");
+  copyFile(schemaSourcePath, path.join(resolvedDir, ".ticbuild/ticbuild.schema.json"), force);
+  copyFile(getPathRelativeToTemplates("gitignore.template"), path.join(resolvedDir, ".gitignore"), force);
+
+  const result = await extractCart(cartData, resolvedDir, projectName, `${cartBaseName}.ticbuild.jsonc`);
+
+  for (const chunk of result.rawChunks) {
+    cons.warning(`${chunk} could not be extracted to an editable format; kept as raw binary`);
+  }
+  if (!result.identical) {
+    cons.warning(`The generated manifest does not rebuild ${cartPath} byte-for-byte`);
+  }
+  cons.success(`Extracted ${cartPath} to ${resolvedDir}`);
+  cons.info(`  Manifest: ${result.manifestPath}`);
+}
@@ -0,0 +1,167 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { TicbuildProject } from "../backend/project";
+import { encodeLspMessage, LspDiagnostic, LspMessage, LspMessageReader, TicbuildLanguageServer } from "./lsp";
+
+type PublishDiagnosticsParams = { uri: string; diagnostics: LspDiagnostic[] };
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf-8");
+}
+
+describe("lsp", () => {
+  let dir: string;
+  let sent: LspMessage[];
+  let server: TicbuildLanguageServer;
+  let nextId: number;
+
+  const uriOf = (file: string) => pathToFileURL(path.join(dir, file)).href;
+  const request = async (method: string, params: unknown) => {
+    const id = nextId++;
+    await server.handleMessage({ jsonrpc: "2.0", id, method, params });
+    return sent.find((m) => m.id === id)!;
+  };
+  const notify = (method: string, params: unknown) => server.handleMessage({ jsonrpc: "2.0", method, params });
+  const diagnosticsFor = (file: string) =>
+    sent
+      .filter((m) => m.method === "textDocument/publishDiagnostics")
+      .map((m) => m.params as PublishDiagnosticsParams)
+      .filter((params) => params.uri === uriOf(file))
+      .pop()!.diagnostics;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-lsp-"));
+    writeFile(path.join(dir, "util.lua"), "--- Clamps a value.\nfunction clamp(v, lo, hi)\n  return v\nend\n");
+    writeFile(path.join(dir, "main.lua"), '--#include "util.lua"\nfunction TIC()\nend\n');
+    const manifest = {
+      project: { name: "test", binDir: "./bin", objDir: "./obj", outputCartName: "out.tic" },
+      imports: [{ name: "maincode", path: "main.lua", kind: "LuaCode" }],
+      assembly: { blocks: [{ chunks: ["CODE"], asset: "maincode" }] },
+    };
+    const manifestPath = path.join(dir, "project.ticbuild.jsonc");
+    writeFile(manifestPath, JSON.stringify(manifest));
+
+    const project = TicbuildProject.loadFromManifest({ manifestPath });
+    sent = [];
+    nextId = 1;
+    server = new TicbuildLanguageServer(project.resolvedCore, (message) => sent.push(message));
+    await request("initialize", { capabilities: {} });
+    await notify("initialized", {});
+  });
+
+  afterEach(() => {
+    server.dispose();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should split messages on Content-Length, across chunks", () => {
+    const bytes = Buffer.concat([
+      encodeLspMessage({ id: 1, method: "initialize", params: { name: "ü" } }),
+      encodeLspMessage({ method: "initialized", params: {} }),
+    ]);
+    const reader = new LspMessageReader();
+    const first = reader.feed(bytes.subarray(0, 10));
+    const rest = reader.feed(bytes.subarray(10));
+
+    expect(first).toEqual([]);
+    expect(rest.map((m) => m.method)).toEqual(["initialize", "initialized"]);
+    expect(rest[0].params).toEqual({ name: "ü" });
+  });
+
+  it("should drop a malformed message and read the ones after it", () => {
+    const reader = new LspMessageReader();
+    const bad = Buffer.from("Content-Length: 5\r\n\r\n{bad}", "utf-8");
+    const next = encodeLspMessage({ method: "initialized", params: {} });
+
+    expect(() => reader.feed(Buffer.concat([bad, next]))).toThrow();
+    expect(reader.feed(Buffer.alloc(0)).map((m) => m.method)).toEqual(["initialized"]);
+    expect(() => reader.feed(Buffer.from("X-Header: 1\r\n\r\n", "ascii"))).toThrow("Content-Length");
+    expect(reader.feed(next).map((m) => m.method)).toEqual(["initialized"]);
+  });
+
+  it("should answer requests with invalid params with an InvalidParams error", async () => {
+    const response = await request("textDocument/hover", { textDocument: { uri: uriOf("main.lua") } });
+    expect(response.error).toEqual({ code: -32602, message: "position must be an object" });
+
+    const missingUri = await request("textDocument/documentSymbol", { textDocument: {} });
+    expect(missingUri.error?.message).toBe("textDocument.uri must be a string");
+  });
+
+  it("should answer definition, hover and references using unsaved text", async () => {
+    const text = '--#include "util.lua"\nfunction TIC()\n  clamp(1, 0, 2)\nend\n';
+    await notify("textDocument/didOpen", { textDocument: { uri: uriOf("main.lua"), text } });
+    const position = { line: 2, character: 3 };
+
+    const definition = await request("textDocument/definition", { textDocument: { uri: uriOf("main.lua") }, position });
+    expect(definition.result).toEqual({
+      uri: uriOf("util.lua"),
+      range: { start: { line: 1, character: 9 }, end: { line: 1, character: 14 } },
+    });
+
+    const hover = await request("textDocument/hover", { textDocument: { uri: uriOf("main.lua") }, position });
+    expect((hover.result as any).contents.value).toContain("function clamp(v, lo, hi)\n```\n\nClamps a value.");
+
+    const references = await request("textDocument/references", {
+      textDocument: { uri: uriOf("main.lua") },
+      position,
+      context: { includeDeclaration: true },
+    });
+    expect((references.result as any[]).map((l) => [l.uri, l.range.start.line]).sort()).toEqual([
+      [uriOf("main.lua"), 2],
+      [uriOf("util.lua"), 1],
+    ]);
+
+    const symbols = await request("textDocument/documentSymbol", { textDocument: { uri: uriOf("util.lua") } });
+    expect((symbols.result as any[]).map((s) => s.name)).toEqual(["clamp"]);
+  });
+
+  it("should publish preprocessor errors as diagnostics, and clear them once fixed", async () => {
+    const uri = uriOf("main.lua");
+    await notify("textDocument/didOpen", { textDocument: { uri, text: '--#include "missing.lua"\n' } });
+    await request("textDocument/hover", { textDocument: { uri }, position: { line: 0, character: 0 } });
+
+    const [diagnostic] = diagnosticsFor("main.lua");
+    expect(diagnostic.range.start.line).toBe(0);
+    expect(diagnostic.message).toContain("missing.lua");
+
+    await notify("textDocument/didOpen", { textDocument: { uri, text: "function TIC()\nend\n" } });
+    await request("textDocument/hover", { textDocument: { uri }, position: { line: 0, character: 0 } });
+    expect(diagnosticsFor("main.lua")).toEqual([]);
+  });
+
+  it("should answer queries right after a change with the changed text", async () => {
+    const uri = uriOf("main.lua");
+    await notify("textDocument/didOpen", { textDocument: { uri, text: "function TIC()\nend\n" } });
+    await request("textDocument/documentSymbol", { textDocument: { uri } });
+    const text = "function spin()\nend\nfunction TIC()\n  spin()\nend\n";
+    await notify("textDocument/didChange", { textDocument: { uri }, contentChanges: [{ text }] });
+
+    const position = { line: 3, character: 3 };
+    const definition = await request("textDocument/definition", { textDocument: { uri }, position });
+    expect((definition.result as any)?.range.start).toEqual({ line: 0, character: 9 });
+  });
+
+  it("should keep a file's last good symbols while it has preprocessor errors", async () => {
+    const uri = uriOf("main.lua");
+    const text = '--#include "util.lua"\n--#include "missing.lua"\nfunction TIC()\nend\n';
+    await notify("textDocument/didOpen", { textDocument: { uri, text } });
+
+    const symbols = await request("textDocument/documentSymbol", { textDocument: { uri: uriOf("util.lua") } });
+    expect((symbols.result as any[]).map((s) => s.name)).toEqual(["clamp"]);
+    expect(diagnosticsFor("main.lua")[0].message).toContain("missing.lua");
+  });
+
+  it("should report Lua syntax errors in the file they come from", async () => {
+    writeFile(path.join(dir, "util.lua"), "function clamp(v)\n  return v +\nend\n");
+    await notify("textDocument/didSave", { textDocument: { uri: uriOf("util.lua") } });
+    server.dispose();
+    await server.refresh();
+
+    const [diagnostic] = diagnosticsFor("util.lua");
+    expect(diagnostic.range.start.line).toBe(2);
+    expect(diagnostic.message).toBe("<expression> expected near 'end'");
+  });
+});
@@ -0,0 +1,586 @@
+// `ticbuild lsp`: a Language Server Protocol server on stdio, for editors.
+//
+// the project's Lua imports are preprocessed with the editor's unsaved text (so includes, macros and
+// `--#if` work as in a build), then indexed. the index is rebuilt shortly after documents change (or
+// before the next query) and answers definition, references, hover, document symbols and completion.
+// preprocessor and Lua syntax errors become diagnostics; a file with preprocessor errors keeps its last
+// good symbols.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import * as luaparse from "luaparse";
+import { buildInfo } from "../buildInfo";
+import { LuaPreprocessResult, parsePreprocessorError, preprocessLuaCode } from "../backend/luaPreprocessor";
+import { kImportKind } from "../backend/manifestTypes";
+import { TicbuildProject } from "../backend/project";
+import { TicbuildProjectCore } from "../backend/projectCore";
+import { mapPreprocessedOffset } from "../backend/sourceMap";
+import {
+  buildSymbolIndexFromPreprocessed,
+  normalizePath,
+  ProjectIndex,
+  resolveIndexedFilePath,
+  Span,
+  SymbolInfo,
+} from "../backend/symbolIndex";
+import {
+  findNameOccurrences,
+  findSymbolAt,
+  formatSymbolHover,
+  formatSymbolSignature,
+  listVisibleSymbols,
+} from "../backend/symbolQueries";
+import { readTextFileAsync } from "../utils/fileSystem";
+import { CommandLineOptions, parseBuildOptions } from "./parseOptions";
+
+export type LspMessage = {
+  jsonrpc?: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+export type LspPosition = { line: number; character: number };
+export type LspRange = { start: LspPosition; end: LspPosition };
+export type LspLocation = { uri: string; range: LspRange };
+export type LspDiagnostic = { range: LspRange; severity: number; source: string; message: string };
+
+// params of the handled methods; only the fields read here.
+type TextDocumentParams = { textDocument: { uri: string } };
+type TextDocumentPositionParams = TextDocumentParams & { position: LspPosition };
+type DidOpenTextDocumentParams = { textDocument: { uri: string; text: string } };
+type DidChangeTextDocumentParams = TextDocumentParams & { contentChanges: { text: string }[] };
+type ReferenceParams = TextDocumentPositionParams & { context?: { includeDeclaration?: boolean } };
+
+const kRefreshDelayMs = 250;
+const kDiagnosticSeverityError = 1;
+const kSymbolKindFunction = 12;
+const kSymbolKindVariable = 13;
+const kCompletionKindFunction = 3;
+const kCompletionKindVariable = 6;
+const kErrorInvalidParams = -32602;
+const kErrorMethodNotFound = -32601;
+const kErrorInternal = -32603;
+
+class LspError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// checks the params of a message before a handler reads them; failures answer with InvalidParams.
+function paramObject(value: unknown, what: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new LspError(kErrorInvalidParams, `${what} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function paramString(value: unknown, what: string): string {
+  if (typeof value !== "string") {
+    throw new LspError(kErrorInvalidParams, `${what} must be a string`);
+  }
+  return value;
+}
+
+function paramNumber(value: unknown, what: string): number {
+  if (typeof value !== "number") {
+    throw new LspError(kErrorInvalidParams, `${what} must be a number`);
+  }
+  return value;
+}
+
+function readTextDocumentParams(params: unknown): TextDocumentParams {
+  const textDocument = paramObject(paramObject(params, "params").textDocument, "textDocument");
+  return { textDocument: { uri: paramString(textDocument.uri, "textDocument.uri") } };
+}
+
+function readPositionParams(params: unknown): TextDocumentPositionParams {
+  const position = paramObject(paramObject(params, "params").position, "position");
+  return {
+    ...readTextDocumentParams(params),
+    position: {
+      line: paramNumber(position.line, "position.line"),
+      character: paramNumber(position.character, "position.character"),
+    },
+  };
+}
+
+function readDidOpenParams(params: unknown): DidOpenTextDocumentParams {
+  const textDocument = paramObject(paramObject(params, "params").textDocument, "textDocument");
+  return {
+    textDocument: {
+      uri: paramString(textDocument.uri, "textDocument.uri"),
+      text: paramString(textDocument.text, "textDocument.text"),
+    },
+  };
+}
+
+function readDidChangeParams(params: unknown): DidChangeTextDocumentParams {
+  const changes = paramObject(params, "params").contentChanges;
+  if (!Array.isArray(changes)) {
+    throw new LspError(kErrorInvalidParams, "contentChanges must be an array");
+  }
+  return {
+    ...readTextDocumentParams(params),
+    contentChanges: changes.map((change, i) => ({
+      text: paramString(paramObject(change, `contentChanges[${i}]`).text, `contentChanges[${i}].text`),
+    })),
+  };
+}
+
+function readReferenceParams(params: unknown): ReferenceParams {
+  const context = paramObject(params, "params").context;
+  const includeDeclaration = context === undefined ? undefined : paramObject(context, "context").includeDeclaration;
+  if (includeDeclaration !== undefined && typeof includeDeclaration !== "boolean") {
+    throw new LspError(kErrorInvalidParams, "context.includeDeclaration must be a boolean");
+  }
+  return { ...readPositionParams(params), context: { includeDeclaration } };
+}
+
+// splits the incoming byte stream into messages (`Content-Length` header, blank line, JSON body).
+// a malformed message is dropped before feed() throws, so feeding more data carries on after it.
+export class LspMessageReader {
+  private buffer = Buffer.alloc(0);
+
+  feed(chunk: Buffer): LspMessage[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: LspMessage[] = [];
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) {
+        return messages;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const match = /^content-length:\s*(\d+)\s*$/im.exec(header);
+      if (!match) {
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        throw new Error(`LSP message header without Content-Length: ${JSON.stringify(header)}`);
+      }
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) {
+        return messages;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString("utf-8");
+      this.buffer = this.buffer.subarray(bodyEnd);
+      messages.push(JSON.parse(body) as LspMessage);
+    }
+  }
+}
+
+export function encodeLspMessage(message: LspMessage): Buffer {
+  const body = Buffer.from(JSON.stringify({ jsonrpc: "2.0", ...message }), "utf-8");
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "ascii"), body]);
+}
+
+// LSP characters are UTF-16 code units, the same as JS string offsets.
+export function offsetToPosition(text: string, offset: number): LspPosition {
+  let line = 0;
+  let lineStart = 0;
+  for (let i = text.indexOf("\n"); i !== -1 && i < offset; i = text.indexOf("\n", i + 1)) {
+    line++;
+    lineStart = i + 1;
+  }
+  return { line, character: Math.max(0, offset - lineStart) };
+}
+
+export function positionToOffset(text: string, position: LspPosition): number {
+  let lineStart = 0;
+  for (let line = 0; line < position.line; line++) {
+    const eol = text.indexOf("\n", lineStart);
+    if (eol === -1) {
+      return text.length;
+    }
+    lineStart = eol + 1;
+  }
+  const eol = text.indexOf("\n", lineStart);
+  const lineEnd = eol === -1 ? text.length : eol;
+  return Math.min(lineStart + position.character, lineEnd);
+}
+
+function spanToRange(text: string, span: Span): LspRange {
+  return { start: offsetToPosition(text, span.start), end: offsetToPosition(text, span.start + span.length) };
+}
+
+// the whole of a 1-based line
+function lineRange(text: string, lineNumber: number): LspRange {
+  const line = Math.max(0, lineNumber - 1);
+  const start = positionToOffset(text, { line, character: 0 });
+  const eol = text.indexOf("\n", start);
+  return spanToRange(text, { start, length: (eol === -1 ? text.length : eol) - start });
+}
+
+function isMember(symbol: SymbolInfo): boolean {
+  return /[.:]/.test(symbol.name);
+}
+
+// luaparse's error for the preprocessed code, mapped back to the original file.
+function findLuaSyntaxError(result: LuaPreprocessResult): { file: string; offset: number; message: string } | null {
+  try {
+    luaparse.parse(result.code, { luaVersion: "5.3" });
+    return null;
+  } catch (error) {
+    const { index, message } = error as { index?: number; message?: string };
+    if (typeof index !== "number") {
+      throw error;
+    }
+    const location =
+      mapPreprocessedOffset(result.sourceMap, index) ?? mapPreprocessedOffset(result.sourceMap, index - 1);
+    if (!location) {
+      return null;
+    }
+    return { file: location.file, offset: location.offset, message: (message ?? "").replace(/^\[\d+:\d+\] /, "") };
+  }
+}
+
+export class TicbuildLanguageServer {
+  private readonly project: TicbuildProjectCore;
+  private readonly send: (message: LspMessage) => void;
+  private readonly documents = new Map<string, string>(); // absolute path -> editor text
+  private index: ProjectIndex | null = null;
+  private indexReady: Promise<void> = Promise.resolve();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private lastGoodResults = new Map<string, LuaPreprocessResult>(); // import path -> last result that preprocessed
+  private diagnosedUris = new Set<string>(); // files with diagnostics published, to clear them later
+  shutdownRequested = false;
+
+  constructor(project: TicbuildProjectCore, send: (message: LspMessage) => void) {
+    this.project = project;
+    this.send = send;
+  }
+
+  // handles a request or notification; requests get a response through `send`.
+  async handleMessage(message: LspMessage): Promise<void> {
+    if (!message.method) {
+      return; // a response; the server sends no requests
+    }
+    const isRequest = message.id !== undefined;
+    try {
+      const result = await this.dispatch(message.method, message.params);
+      if (isRequest) {
+        this.send({ id: message.id, result: result ?? null });
+      }
+    } catch (error) {
+      const text = error instanceof Error ? error.message : String(error);
+      if (isRequest) {
+        const code = error instanceof LspError ? error.code : kErrorInternal;
+        this.send({ id: message.id, error: { code, message: text } });
+      } else {
+        console.error(`[lsp] ${message.method}: ${text}`);
+      }
+    }
+  }
+
+  private async dispatch(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case "initialize":
+        return {
+          capabilities: {
+            textDocumentSync: { openClose: true, change: 1, save: true }, // full text on change
+            definitionProvider: true,
+            referencesProvider: true,
+            hoverProvider: true,
+            documentSymbolProvider: true,
+            completionProvider: {},
+          },
+          serverInfo: { name: "ticbuild", version: buildInfo.version },
+        };
+      case "initialized":
+        this.startRefresh();
+        return undefined;
+      case "shutdown":
+        this.shutdownRequested = true;
+        this.dispose();
+        return null;
+      case "exit":
+        this.dispose();
+        return undefined;
+      case "textDocument/didOpen": {
+        const { textDocument } = readDidOpenParams(params);
+        this.documents.set(uriToPath(textDocument.uri), textDocument.text);
+        this.startRefresh();
+        return undefined;
+      }
+      case "textDocument/didChange": {
+        const { textDocument, contentChanges } = readDidChangeParams(params);
+        if (contentChanges.length > 0) {
+          this.documents.set(uriToPath(textDocument.uri), contentChanges[contentChanges.length - 1].text);
+        }
+        this.scheduleRefresh();
+        return undefined;
+      }
+      case "textDocument/didClose":
+        this.documents.delete(uriToPath(readTextDocumentParams(params).textDocument.uri));
+        this.scheduleRefresh();
+        return undefined;
+      case "textDocument/didSave":
+        this.scheduleRefresh();
+        return undefined;
+      case "textDocument/definition": {
+        const { textDocument, position } = readPositionParams(params);
+        return this.definition(textDocument.uri, position);
+      }
+      case "textDocument/references": {
+        const { textDocument, position, context } = readReferenceParams(params);
+        return this.references(textDocument.uri, position, context?.includeDeclaration ?? true);
+      }
+      case "textDocument/hover": {
+        const { textDocument, position } = readPositionParams(params);
+        return this.hover(textDocument.uri, position);
+      }
+      case "textDocument/documentSymbol":
+        return this.documentSymbols(readTextDocumentParams(params).textDocument.uri);
+      case "textDocument/completion": {
+        const { textDocument, position } = readPositionParams(params);
+        return this.completion(textDocument.uri, position);
+      }
+      default:
+        if (method.startsWith("$/")) {
+          return undefined; // optional notifications (e.g. $/cancelRequest, $/setTrace)
+        }
+        throw new LspError(kErrorMethodNotFound, `Unhandled method: ${method}`);
+    }
+  }
+
+  // stops pending refreshes
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private scheduleRefresh(): void {
+    this.dispose();
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.startRefresh();
+    }, kRefreshDelayMs);
+  }
+
+  private startRefresh(): void {
+    this.indexReady = this.indexReady
+      .then(() => this.refresh())
+      .catch((error) => console.error(`[lsp] refresh failed: ${error instanceof Error ? error.message : error}`));
+  }
+
+  // runs a pending debounced refresh right away, so queries don't pair new text with the old index
+  private async waitForIndex(): Promise<void> {
+    if (this.refreshTimer) {
+      this.dispose();
+      this.startRefresh();
+    }
+    await this.indexReady;
+  }
+
+  // preprocesses every Lua code import, rebuilds the symbol index and publishes diagnostics.
+  async refresh(): Promise<void> {
+    const core = this.project;
+    const results: LuaPreprocessResult[] = [];
+    const diagnostics = new Map<string, LspDiagnostic[]>(); // uri -> diagnostics
+    const report = (filePath: string, range: (text: string) => LspRange, message: string) => {
+      const absPath = path.resolve(core.projectDir, filePath);
+      const uri = pathToUri(absPath);
+      const list = diagnostics.get(uri) ?? [];
+      const diagnostic = { range: range(this.getText(absPath)), severity: kDiagnosticSeverityError, message };
+      list.push({ ...diagnostic, source: "ticbuild" });
+      diagnostics.set(uri, list);
+    };
+
+    for (const importDef of core.manifest.imports) {
+      if (importDef.kind !== kImportKind.key.LuaCode) {
+        continue;
+      }
+      const filePath = core.resolveImportPath(importDef);
+      try {
+        const source = await this.readSource(filePath);
+        const result = await preprocessLuaCode(core, source, filePath, {
+          readSourceFile: (file) => this.readSource(file),
+        });
+        results.push(result);
+        this.lastGoodResults.set(filePath, result);
+        const syntaxError = findLuaSyntaxError(result);
+        if (syntaxError) {
+          const span = { start: syntaxError.offset, length: 1 };
+          report(syntaxError.file, (text) => spanToRange(text, span), syntaxError.message);
+        }
+      } catch (error) {
+        // keep the file's symbols from its last good state while it's being edited
+        const lastGood = this.lastGoodResults.get(filePath);
+        if (lastGood) {
+          results.push(lastGood);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        const located = parsePreprocessorError(message);
+        if (located) {
+          report(located.filePath, (text) => lineRange(text, located.lineNumber), located.message);
+        } else {
+          report(filePath, (text) => lineRange(text, 1), message);
+        }
+      }
+    }
+
+    this.index = await buildSymbolIndexFromPreprocessed(core, results);
+
+    for (const uri of this.diagnosedUris) {
+      if (!diagnostics.has(uri)) {
+        this.send({ method: "textDocument/publishDiagnostics", params: { uri, diagnostics: [] } });
+      }
+    }
+    for (const [uri, list] of diagnostics) {
+      this.send({ method: "textDocument/publishDiagnostics", params: { uri, diagnostics: list } });
+    }
+    this.diagnosedUris = new Set(diagnostics.keys());
+  }
+
+  private async readSource(filePath: string): Promise<string> {
+    return this.documents.get(path.resolve(filePath)) ?? readTextFileAsync(filePath);
+  }
+
+  private getText(absPath: string): string {
+    const open = this.documents.get(absPath);
+    if (open !== undefined) {
+      return open;
+    }
+    try {
+      return fs.readFileSync(absPath, "utf-8");
+    } catch {
+      return "";
+    }
+  }
+
+  private fileKey(uri: string): string {
+    return normalizePath(this.project.projectDir, uriToPath(uri));
+  }
+
+  private location(fileKey: string, span: Span): LspLocation {
+    const absPath = resolveIndexedFilePath(this.project.projectDir, fileKey);
+    return { uri: pathToUri(absPath), range: spanToRange(this.getText(absPath), span) };
+  }
+
+  // the index and the document text and offset at a position
+  private async lookup(uri: string, position: LspPosition) {
+    await this.waitForIndex();
+    const text = this.getText(uriToPath(uri));
+    return { index: this.index, fileKey: this.fileKey(uri), text, offset: positionToOffset(text, position) };
+  }
+
+  private async definition(uri: string, position: LspPosition): Promise<LspLocation | null> {
+    const { index, fileKey, text, offset } = await this.lookup(uri, position);
+    const found = index ? findSymbolAt(index, fileKey, text, offset) : null;
+    return found ? this.location(found.file, found.symbol.selectionRange) : null;
+  }
+
+  private async references(uri: string, position: LspPosition, includeDeclaration: boolean): Promise<LspLocation[]> {
+    const { index, fileKey, text, offset } = await this.lookup(uri, position);
+    const target = index ? findSymbolAt(index, fileKey, text, offset) : null;
+    if (!index || !target) {
+      return [];
+    }
+    const locations: LspLocation[] = [];
+    const declaration = target.symbol.selectionRange;
+    // locals can only be referenced from their own file
+    const files = target.symbol.visibility === "local" ? [target.file] : Object.keys(index.files);
+    for (const key of files) {
+      const fileText = this.getText(resolveIndexedFilePath(this.project.projectDir, key));
+      for (const start of findNameOccurrences(fileText, target.symbol.name)) {
+        if (findSymbolAt(index, key, fileText, start)?.symbol.symbolId !== target.symbol.symbolId) {
+          continue;
+        }
+        if (!includeDeclaration && key === target.file && start === declaration.start) {
+          continue;
+        }
+        locations.push(this.location(key, { start, length: target.symbol.name.length }));
+      }
+    }
+    return locations;
+  }
+
+  private async hover(uri: string, position: LspPosition) {
+    const { index, fileKey, text, offset } = await this.lookup(uri, position);
+    const found = index ? findSymbolAt(index, fileKey, text, offset) : null;
+    return index && found ? { contents: { kind: "markdown", value: formatSymbolHover(index, found) } } : null;
+  }
+
+  private async documentSymbols(uri: string) {
+    await this.waitForIndex();
+    const file = this.index?.files[this.fileKey(uri)];
+    if (!file) {
+      return [];
+    }
+    const text = this.getText(uriToPath(uri));
+    return Object.values(file.symbols)
+      .filter((symbol) => symbol.kind !== "param")
+      .map((symbol) => ({
+        name: symbol.name,
+        kind: symbol.callable ? kSymbolKindFunction : kSymbolKindVariable,
+        location: { uri, range: spanToRange(text, symbol.range) },
+      }));
+  }
+
+  private async completion(uri: string, position: LspPosition) {
+    const { index, fileKey, offset } = await this.lookup(uri, position);
+    if (!index) {
+      return [];
+    }
+    return listVisibleSymbols(index, fileKey, offset)
+      .filter(({ symbol }) => !isMember(symbol))
+      .map((resolved) => ({
+        label: resolved.symbol.name,
+        kind: resolved.symbol.callable ? kCompletionKindFunction : kCompletionKindVariable,
+        detail: formatSymbolSignature(index, resolved),
+        documentation: resolved.symbol.doc?.description
+          ? { kind: "markdown", value: resolved.symbol.doc.description }
+          : undefined,
+      }));
+  }
+}
+
+function uriToPath(uri: string): string {
+  return path.resolve(fileURLToPath(uri));
+}
+
+function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+export async function lspCommand(manifestPath?: string, options?: CommandLineOptions): Promise<void> {
+  // stdout carries the protocol; anything else logged goes to stderr.
+  console.log = console.error;
+  const project = TicbuildProject.loadFromManifest(parseBuildOptions(manifestPath, options));
+  const server = new TicbuildLanguageServer(project.resolvedCore, (message) => {
+    process.stdout.write(encodeLspMessage(message));
+  });
+  const reader = new LspMessageReader();
+  await new Promise<void>((resolve) => {
+    process.stdin.on("data", (chunk: Buffer) => {
+      // a malformed message is logged and skipped; the rest of the stream is still read.
+      for (let data = chunk; ; data = Buffer.alloc(0)) {
+        let messages: LspMessage[];
+        try {
+          messages = reader.feed(data);
+        } catch (error) {
+          console.error(`[lsp] ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        for (const message of messages) {
+          void server.handleMessage(message);
+          if (message.method === "exit") {
+            resolve();
+          }
+        }
+        return;
+      }
+    });
+    process.stdin.on("end", () => resolve());
+  });
+  server.dispose();
+  process.exit(server.shutdownRequested ? 0 : 1);
+}
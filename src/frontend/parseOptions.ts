@@ -25,6 +25,10 @@ export interface CommandLineOptions {
   var?: string[];
   remotingVerbose?: boolean;
   multiLine?: boolean;
+  cache?: boolean; // false with --no-cache
+  hotReload?: boolean; // watch: apply code / asset changes to the running cart
+  attach?: string; // watch: host:port of a running remoting session to use instead of launching TIC-80
+  stats?: boolean; // build: also write the code size report (see stats.ts)
 }
 
 export function parseBuildOptions(
@@ -33,6 +37,7 @@ export function parseBuildOptions(
 ): TicbuildProjectLoadOptions {
   const options: TicbuildProjectLoadOptions = {
     manifestPath,
+    buildCache: cmd?.cache !== false,
   };
   if (cmd?.mode) {
     options.buildConfigName = cmd.mode;
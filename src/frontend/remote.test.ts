@@ -0,0 +1,20 @@
+import { formatHexDump, parseRemoteNumber } from "./remote";
+
+describe("remote command helpers", () => {
+  it("should parse decimal and hex numbers", () => {
+    expect(parseRemoteNumber("16320", "address")).toBe(0x3fc0);
+    expect(parseRemoteNumber("0x3FC0", "address")).toBe(0x3fc0);
+    expect(() => parseRemoteNumber("-1", "address")).toThrow("Invalid address: -1");
+    expect(() => parseRemoteNumber("0x", "length")).toThrow("Invalid length: 0x");
+    expect(() => parseRemoteNumber("", "length")).toThrow();
+  });
+
+  it("should format hex dumps with addresses and printable characters", () => {
+    const data = new Uint8Array(18).map((_, i) => 0x41 + i);
+    data[1] = 0;
+    expect(formatHexDump(0x3fc0, data)).toEqual([
+      "0x03fc0  41 00 43 44 45 46 47 48 49 4a 4b 4c 4d 4e 4f 50  A.CDEFGHIJKLMNOP",
+      "0x03fd0  51 52                                            QR",
+    ]);
+  });
+});
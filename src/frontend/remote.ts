@@ -0,0 +1,137 @@
+import { Tic80RemotingClient } from "../backend/tic80Controller/remotingClient";
+import { decodeRemotingString } from "../backend/tic80Controller/remotingProtocol";
+import * as cons from "../utils/console";
+import {
+  decodeSourceDataFromString,
+  encodeBinaryToString,
+  isStringSourceEncoding,
+  resolveSourceEncoding,
+  SourceEncodingKey,
+} from "../utils/encoding/codecRegistry";
+import { resolveTerminalTarget } from "./terminal";
+
+export type RemoteOptions = {
+  target?: string; // host:port; default: discovered sessions
+  encoding?: string; // peek output / poke input encoding (default: hex dump / hex)
+  expr?: boolean; // eval: evaluate an expression and print its value
+  remotingVerbose?: boolean;
+};
+
+const kHexDumpBytesPerLine = 16;
+
+/////////////////////////////////////////////////////////////////////////////////
+// decimal or 0x-prefixed hex
+export function parseRemoteNumber(text: string, what: string): number {
+  const trimmed = text.trim();
+  const value = /^0x[0-9a-f]+$/i.test(trimmed) ? Number.parseInt(trimmed, 16) : Number(trimmed);
+  if (trimmed.length === 0 || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${what}: ${text}`);
+  }
+  return value;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+export function formatHexDump(address: number, data: Uint8Array): string[] {
+  const lines: string[] = [];
+  for (let offset = 0; offset < data.length; offset += kHexDumpBytesPerLine) {
+    const bytes = Array.from(data.subarray(offset, offset + kHexDumpBytesPerLine));
+    const hex = bytes.map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+    const ascii = bytes.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("");
+    const lineAddress = (address + offset).toString(16).padStart(5, "0");
+    lines.push(`0x${lineAddress}  ${hex.padEnd(kHexDumpBytesPerLine * 3 - 1, " ")}  ${ascii}`);
+  }
+  return lines;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+function resolveStringEncoding(encoding: string): SourceEncodingKey {
+  const codec = resolveSourceEncoding(encoding);
+  if (!isStringSourceEncoding(codec.key)) {
+    throw new Error(`Encoding ${encoding} is not a text encoding`);
+  }
+  return codec.key;
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// connects to the target session for one command. returns undefined when no session was selected.
+async function withRemotingClient<T>(
+  options: RemoteOptions | undefined,
+  action: (client: Tic80RemotingClient) => Promise<T>,
+): Promise<T | undefined> {
+  const target = await resolveTerminalTarget(options?.target);
+  if (!target) {
+    process.exitCode = 1;
+    return undefined;
+  }
+
+  const client = new Tic80RemotingClient(target.host, target.port, !!options?.remotingVerbose);
+  try {
+    await client.connect();
+    return await action(client);
+  } finally {
+    client.close();
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+export async function remotePeekCommand(
+  addressText: string,
+  lengthText: string,
+  options?: RemoteOptions,
+): Promise<void> {
+  const address = parseRemoteNumber(addressText, "address");
+  const length = parseRemoteNumber(lengthText, "length");
+  if (length === 0) {
+    throw new Error("Length must be at least 1");
+  }
+  const encoding = options?.encoding ? resolveStringEncoding(options.encoding) : undefined;
+
+  const data = await withRemotingClient(options, (client) => client.peek(address, length));
+  if (!data) {
+    return;
+  }
+  if (encoding) {
+    console.log(encodeBinaryToString(encoding, data));
+    return;
+  }
+  for (const line of formatHexDump(address, data)) {
+    console.log(line);
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+export async function remotePokeCommand(
+  addressText: string,
+  dataText: string,
+  options?: RemoteOptions,
+): Promise<void> {
+  const address = parseRemoteNumber(addressText, "address");
+  const encoding = resolveStringEncoding(options?.encoding ?? "hex");
+  const data = decodeSourceDataFromString(encoding, dataText);
+  if (data.length === 0) {
+    throw new Error("No data to poke");
+  }
+
+  const done = await withRemotingClient(options, async (client) => {
+    await client.poke(address, data);
+    return true;
+  });
+  if (done) {
+    cons.success(`Poked ${data.length} byte(s) at 0x${address.toString(16)}`);
+  }
+}
+
+/////////////////////////////////////////////////////////////////////////////////
+// runs Lua in the running cart; with --expr, prints the value of an expression instead.
+export async function remoteEvalCommand(code: string, options?: RemoteOptions): Promise<void> {
+  const result = await withRemotingClient(options, async (client) => {
+    if (options?.expr) {
+      return decodeRemotingString(await client.evalExpr(code));
+    }
+    await client.evalCode(code);
+    return "";
+  });
+  if (result) {
+    console.log(result);
+  }
+}
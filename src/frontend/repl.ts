@@ -60,6 +60,7 @@ const toggleableRuleKeys: Record<string, keyof OptimizationRuleOptions> = {
     simplifyexpressions: "simplifyExpressions",
     removeunusedlocals: "removeUnusedLocals",
     removeunusedfunctions: "removeUnusedFunctions",
+    aliasglobals: "aliasGlobals",
     renametablefields: "renameTableFields",
     packlocaldeclarations: "packLocalDeclarations",
 };
@@ -0,0 +1,67 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TicbuildProject } from "../backend/project";
+import { buildCodeSizeReports, formatSizeTable } from "./stats";
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf-8");
+}
+
+describe("stats", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-stats-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should report sizes per file, function and minification rule", async () => {
+    writeFile(
+      path.join(dir, "util.lua"),
+      "-- helpers\nfunction clamp(value, lo, hi)\n  return math.max(lo, math.min(hi, value))\nend\n",
+    );
+    writeFile(
+      path.join(dir, "main.lua"),
+      '--#include "util.lua"\n\nfunction TIC()\n  local position = clamp(5, 0, 10)\n  print(position)\nend\n',
+    );
+    const manifest = {
+      project: { name: "test", binDir: "./bin", objDir: "./obj", outputCartName: "out.tic" },
+      imports: [{ name: "maincode", path: "main.lua", kind: "LuaCode" }],
+      assembly: { lua: { minify: true }, blocks: [{ chunks: ["CODE"], asset: "maincode" }] },
+    };
+    const manifestPath = path.join(dir, "project.ticbuild.jsonc");
+    writeFile(manifestPath, JSON.stringify(manifest));
+
+    const project = TicbuildProject.loadFromManifest({ manifestPath });
+    await project.loadImports();
+    const [report] = await buildCodeSizeReports(project);
+
+    expect(report.import).toBe("maincode");
+    expect(report.files.map((f) => f.file).sort()).toEqual(["main.lua", "util.lua"]);
+    const fileTotal = report.files.reduce((sum, f) => sum + f.minifiedBytes, 0);
+    expect(fileTotal).toBe(report.totals.minifiedBytes);
+
+    const tic = report.functions.find((f) => f.functionName === "TIC");
+    expect(tic).toMatchObject({ file: "main.lua", line: 3 });
+    expect(report.functions.find((f) => f.functionName === "clamp")).toMatchObject({ file: "util.lua", line: 2 });
+
+    const rules = report.rules.map((r) => r.rule);
+    expect(rules[0]).toBe("formatting");
+    expect(rules).toContain("stripComments");
+    expect(rules).toContain("renameLocalVariables");
+    expect(report.rules.find((r) => r.rule === "stripComments")!.minifiedBytes).toBe("-- helpers\n".length);
+  });
+
+  it("should align size tables", () => {
+    expect(formatSizeTable(["", "bytes"], [["a.lua", 5], ["long.lua", 1234]])).toEqual([
+      "          bytes",
+      "a.lua         5",
+      "long.lua   1234",
+    ]);
+  });
+});
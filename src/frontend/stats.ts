@@ -0,0 +1,163 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { attributeCodeSize, CodeSizeUnit } from "../backend/codeSizeReport";
+import { LuaCodeResource, LuaCodeSizeStats, MinificationRuleSavings } from "../backend/importers/LuaCodeImporter";
+import { TicbuildProject } from "../backend/project";
+import { buildProjectSymbolIndex } from "../backend/symbolIndex";
+import * as cons from "../utils/console";
+import { ensureDir, writeTextFile } from "../utils/fileSystem";
+import { CommandLineOptions, parseBuildOptions } from "./parseOptions";
+
+export type StatsOptions = CommandLineOptions & {
+  top?: string; // how many functions to list
+  json?: boolean; // print the report as JSON instead of tables
+};
+
+export type LuaCodeSizeReport = {
+  import: string;
+  totals: LuaCodeSizeStats;
+  files: CodeSizeUnit[];
+  functions: CodeSizeUnit[];
+  rules: MinificationRuleSavings[];
+};
+
+export const kSizeReportFileName = "size-report.json";
+const kDefaultTopFunctions = 20;
+
+// one report per imported Lua code resource. imports must be loaded.
+export async function buildCodeSizeReports(project: TicbuildProject): Promise<LuaCodeSizeReport[]> {
+  const resourceMgr = project.resourceMgr;
+  if (!resourceMgr) {
+    return [];
+  }
+  const core = project.resolvedCore;
+  const symbolIndex = await buildProjectSymbolIndex(core, resourceMgr);
+  const readFile = (file: string): string | undefined => {
+    try {
+      return fs.readFileSync(path.resolve(core.projectDir, file), "utf-8");
+    } catch {
+      return undefined;
+    }
+  };
+
+  const reports: LuaCodeSizeReport[] = [];
+  for (const [identifier, resource] of resourceMgr.items.entries()) {
+    if (!(resource instanceof LuaCodeResource)) {
+      continue;
+    }
+    const artifacts = resource.getCodeArtifacts(core);
+    const attribution = attributeCodeSize(
+      {
+        projectRoot: core.projectDir,
+        preprocessorMap: resource.getPreprocessResult().sourceMap,
+        minifiedSource: artifacts.minifiedSource,
+        minifiedMap: resource.getMinifiedSourceMap(core),
+        symbolIndex,
+      },
+      readFile,
+    );
+    reports.push({
+      import: identifier,
+      totals: resource.getCodeSizeStats(core),
+      files: attribution.files,
+      functions: attribution.functions,
+      rules: resource.getMinificationRuleSavings(core),
+    });
+  }
+  return reports;
+}
+
+// writes the reports to objDir; returns the file path.
+export async function writeCodeSizeReports(project: TicbuildProject, reports: LuaCodeSizeReport[]): Promise<string> {
+  await ensureDir(project.resolvedCore.resolveObjPath());
+  const reportPath = project.resolvedCore.resolveObjPath(kSizeReportFileName);
+  await writeTextFile(reportPath, JSON.stringify(reports, null, 2), "utf-8");
+  return reportPath;
+}
+
+function formatUnitLabel(unit: CodeSizeUnit): string {
+  const file = unit.file || "(generated)";
+  if (!unit.functionName) {
+    return file;
+  }
+  return `${unit.functionName}  ${file}${unit.line ? `:${unit.line}` : ""}`;
+}
+
+// right-aligned numeric columns after a left-aligned label.
+export function formatSizeTable(header: string[], rows: (string | number)[][]): string[] {
+  const all = [header, ...rows.map((row) => row.map(String))];
+  const widths = header.map((_, col) => Math.max(...all.map((row) => row[col].length)));
+  return all.map((row) =>
+    row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col], " ") : cell.padStart(widths[col], " "))).join("  "),
+  );
+}
+
+function printTable(title: string, header: string[], rows: (string | number)[][]): void {
+  if (rows.length === 0) {
+    return;
+  }
+  cons.h1(title);
+  const [headerLine, ...lines] = formatSizeTable(header, rows);
+  cons.dim(`  ${headerLine}`);
+  for (const line of lines) {
+    cons.info(`  ${line}`);
+  }
+}
+
+function printCodeSizeReport(report: LuaCodeSizeReport, topFunctions: number): void {
+  const { totals } = report;
+  cons.h1(`Code size: ${report.import}`);
+  cons.info(
+    `  input ${totals.inputBytes}, preprocessed ${totals.preprocessedBytes}, ` +
+      `minified ${totals.minifiedBytes}, compressed ${totals.compressedBytes} bytes`,
+  );
+
+  const unitRow = (unit: CodeSizeUnit) => [
+    formatUnitLabel(unit),
+    unit.preprocessedBytes,
+    unit.minifiedBytes,
+    unit.compressedBytes,
+  ];
+  const header = ["", "preprocessed", "minified", "~compressed"];
+  printTable("Files:", header, report.files.map(unitRow));
+
+  const functions = report.functions.slice(0, topFunctions);
+  const more = report.functions.length - functions.length;
+  printTable(
+    `Functions (largest ${functions.length}${more > 0 ? ` of ${report.functions.length}` : ""}):`,
+    header,
+    functions.map(unitRow),
+  );
+
+  printTable(
+    "Minification savings:",
+    ["", "minified", "compressed"],
+    report.rules.map((r) => [r.rule, r.minifiedBytes, r.compressedBytes]),
+  );
+}
+
+export async function statsCommand(manifestPath?: string, options?: StatsOptions): Promise<void> {
+  const project = TicbuildProject.loadFromManifest(parseBuildOptions(manifestPath, options));
+  await project.loadImports();
+  const reports = await buildCodeSizeReports(project);
+  const reportPath = await writeCodeSizeReports(project, reports);
+
+  if (options?.json) {
+    console.log(JSON.stringify(reports, null, 2));
+    return;
+  }
+  if (reports.length === 0) {
+    cons.warning("No Lua code imports to report on.");
+    return;
+  }
+
+  const top = options?.top !== undefined ? Number.parseInt(options.top, 10) : kDefaultTopFunctions;
+  if (!Number.isInteger(top) || top < 0) {
+    throw new Error(`Invalid --top value: ${options?.top}`);
+  }
+  for (const report of reports) {
+    printCodeSizeReport(report, top);
+  }
+  cons.dim("~compressed: how much the compressed code shrinks without it; these overlap, so they don't add up.");
+  cons.info(`Report: ${reportPath}`);
+}
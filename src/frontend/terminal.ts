@@ -1,5 +1,7 @@
 import net from "node:net";
 import * as readline from "node:readline";
+import { CachedLuaErrorTranslator } from "../backend/luaErrorTranslator";
+import { TicbuildProject } from "../backend/project";
 import { DiscoveredTic80Session, listRunningDiscoveredSessions } from "../backend/tic80Controller/discovery";
 import * as cons from "../utils/console";
 import { findOptionValue } from "../utils/tic80/args";
@@ -83,6 +85,26 @@ function createSocketLinePump(socket: net.Socket, onLine: (line: string) => void
     };
 }
 
+// maps Lua error locations in TIC-80 output back to sources, when run from a project dir whose
+// last build matches the running cart. the project is loaded once per session; the translator
+// reloads when the cart or its source maps change.
+function createErrorLocationTranslator(): (line: string) => string {
+    let translator: CachedLuaErrorTranslator | undefined;
+    try {
+        const project = TicbuildProject.loadFromManifest();
+        const core = project.resolvedCore;
+        translator = new CachedLuaErrorTranslator(core.getOutputFilePath(), core.resolveObjPath());
+    } catch {
+        // not in a project dir
+    }
+    return (line) => {
+        if (!translator || !line.includes("[string ")) {
+            return line;
+        }
+        return translator.get()?.translate(line) ?? line;
+    };
+}
+
 export function parseHostPort(hostPortValue: string): TerminalTarget {
     const value = hostPortValue.trim();
     if (!value) {
@@ -146,7 +168,8 @@ async function chooseDiscoveredSession(sessions: DiscoveredTic80Session[]): Prom
     }
 }
 
-async function resolveTerminalTarget(hostPort?: string): Promise<TerminalTarget | undefined> {
+// host:port if given; otherwise the single running discovered session, or one the user picks.
+export async function resolveTerminalTarget(hostPort?: string): Promise<TerminalTarget | undefined> {
     if (hostPort) {
         return parseHostPort(hostPort);
     }
@@ -220,11 +243,12 @@ export async function runTerminalClient(target: TerminalTarget): Promise<void> {
         terminal: true,
     });
 
+    const translateErrorLocations = createErrorLocationTranslator();
     let disconnected = false;
     const socketPump = createSocketLinePump(
         socket,
         (line) => {
-            process.stdout.write(`${line}\n`);
+            process.stdout.write(`${translateErrorLocations(line)}\n`);
         },
         () => {
             disconnected = true;
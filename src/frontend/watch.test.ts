@@ -1,5 +1,10 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
-import { buildWatchTargets, resolveAdditionalWatchGlob } from "./watch";
+import { FakeTic80RemotingServer } from "../backend/tic80Controller/fakeRemotingServer";
+import { getCartCodeText } from "../utils/tic80/cartDiff";
+import { parseTic80Cart } from "../utils/tic80/cartLoader";
+import { buildWatchTargets, formatTic80Event, resolveAdditionalWatchGlob, startWatch, WatchSession } from "./watch";
 
 describe("watch helpers", () => {
     it("should resolve project-relative additional watch globs", () => {
@@ -28,4 +33,72 @@ describe("watch helpers", () => {
             [expectedGlob, mainLuaPath, manifestPath].sort(),
         );
     });
-});
\ No newline at end of file
+
+    it("should decode pushed TIC-80 output into prefixed lines", () => {
+        // as the protocol documents it: `-1 trace "hello from tic80"`
+        const event = { id: -1, eventType: "trace", data: '"hello from tic80\\nsecond line"' };
+        expect(formatTic80Event(event)).toEqual(["[tic80 trace] hello from tic80", "[tic80 trace] second line"]);
+    });
+});
+
+describe("watch attached to a remoting session", () => {
+    let dir: string;
+    let server: FakeTic80RemotingServer;
+    let session: WatchSession | undefined;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "ticbuild-watch-"));
+        server = new FakeTic80RemotingServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await session?.stop();
+        session = undefined;
+        await server.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const readBuiltCode = (cartPath: string) =>
+        getCartCodeText(parseTic80Cart(new Uint8Array(fs.readFileSync(cartPath))));
+
+    it("should load the built cart, then rebuild and reload it when a source changes", async () => {
+        const mainPath = path.join(dir, "main.lua");
+        fs.writeFileSync(mainPath, 'function TIC() print("one") end\n', "utf-8");
+        const manifest = {
+            project: { name: "test", binDir: "./bin", objDir: "./obj", outputCartName: "out.tic" },
+            imports: [{ name: "maincode", path: "main.lua", kind: "LuaCode" }],
+            assembly: { blocks: [{ chunks: ["CODE"], asset: "maincode" }] },
+        };
+        const manifestPath = path.join(dir, "project.ticbuild.jsonc");
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest), "utf-8");
+        const cartPath = path.join(dir, "bin", "out.tic");
+
+        const loads: string[] = [];
+        let onLoad = () => {};
+        server.handle("load", (request) => {
+            loads.push(request.args[0]);
+            onLoad();
+            return undefined;
+        });
+
+        session = await startWatch(manifestPath, { attach: `127.0.0.1:${server.port}` });
+
+        expect(loads).toEqual([cartPath]);
+        expect(readBuiltCode(cartPath)).toContain('"one"');
+        expect(server.requests.map((request) => request.command)).toContain("hello");
+
+        const reloaded = new Promise<void>((resolve) => {
+            onLoad = resolve;
+        });
+        fs.writeFileSync(mainPath, 'function TIC() print("two") end\n', "utf-8");
+        await reloaded;
+
+        expect(loads).toEqual([cartPath, cartPath]);
+        expect(readBuiltCode(cartPath)).toContain('"two"');
+
+        // the attached session belongs to whoever started it
+        await session.stop();
+        expect(server.quitRequested).toBe(false);
+    }, 20000);
+});
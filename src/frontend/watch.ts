@@ -5,6 +5,9 @@ import { createTic80Controller } from "../backend/tic80Resolver";
 import * as cons from "../utils/console";
 import { buildCore } from "./core";
 import { CommandLineOptions, parseBuildOptions } from "./parseOptions";
+import { parseHostPort } from "./terminal";
+import { RemotingEvent } from "../backend/tic80Controller/remotingClient";
+import { decodeRemotingString } from "../backend/tic80Controller/remotingProtocol";
 import { ITic80Controller } from "../backend/tic80Controller/tic80Controller";
 import { mergeTic80Args } from "../utils/tic80/args";
 
@@ -36,17 +39,35 @@ export function buildWatchTargets(
   return Array.from(new Set([manifestPath, ...dependencyPaths, ...resolvedAdditionalWatchGlobs])).sort();
 }
 
-export async function watchCommand(
+// output pushed by TIC-80 (trace() calls). runtime Lua errors aren't pushed by the remoting protocol,
+// so error locations are only translated by `ticbuild terminal`.
+export function formatTic80Event(event: RemotingEvent): string[] {
+  const text = decodeRemotingString(event.data);
+  return text.split(/\r?\n/).map((line) => `[tic80 ${event.eventType}] ${line}`);
+}
+
+export type WatchSession = {
+  stop: (reason?: string) => Promise<void>; // stops TIC-80 and the file watcher
+  stopped: Promise<void>; // resolves once stopped, including when TIC-80 closes
+};
+
+// builds, launches (or attaches to) TIC-80 and rebuilds on changes until stopped.
+export async function startWatch(
   manifestPath?: string,
   options?: CommandLineOptions,
   tic80Args: string[] = [],
-): Promise<void> {
-  cons.info("ticbuild: watch command");
+): Promise<WatchSession> {
+  const attach = options?.attach ? parseHostPort(options.attach) : undefined;
+  let resolveStopped: () => void = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    resolveStopped = resolve;
+  });
 
   // needs to be mutable because it depends on env for tic80 location, which relies on project dir, which can change.
   let tic80Controller: ITic80Controller | undefined = undefined;
   let tic80ControllerInitialized = false;
   let isBuilding = false;
+  let buildFinished: Promise<void> = Promise.resolve(); // stop() waits for the build in progress
   let pendingRebuild = false;
   let watcher: chokidar.FSWatcher | undefined;
   let currentWatchTargets: string[] = [];
@@ -61,7 +82,9 @@ export async function watchCommand(
     const dependencyList = project.resourceMgr!.getDependencyList();
 
     // turn that into a distinct list.
-    const distinctPaths = Array.from(new Set(dependencyList.map((dep) => dep.path))).sort();
+    // base manifests are watched like the manifest itself.
+    const dependencyPaths = [...project.manifestBasePaths, ...dependencyList.map((dep) => dep.path)];
+    const distinctPaths = Array.from(new Set(dependencyPaths)).sort();
     const additionalWatchGlobs = project.resolvedCore.manifest.project.additionalWatchGlobs || [];
 
     const newWatchTargets = buildWatchTargets(
@@ -106,6 +129,9 @@ export async function watchCommand(
 
   // Function to perform build and launch
   const buildAndLaunch = async () => {
+    if (isShuttingDown) {
+      return;
+    }
     if (isBuilding) {
       pendingRebuild = true;
       return;
@@ -113,6 +139,10 @@ export async function watchCommand(
 
     isBuilding = true;
     pendingRebuild = false;
+    let finishBuild = () => {};
+    buildFinished = new Promise<void>((resolve) => {
+      finishBuild = resolve;
+    });
 
     try {
       // Build the project
@@ -132,6 +162,7 @@ export async function watchCommand(
       if (!tic80Controller) {
         tic80Controller = createTic80Controller(project.resolvedCore.projectDir, {
           remotingVerbose: !!options?.remotingVerbose,
+          attach,
         });
       }
       if (!tic80Controller) {
@@ -141,15 +172,27 @@ export async function watchCommand(
       if (!tic80ControllerInitialized) {
         tic80ControllerInitialized = true;
         tic80Controller.onExit(() => {
-          cleanup("TIC-80 process closed");
+          void stop("TIC-80 process closed");
+        });
+        tic80Controller.onRemotingEvent((event) => {
+          for (const line of formatTic80Event(event)) {
+            cons.info(line);
+          }
         });
       }
 
       // Launch/reload TIC-80 with the built cartridge
-      cons.h1("Launching TIC-80 with built cartridge...");
+      cons.h1(
+        attach
+          ? `Loading built cartridge into ${attach.host}:${attach.port}...`
+          : "Launching TIC-80 with built cartridge...",
+      );
       cons.info(`  ${outputFilePath}`);
 
-      await tic80Controller.launchAndControlCart(outputFilePath, mergedArgs);
+      await tic80Controller.launchAndControlCart(outputFilePath, mergedArgs, {
+        hotReloadCode: !!options?.hotReload,
+        hotReloadAssets: !!options?.hotReload,
+      });
       //cons.success("TIC-80 launched successfully.");
 
       // Recompute dependencies after every successful build so newly discovered
@@ -162,9 +205,10 @@ export async function watchCommand(
       cons.error(error instanceof Error ? error.message : String(error));
     } finally {
       isBuilding = false;
+      finishBuild();
 
       // If a rebuild was requested while we were building, start it now
-      if (pendingRebuild) {
+      if (pendingRebuild && !isShuttingDown) {
         cons.dim("  Starting queued rebuild...");
         setTimeout(() => buildAndLaunch(), 100);
       }
@@ -212,29 +256,45 @@ export async function watchCommand(
     cons.error(`Watcher error: ${error}`);
   });
 
-  // Handle process exit to clean up
-  const cleanup = async (reason?: string) => {
+  await new Promise<void>((resolve) => watcher!.once("ready", () => resolve()));
+
+  async function stop(reason?: string): Promise<void> {
     if (isShuttingDown) {
-      return;
+      return stopped;
     }
     isShuttingDown = true;
     cons.info("\nShutting down...");
     if (reason) {
       cons.info(`  ${reason}`);
     }
+    await buildFinished;
     if (tic80Controller) {
       await tic80Controller.stop();
     }
     if (watcher) {
-      watcher.close();
+      await watcher.close();
     }
-    process.exit(0);
-  };
+    resolveStopped();
+  }
+
+  return { stop, stopped };
+}
+
+export async function watchCommand(
+  manifestPath?: string,
+  options?: CommandLineOptions,
+  tic80Args: string[] = [],
+): Promise<void> {
+  cons.info("ticbuild: watch command");
+
+  const session = await startWatch(manifestPath, options, tic80Args);
 
+  // Handle process exit to clean up
+  const cleanup = () => void session.stop();
   process.on("SIGINT", cleanup);
   process.on("SIGTERM", cleanup);
   process.on("SIGQUIT", cleanup);
 
-  // Keep the process alive
-  await new Promise(() => { });
+  await session.stopped;
+  process.exit(0);
 }
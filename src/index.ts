@@ -5,21 +5,31 @@ import { createTic80Controller } from "./backend/tic80Resolver";
 import { readDiscoveredSessions } from "./backend/tic80Controller/discovery";
 import { buildInfo } from "./buildInfo";
 import { buildCommand } from "./frontend/build";
+import { diffCommand, DiffOptions } from "./frontend/diff";
+import { extractCommand, ExtractOptions } from "./frontend/extract";
 import { initCommand, InitOptions } from "./frontend/init";
+import { lspCommand } from "./frontend/lsp";
 import { CommandLineOptions } from "./frontend/parseOptions";
+import { remoteEvalCommand, remotePeekCommand, remotePokeCommand, RemoteOptions } from "./frontend/remote";
 import { replCommand } from "./frontend/repl";
 import { runCommand } from "./frontend/run";
+import { statsCommand, StatsOptions } from "./frontend/stats";
 import { attachTerminalToLaunchedTic80, discoCommand, terminalCommand } from "./frontend/terminal";
 import { templateListCommand } from "./frontend/templateList";
 import { watchCommand } from "./frontend/watch";
 import * as console from "./utils/console";
 import {
   printBuildHelp,
+  printDiffHelp,
   printDiscoHelp,
+  printExtractHelp,
   printInitHelp,
+  printLspHelp,
   printMainHelp,
+  printRemoteHelp,
   printReplHelp,
   printRunHelp,
+  printStatsHelp,
   printTerminalHelp,
   printTemplateListHelp,
   printTic80Help,
@@ -88,6 +98,18 @@ async function main(): Promise<void> {
       case "i":
         printInitHelp();
         return;
+      case "extract":
+        printExtractHelp();
+        return;
+      case "diff":
+        printDiffHelp();
+        return;
+      case "stats":
+        printStatsHelp();
+        return;
+      case "lsp":
+        printLspHelp();
+        return;
       case "repl":
         printReplHelp();
         return;
@@ -108,6 +130,9 @@ async function main(): Promise<void> {
       case "disco":
         printDiscoHelp();
         return;
+      case "remote":
+        printRemoteHelp();
+        return;
       case "help":
         // Let help command handle it naturally
         break;
@@ -141,6 +166,8 @@ async function main(): Promise<void> {
       },
       [],
     )
+    .option("--no-cache", "Don't reuse cached import outputs from objDir")
+    .option("--stats", "Also write the code size report to objDir")
     .action(async (manifest?: string, options?: CommandLineOptions) => {
       await buildCommand(manifest, options);
     });
@@ -158,6 +185,7 @@ async function main(): Promise<void> {
       },
       [],
     )
+    .option("--no-cache", "Don't reuse cached import outputs from objDir")
     .action(async (manifest?: string, options?: CommandLineOptions) => {
       await runCommand(manifest, options, forwardedArgs);
     });
@@ -176,6 +204,9 @@ async function main(): Promise<void> {
       },
       [],
     )
+    .option("--no-cache", "Don't reuse cached import outputs from objDir")
+    .option("--hot-reload", "Apply code and asset changes to the running cart instead of restarting it")
+    .option("--attach <host:port>", "Use a running TIC-80 remoting session instead of launching TIC-80")
     .action(async (manifest?: string, options?: CommandLineOptions) => {
       await watchCommand(manifest, options, forwardedArgs);
     });
@@ -208,6 +239,59 @@ async function main(): Promise<void> {
       await initCommand(dir, options);
     });
 
+  program
+    .command("extract <cart> [dir]")
+    .description("Extract a .tic cart into an editable ticbuild project")
+    .option("-n, --name <name>", "Project name")
+    .option("-f, --force", "Overwrite existing files")
+    .action(async (cart: string, dir?: string, options?: ExtractOptions) => {
+      await extractCommand(cart, dir, options);
+    });
+
+  program
+    .command("diff <cartA> <cartB>")
+    .description("Compare two .tic carts chunk by chunk")
+    .option("-c, --context <lines>", "Lines of context around code changes")
+    .action(async (cartA: string, cartB: string, options?: DiffOptions) => {
+      await diffCommand(cartA, cartB, options);
+    });
+
+  program
+    .command("stats [manifest]")
+    .description("Report which source files and functions the code size comes from")
+    .option("-m, --mode <name>", "Build configuration name")
+    .option(
+      "-v, --var <key=value>",
+      "Override manifest variable",
+      (value, previous: string[] = []) => {
+        return [...previous, value];
+      },
+      [],
+    )
+    .option("--no-cache", "Don't reuse cached import outputs from objDir")
+    .option("--top <n>", "Number of functions to list")
+    .option("--json", "Print the report as JSON")
+    .action(async (manifest?: string, options?: StatsOptions) => {
+      await statsCommand(manifest, options);
+    });
+
+  program
+    .command("lsp [manifest]")
+    .description("Run a Language Server Protocol server on stdio for the project's Lua code")
+    .option("-m, --mode <name>", "Build configuration name")
+    .option(
+      "-v, --var <key=value>",
+      "Override manifest variable",
+      (value, previous: string[] = []) => {
+        return [...previous, value];
+      },
+      [],
+    )
+    .option("--stdio", "Communicate over stdio (the default; accepted for editor clients)")
+    .action(async (manifest?: string, options?: CommandLineOptions) => {
+      await lspCommand(manifest, options);
+    });
+
   program
     .command("templatelist")
     .alias("tl")
@@ -259,6 +343,38 @@ async function main(): Promise<void> {
       await discoCommand();
     });
 
+  const remote = program.command("remote").description("Inspect and modify a running TIC-80 over remoting");
+
+  remote
+    .command("peek <addr> <len>")
+    .description("Read bytes of TIC-80 RAM")
+    .option("-t, --target <host:port>", "Remoting session (default: discovered sessions)")
+    .option("-e, --encoding <name>", "Print the bytes in this encoding (hex, b85+1, base64, ...) instead of a dump")
+    .option("--remoting-verbose", "Verbose TIC-80 remoting output")
+    .action(async (addr: string, len: string, options?: RemoteOptions) => {
+      await remotePeekCommand(addr, len, options);
+    });
+
+  remote
+    .command("poke <addr> <data>")
+    .description("Write bytes to TIC-80 RAM")
+    .option("-t, --target <host:port>", "Remoting session (default: discovered sessions)")
+    .option("-e, --encoding <name>", "Encoding of <data> (default: hex)")
+    .option("--remoting-verbose", "Verbose TIC-80 remoting output")
+    .action(async (addr: string, data: string, options?: RemoteOptions) => {
+      await remotePokeCommand(addr, data, options);
+    });
+
+  remote
+    .command("eval <lua>")
+    .description("Run Lua code in the running cart")
+    .option("-t, --target <host:port>", "Remoting session (default: discovered sessions)")
+    .option("-x, --expr", "Evaluate an expression and print its value")
+    .option("--remoting-verbose", "Verbose TIC-80 remoting output")
+    .action(async (code: string, options?: RemoteOptions) => {
+      await remoteEvalCommand(code, options);
+    });
+
   program
     .command("help [command]")
     .description("Show help information")
@@ -281,6 +397,18 @@ async function main(): Promise<void> {
           case "i":
             printInitHelp();
             break;
+          case "extract":
+            printExtractHelp();
+            break;
+          case "diff":
+            printDiffHelp();
+            break;
+          case "stats":
+            printStatsHelp();
+            break;
+          case "lsp":
+            printLspHelp();
+            break;
           case "templatelist":
           case "tl":
             printTemplateListHelp();
@@ -301,6 +429,9 @@ async function main(): Promise<void> {
           case "disco":
             printDiscoHelp();
             break;
+          case "remote":
+            printRemoteHelp();
+            break;
           default:
             console.error(`Unknown command: ${command}`);
             process.stdout.write("\n");
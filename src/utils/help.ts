@@ -47,6 +47,26 @@ export function printInitHelp(): void {
   console.log(help);
 }
 
+export function printExtractHelp(): void {
+  const help = renderHelpTemplate("extract");
+  console.log(help);
+}
+
+export function printDiffHelp(): void {
+  const help = renderHelpTemplate("diff");
+  console.log(help);
+}
+
+export function printStatsHelp(): void {
+  const help = renderHelpTemplate("stats");
+  console.log(help);
+}
+
+export function printLspHelp(): void {
+  const help = renderHelpTemplate("lsp");
+  console.log(help);
+}
+
 export function printReplHelp(): void {
   const help = renderHelpTemplate("repl");
   console.log(help);
@@ -72,6 +92,11 @@ export function printTerminalHelp(): void {
   console.log(help);
 }
 
+export function printRemoteHelp(): void {
+  const help = renderHelpTemplate("remote");
+  console.log(help);
+}
+
 export function printDiscoHelp(): void {
   const help = renderHelpTemplate("disco");
   console.log(help);
@@ -0,0 +1,418 @@
+import * as luaparse from "luaparse";
+import { LUA_RESERVED_WORDS, walkAST } from "./lua_ast";
+import { generateShortName } from "./lua_utils";
+
+// ============================================================================
+// Global Aliasing - Hoist free global names into short locals at the top of the chunk
+// ============================================================================
+//
+//   cls(0) spr(1,x,y) spr(2,x,y) math.sin(t) ...
+// becomes
+//   local A,B,C=spr,cls,math.sin
+//   B(0) A(1,x,y) A(2,x,y) C(t) ...
+//
+// * read-only globals are aliased only when they're known TIC-80 API / Lua library names, so the
+//   alias captures the same value the global would have had.
+// * user globals (assigned somewhere in the code) are turned into locals outright: `local D` is
+//   declared at the top, and every reference (including `function foo()`) uses it. a known global the
+//   code assigns (e.g. wrapping `print`) starts out with the original value instead: `local D=print`.
+// * names TIC-80 looks up by itself (TIC, BOOT, ...) and functionNamesToKeep stay global.
+// * any dynamic global access (_G, _ENV, load, ...) disables the pass, as the code could reach
+//   globals by name.
+// * the main chunk can have at most 200 active locals; aliases only use what's left.
+//
+// upvalue counts (255 per function) aren't checked; hoisted locals add upvalues to the functions using them.
+
+const kMaxActiveLocals = 200;
+
+const kTic80Callbacks = ["TIC", "BOOT", "SCN", "BDR", "OVR", "MENU"];
+
+const kDynamicGlobalAccess = new Set(["_G", "_ENV", "load", "loadstring", "dofile", "getfenv", "setfenv"]);
+
+// library tables whose members (`math.sin`) can be aliased
+const kLibraryTables = new Set(["math", "string", "table", "utf8", "coroutine"]);
+
+// read-only globals safe to alias
+// prettier-ignore
+const kKnownGlobals = new Set([
+  // TIC-80 API
+  "btn", "btnp", "circ", "circb", "clip", "cls", "elli", "ellib", "exit", "fget", "font", "fset", "key", "keyp",
+  "line", "map", "memcpy", "memset", "mget", "mouse", "mset", "music", "peek", "peek1", "peek2", "peek4", "pix",
+  "pmem", "poke", "poke1", "poke2", "poke4", "print", "rect", "rectb", "reset", "sfx", "spr", "sync", "textri",
+  "time", "trace", "tri", "trib", "tstamp", "ttri", "vbank",
+  // Lua base library
+  "assert", "error", "getmetatable", "ipairs", "next", "pairs", "pcall", "rawequal", "rawget", "rawlen", "rawset",
+  "select", "setmetatable", "tonumber", "tostring", "type", "xpcall",
+]);
+
+export type AliasGlobalsOptions = {
+  functionNamesToKeep?: string[];
+  // false when some code isn't visible to the pass (e.g. MINIFICATION OFF blocks), which could use user globals
+  aliasUserGlobals?: boolean;
+};
+
+type Scope = {
+  names: Set<string>;
+  parent: Scope | null;
+};
+
+// one aliasable name: a global identifier, or a library member like `math.sin`
+type Candidate = {
+  key: string;
+  isUserGlobal: boolean;
+  initialized: boolean; // declared with the global's value, rather than starting out nil
+  identifiers: luaparse.Identifier[];
+  members: luaparse.MemberExpression[];
+  aliasName?: string;
+};
+
+type GlobalUsage = {
+  reads: Map<string, luaparse.Identifier[]>;
+  writes: Map<string, luaparse.Identifier[]>;
+  members: Map<string, luaparse.MemberExpression[]>; // "math.sin" -> reads
+  unaliasableLibraries: Set<string>; // used other than as `lib.member` reads
+};
+
+function isDeclared(scope: Scope | null, name: string): boolean {
+  for (let s = scope; s; s = s.parent) {
+    if (s.names.has(name)) return true;
+  }
+  return false;
+}
+
+function collectGlobalUsage(ast: luaparse.Chunk): GlobalUsage {
+  const usage: GlobalUsage = {
+    reads: new Map(),
+    writes: new Map(),
+    members: new Map(),
+    unaliasableLibraries: new Set(),
+  };
+
+  const add = <T>(map: Map<string, T[]>, key: string, node: T) => {
+    const list = map.get(key);
+    if (list) list.push(node);
+    else map.set(key, [node]);
+  };
+
+  function visitTarget(target: luaparse.Expression, scope: Scope): void {
+    if (target.type === "Identifier") {
+      if (!isDeclared(scope, target.name)) add(usage.writes, target.name, target);
+      return;
+    }
+    // writing into a library table, e.g. `math.foo = ...`
+    if (
+      (target.type === "MemberExpression" || target.type === "IndexExpression") &&
+      target.base.type === "Identifier" &&
+      kLibraryTables.has(target.base.name) &&
+      !isDeclared(scope, target.base.name)
+    ) {
+      usage.unaliasableLibraries.add(target.base.name);
+      if (target.type === "IndexExpression") visitExpr(target.index, scope);
+      return;
+    }
+    visitExpr(target, scope);
+  }
+
+  function visitFunction(fn: luaparse.FunctionDeclaration, scope: Scope): void {
+    const fnScope: Scope = { names: new Set(), parent: scope };
+    fn.parameters.forEach((p) => {
+      if (p.type === "Identifier") fnScope.names.add(p.name);
+    });
+    if (fn.identifier?.type === "MemberExpression" && fn.identifier.indexer === ":") {
+      fnScope.names.add("self");
+    }
+    visitBlock(fn.body, fnScope);
+  }
+
+  function visitExpr(node: luaparse.Expression | null | undefined, scope: Scope): void {
+    if (!node) return;
+
+    switch (node.type) {
+      case "Identifier":
+        if (!isDeclared(scope, node.name)) {
+          add(usage.reads, node.name, node);
+          if (kLibraryTables.has(node.name)) usage.unaliasableLibraries.add(node.name);
+        }
+        break;
+
+      case "FunctionDeclaration":
+        visitFunction(node, scope);
+        break;
+
+      case "MemberExpression":
+        if (
+          node.indexer === "." &&
+          node.base.type === "Identifier" &&
+          kLibraryTables.has(node.base.name) &&
+          !isDeclared(scope, node.base.name)
+        ) {
+          add(usage.members, `${node.base.name}.${node.identifier.name}`, node);
+          break;
+        }
+        visitExpr(node.base, scope);
+        break;
+
+      case "IndexExpression":
+        visitExpr(node.base, scope);
+        visitExpr(node.index, scope);
+        break;
+
+      case "CallExpression":
+        visitExpr(node.base, scope);
+        node.arguments.forEach((arg) => visitExpr(arg, scope));
+        break;
+
+      case "TableCallExpression":
+        visitExpr(node.base, scope);
+        visitExpr(node.arguments, scope);
+        break;
+
+      case "StringCallExpression":
+        visitExpr(node.base, scope);
+        break;
+
+      case "TableConstructorExpression":
+        node.fields.forEach((field) => {
+          if (field.type === "TableKey") visitExpr(field.key, scope);
+          visitExpr(field.value, scope);
+        });
+        break;
+
+      case "BinaryExpression":
+      case "LogicalExpression":
+        visitExpr(node.left, scope);
+        visitExpr(node.right, scope);
+        break;
+
+      case "UnaryExpression":
+        visitExpr(node.argument, scope);
+        break;
+    }
+  }
+
+  function visitStatement(stmt: luaparse.Statement, scope: Scope): void {
+    switch (stmt.type) {
+      case "LocalStatement":
+        stmt.init.forEach((expr) => visitExpr(expr, scope));
+        stmt.variables.forEach((v) => scope.names.add(v.name));
+        break;
+
+      case "AssignmentStatement":
+        stmt.variables.forEach((v) => visitTarget(v, scope));
+        stmt.init.forEach((expr) => visitExpr(expr, scope));
+        break;
+
+      case "CallStatement":
+        visitExpr(stmt.expression, scope);
+        break;
+
+      case "FunctionDeclaration":
+        if (stmt.isLocal && stmt.identifier?.type === "Identifier") {
+          scope.names.add(stmt.identifier.name);
+        } else if (stmt.identifier) {
+          visitTarget(stmt.identifier, scope);
+        }
+        visitFunction(stmt, scope);
+        break;
+
+      case "ReturnStatement":
+        stmt.arguments.forEach((arg) => visitExpr(arg, scope));
+        break;
+
+      case "IfStatement":
+        stmt.clauses.forEach((clause) => {
+          if (clause.type !== "ElseClause") visitExpr(clause.condition, scope);
+          visitBlock(clause.body, { names: new Set(), parent: scope });
+        });
+        break;
+
+      case "WhileStatement":
+        visitExpr(stmt.condition, scope);
+        visitBlock(stmt.body, { names: new Set(), parent: scope });
+        break;
+
+      case "RepeatStatement": {
+        // `until` sees the body's locals
+        const bodyScope: Scope = { names: new Set(), parent: scope };
+        visitBlock(stmt.body, bodyScope);
+        visitExpr(stmt.condition, bodyScope);
+        break;
+      }
+
+      case "ForNumericStatement":
+        visitExpr(stmt.start, scope);
+        visitExpr(stmt.end, scope);
+        visitExpr(stmt.step, scope);
+        visitBlock(stmt.body, { names: new Set([stmt.variable.name]), parent: scope });
+        break;
+
+      case "ForGenericStatement":
+        stmt.iterators.forEach((it) => visitExpr(it, scope));
+        visitBlock(stmt.body, { names: new Set(stmt.variables.map((v) => v.name)), parent: scope });
+        break;
+
+      case "DoStatement":
+        visitBlock(stmt.body, { names: new Set(), parent: scope });
+        break;
+    }
+  }
+
+  function visitBlock(body: luaparse.Statement[], scope: Scope): void {
+    body.forEach((stmt) => visitStatement(stmt, scope));
+  }
+
+  visitBlock(ast.body, { names: new Set(), parent: null });
+  return usage;
+}
+
+// most locals active at once in the main chunk (not counting nested functions, which have their own limit).
+// for loops also hold hidden control variables: 3 plus the loop variables.
+function countMaxActiveLocals(body: luaparse.Statement[], active: number): number {
+  let max = active;
+  for (const stmt of body) {
+    switch (stmt.type) {
+      case "LocalStatement":
+        active += stmt.variables.length;
+        break;
+      case "FunctionDeclaration":
+        if (stmt.isLocal) active++;
+        break;
+      case "IfStatement":
+        stmt.clauses.forEach((clause) => (max = Math.max(max, countMaxActiveLocals(clause.body, active))));
+        break;
+      case "WhileStatement":
+      case "RepeatStatement":
+      case "DoStatement":
+        max = Math.max(max, countMaxActiveLocals(stmt.body, active));
+        break;
+      case "ForNumericStatement":
+        max = Math.max(max, countMaxActiveLocals(stmt.body, active + 4));
+        break;
+      case "ForGenericStatement":
+        max = Math.max(max, countMaxActiveLocals(stmt.body, active + 3 + stmt.variables.length));
+        break;
+    }
+    max = Math.max(max, active);
+  }
+  return max;
+}
+
+function collectCandidates(usage: GlobalUsage, options: AliasGlobalsOptions): Candidate[] {
+  const keep = new Set([...kTic80Callbacks, ...(options.functionNamesToKeep ?? [])]);
+  const candidates: Candidate[] = [];
+
+  const names = new Set([...usage.reads.keys(), ...usage.writes.keys()]);
+  for (const name of names) {
+    if (kLibraryTables.has(name)) {
+      continue; // see members below
+    }
+    const reads = usage.reads.get(name) ?? [];
+    const writes = usage.writes.get(name) ?? [];
+    const isUserGlobal = writes.length > 0;
+    if (isUserGlobal ? keep.has(name) || options.aliasUserGlobals === false : !kKnownGlobals.has(name)) {
+      continue;
+    }
+    const initialized = !isUserGlobal || kKnownGlobals.has(name);
+    candidates.push({ key: name, isUserGlobal, initialized, identifiers: [...reads, ...writes], members: [] });
+  }
+
+  for (const [key, members] of usage.members) {
+    const library = key.slice(0, key.indexOf("."));
+    if (usage.unaliasableLibraries.has(library) || usage.writes.has(library)) {
+      continue;
+    }
+    candidates.push({ key, isUserGlobal: false, initialized: true, identifiers: [], members });
+  }
+  return candidates;
+}
+
+function useCount(candidate: Candidate): number {
+  return candidate.identifiers.length + candidate.members.length;
+}
+
+// bytes saved by aliasing, minus the alias's share of the `local ...=...` declaration
+function aliasSavings(candidate: Candidate, aliasName: string): number {
+  const perUse = candidate.key.length - aliasName.length;
+  const declarationCost = candidate.initialized ? aliasName.length + candidate.key.length + 2 : aliasName.length + 1;
+  return useCount(candidate) * perUse - declarationCost;
+}
+
+// turns a `lib.member` node into an identifier in place, so parents don't need updating
+function replaceWithIdentifier(node: luaparse.MemberExpression, name: string): void {
+  const target = node as unknown as Record<string, unknown>;
+  for (const key of Object.keys(target)) {
+    if (key !== "range" && key !== "loc") delete target[key];
+  }
+  Object.assign(target, { type: "Identifier", name });
+}
+
+function parseMemberKey(key: string): luaparse.MemberExpression {
+  const [base, member] = key.split(".");
+  return {
+    type: "MemberExpression",
+    indexer: ".",
+    base: { type: "Identifier", name: base },
+    identifier: { type: "Identifier", name: member },
+  } as luaparse.MemberExpression;
+}
+
+export function aliasGlobalsInAST(ast: luaparse.Chunk, options: AliasGlobalsOptions = {}): luaparse.Chunk {
+  const usage = collectGlobalUsage(ast);
+  for (const name of kDynamicGlobalAccess) {
+    if (usage.reads.has(name) || usage.writes.has(name)) return ast;
+  }
+
+  const budget = kMaxActiveLocals - countMaxActiveLocals(ast.body, 0);
+  if (budget <= 0) return ast;
+
+  // most valuable first, so they get the shortest names
+  const candidates = collectCandidates(usage, options).sort(
+    (a, b) => useCount(b) * b.key.length - useCount(a) * a.key.length || a.key.localeCompare(b.key),
+  );
+
+  const usedNames = new Set<string>();
+  walkAST(ast, (node) => {
+    if (node.type === "Identifier") usedNames.add(node.name);
+  });
+  let nameIndex = 0;
+  const peekAliasName = (): string => {
+    let name = generateShortName(nameIndex).toUpperCase();
+    while (usedNames.has(name) || LUA_RESERVED_WORDS.has(name)) {
+      name = generateShortName(++nameIndex).toUpperCase();
+    }
+    return name;
+  };
+
+  const chosen: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (chosen.length >= budget) break;
+    const aliasName = peekAliasName();
+    if (aliasSavings(candidate, aliasName) <= 0) continue;
+    candidate.aliasName = aliasName;
+    nameIndex++;
+    chosen.push(candidate);
+  }
+  // "local " and "=" are paid once
+  const totalSavings = chosen.reduce((sum, c) => sum + aliasSavings(c, c.aliasName!), 0);
+  if (chosen.length === 0 || totalSavings <= 7) return ast;
+
+  for (const candidate of chosen) {
+    candidate.identifiers.forEach((id) => (id.name = candidate.aliasName!));
+    candidate.members.forEach((member) => replaceWithIdentifier(member, candidate.aliasName!));
+  }
+
+  // initialized aliases first; user globals start out nil, like the globals they replace
+  const aliases = chosen.filter((c) => c.initialized);
+  const userGlobals = chosen.filter((c) => !c.initialized);
+  const declaration: luaparse.LocalStatement = {
+    type: "LocalStatement",
+    variables: [...aliases, ...userGlobals].map(
+      (c) => ({ type: "Identifier", name: c.aliasName! }) as luaparse.Identifier,
+    ),
+    init: aliases.map((c) =>
+      c.key.includes(".") ? parseMemberKey(c.key) : ({ type: "Identifier", name: c.key } as luaparse.Identifier),
+    ),
+  };
+  ast.body.unshift(declaration);
+  return ast;
+}
@@ -83,6 +83,9 @@ export function replaceLuaBlock(src: string, beginMarker: string, endMarker: str
 export type ExtractedLuaBlock = {
   placeholder: string;
   content: string;
+  contentOffset: number; // offset of content in src
+  srcRange: [number, number]; // replaced span in src, including marker lines
+  codeRange: [number, number]; // span of the placeholder (+ eol) in the returned code
 };
 
 // Extract blocks delimited by begin/end markers and replace them with placeholders.
@@ -100,6 +103,7 @@ export function extractLuaBlocks(
   let out = src;
   let searchFrom = 0;
   let i = 0;
+  let shift = 0; // src offset - out offset, for everything after the last replacement
 
   while (true) {
     const span = findNextLuaBlockSpan(out, beginMarker, endMarker, searchFrom, strict);
@@ -109,9 +113,16 @@ export function extractLuaBlocks(
     const placeholder = placeholderFactory(i);
     const replacement = placeholder + span.eol;
 
-    blocks.push({ placeholder, content });
+    blocks.push({
+      placeholder,
+      content,
+      contentOffset: span.innerStart + shift,
+      srcRange: [span.beginLineStart0 + shift, span.blockEnd + shift],
+      codeRange: [span.beginLineStart0, span.beginLineStart0 + replacement.length],
+    });
     out = out.slice(0, span.beginLineStart0) + replacement + out.slice(span.blockEnd);
     searchFrom = span.beginLineStart0 + replacement.length;
+    shift += span.blockEnd - span.beginLineStart0 - replacement.length;
     i++;
   }
 
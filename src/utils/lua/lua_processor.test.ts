@@ -1,4 +1,4 @@
-import { processLua, OptimizationRuleOptions } from "./lua_processor";
+import { processLua, processLuaWithSourceMarks, LuaProcessResult, OptimizationRuleOptions } from "./lua_processor";
 
 describe("Lua base language support", () => {
   it("should parse integer division operator without errors", () => {
@@ -7,6 +7,7 @@ describe("Lua base language support", () => {
       maxIndentLevel: 1,
       lineBehavior: "tight",
       maxLineLength: 180,
+      optimizeFor: "size",
       renameLocalVariables: false,
       aliasRepeatedExpressions: false,
       aliasLiterals: false,
@@ -14,6 +15,7 @@ describe("Lua base language support", () => {
       simplifyExpressions: false,
       removeUnusedLocals: false,
       removeUnusedFunctions: false,
+      aliasGlobals: false,
       functionNamesToKeep: [],
       renameTableFields: false,
       tableEntryKeysToRename: [],
@@ -33,6 +35,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       maxIndentLevel: 1,
       lineBehavior: "tight",
       maxLineLength: 180,
+      optimizeFor: "size",
       renameLocalVariables: false,
       aliasRepeatedExpressions: false,
       aliasLiterals: false,
@@ -40,6 +43,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       simplifyExpressions: true,
       removeUnusedLocals: false,
       removeUnusedFunctions: false,
+      aliasGlobals: false,
       functionNamesToKeep: [],
       renameTableFields: false,
       tableEntryKeysToRename: [],
@@ -81,6 +85,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
         maxIndentLevel: 1,
         lineBehavior: "tight",
         maxLineLength: 180,
+        optimizeFor: "size",
         renameLocalVariables: false,
         aliasRepeatedExpressions: false,
         aliasLiterals: false,
@@ -88,6 +93,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
         simplifyExpressions: false,
         removeUnusedLocals: false,
         removeUnusedFunctions: false,
+        aliasGlobals: false,
         functionNamesToKeep: [],
         renameTableFields: false,
         tableEntryKeysToRename: [],
@@ -149,6 +155,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       maxIndentLevel: 1,
       lineBehavior: "tight",
       maxLineLength: 180,
+      optimizeFor: "size",
       renameLocalVariables: false,
       aliasRepeatedExpressions: false,
       aliasLiterals: false,
@@ -156,6 +163,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       simplifyExpressions: true,
       removeUnusedLocals: false,
       removeUnusedFunctions: false,
+      aliasGlobals: false,
       functionNamesToKeep: [],
       renameTableFields: false,
       tableEntryKeysToRename: [],
@@ -194,6 +202,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       maxIndentLevel: 1,
       lineBehavior: "tight",
       maxLineLength: 180,
+      optimizeFor: "size",
       renameLocalVariables: false,
       aliasRepeatedExpressions: false,
       aliasLiterals: false,
@@ -201,6 +210,7 @@ describe("Lua printer numeric literal formatting with simplifyExpressions", () =
       simplifyExpressions: false,
       removeUnusedLocals: false,
       removeUnusedFunctions: false,
+      aliasGlobals: false,
       functionNamesToKeep: [],
       renameTableFields: false,
       tableEntryKeysToRename: [],
@@ -249,6 +259,7 @@ describe("Lua printer parenthesis handling", () => {
     maxIndentLevel: 1,
     lineBehavior: "tight",
     maxLineLength: 180,
+    optimizeFor: "size",
     renameLocalVariables: false,
     aliasRepeatedExpressions: false,
     aliasLiterals: false,
@@ -256,6 +267,7 @@ describe("Lua printer parenthesis handling", () => {
     simplifyExpressions: false,
     removeUnusedLocals: false,
     removeUnusedFunctions: false,
+    aliasGlobals: false,
     functionNamesToKeep: [],
     renameTableFields: false,
     tableEntryKeysToRename: [],
@@ -329,3 +341,402 @@ describe("Lua printer parenthesis handling", () => {
     }
   });
 });
+
+describe("Lua processor source marks", () => {
+  const options: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 180,
+    optimizeFor: "size",
+    renameLocalVariables: false,
+    aliasRepeatedExpressions: false,
+    aliasLiterals: false,
+    packLocalDeclarations: false,
+    simplifyExpressions: false,
+    removeUnusedLocals: false,
+    removeUnusedFunctions: false,
+    aliasGlobals: false,
+    functionNamesToKeep: [],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  // pairs of (output text, input text) at each mark
+  function markedPairs(input: string, result: LuaProcessResult) {
+    return result.marks.map((m) => [
+      result.code.slice(m.outputOffset, m.outputOffset + 5),
+      input.slice(m.inputOffset, m.inputOffset + 5),
+    ]);
+  }
+
+  const input = "local a = 1\nfunction f()\n  print(a..2)\nend\nf()\n";
+
+  it("should mark statement starts in tight mode", () => {
+    const result = processLuaWithSourceMarks(input, options);
+    expect(result.code).toBe("local a=1 function f() print(a..2) end f()\n");
+    expect(markedPairs(input, result)).toEqual([
+      ["local", "local"],
+      ["funct", "funct"],
+      ["print", "print"],
+      ["f()\n", "f()\n"],
+    ]);
+  });
+
+  it("should mark statement starts in pretty and single-line-blocks modes", () => {
+    for (const lineBehavior of ["pretty", "single-line-blocks"] as const) {
+      const result = processLuaWithSourceMarks(input, { ...options, lineBehavior });
+      expect(markedPairs(input, result).map(([out]) => out.trim())).toEqual(["local", "funct", "print", "f()"]);
+      expect(markedPairs(input, result).every(([out, inp]) => out.trim() === inp.trim())).toBe(true);
+    }
+  });
+
+  it("should account for text edits made before parsing", () => {
+    const source = "x = 1..2\n-- MINIFICATION OFF\nkeep  =  1\nkeep2 = 2\n-- MINIFICATION ON\ny = 3\n";
+    const result = processLuaWithSourceMarks(source, options);
+    expect(markedPairs(source, result)).toEqual([
+      ["x=(1)", "x = 1"],
+      ["keep ", "keep "],
+      ["keep2", "keep2"],
+      ["y=3\n", "y = 3"],
+    ]);
+  });
+});
+
+describe("Lua global aliasing", () => {
+  const options: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 500,
+    optimizeFor: "size",
+    renameLocalVariables: false,
+    aliasRepeatedExpressions: false,
+    aliasLiterals: false,
+    packLocalDeclarations: false,
+    simplifyExpressions: false,
+    removeUnusedLocals: false,
+    removeUnusedFunctions: false,
+    aliasGlobals: true,
+    functionNamesToKeep: ["TIC"],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  it("should hoist heavily used builtins and library members into locals", () => {
+    const input = [
+      "function TIC()",
+      "  spr(1,0,0) spr(2,8,0) spr(3,16,0) spr(4,24,0)",
+      "  local y = math.sin(t) + math.sin(t*2) + math.sin(t*3)",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toContain("local A,B=math.sin,spr");
+    expect(output).toContain("function TIC()");
+    expect(output).toContain("B(1,0,0)");
+    expect(output).toContain("A(t)+A(t*2)+A(t*3)");
+    expect(output).not.toContain("spr(");
+  });
+
+  it("should turn user globals into locals but keep callbacks and functionNamesToKeep global", () => {
+    const input = [
+      "player_x = 0",
+      "function update_player() player_x = player_x + 1 end",
+      "function TIC() update_player() update_player() trace(player_x) end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toMatch(/^local A,B B=0 /);
+    expect(output).not.toContain("player_x");
+    expect(output).not.toContain("update_player");
+    expect(output).toContain("function TIC()");
+  });
+
+  it("should start an overridden built-in out with its original value", () => {
+    const input = [
+      "local old = print",
+      'print = function(s) old(">" .. s) end',
+      "print(1) print(2) print(3) print(4) print(5) print(6) print(7) print(8)",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toMatch(/^local A=print /);
+    expect(output).toContain("A=function(");
+    expect(output).toContain("A(8)");
+  });
+
+  it("should not touch locals that shadow a global", () => {
+    const input = [
+      "spr(1) spr(2) spr(3) spr(4) spr(5) spr(6) spr(7) spr(8)",
+      "local function f(spr) return spr(1) end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toContain("local A=spr");
+    expect(output).toContain("function f(spr) return spr(1) end");
+  });
+
+  it("should leave the code alone when globals are accessed dynamically", () => {
+    const input = "spr(1) spr(2) spr(3) spr(4) spr(5) spr(6) spr(7) spr(8) _G[name]()";
+    const output = processLua(input, options);
+
+    expect(output).not.toContain("local");
+    expect(output).toContain("spr(8)");
+  });
+
+  it("should not alias a library whose table is used directly", () => {
+    const input = "math.sin(1) math.sin(2) math.sin(3) math.sin(4) math.sin(5) local m = math";
+    const output = processLua(input, options);
+
+    expect(output).toContain("math.sin(5)");
+  });
+
+  it("should keep user globals global when MINIFICATION OFF blocks are present", () => {
+    const input = [
+      "counter = 0",
+      "counter = counter + 1 counter = counter + 1",
+      "spr(1) spr(2) spr(3) spr(4) spr(5) spr(6) spr(7) spr(8)",
+      "-- MINIFICATION OFF",
+      "trace(counter)",
+      "-- MINIFICATION ON",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toContain("counter=counter+1");
+    expect(output).toContain("local A=spr");
+    expect(output).toContain("trace(counter)");
+  });
+
+  it("should respect the limit of 200 active locals", () => {
+    const locals = Array.from({ length: 199 }, (_, i) => `local v${i} = ${i}`).join("\n");
+    const input = `${locals}\nspr(1) spr(2) spr(3) spr(4) ${"cls(0) ".repeat(9)}`;
+    const output = processLua(input, options);
+
+    const declaration = output.match(/^local ([A-Z,]+)=/)?.[1];
+    expect(declaration).toBe("A");
+    expect(output).toContain("A(0)");
+    expect(output).toContain("spr(4)");
+  });
+});
+
+describe("Lua local renaming for compression", () => {
+  const options: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 500,
+    optimizeFor: "compressed",
+    renameLocalVariables: true,
+    aliasRepeatedExpressions: false,
+    aliasLiterals: false,
+    packLocalDeclarations: false,
+    simplifyExpressions: false,
+    removeUnusedLocals: false,
+    removeUnusedFunctions: false,
+    aliasGlobals: false,
+    functionNamesToKeep: [],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  it("should reuse names in sibling scopes without shadowing outer locals", () => {
+    const input = [
+      "local count = 0",
+      "function f(x, y) count = count + x return y end",
+      "function g(x, y) for i = 1, x do count = count + i end return y end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe(
+      "local a=0 function f(b,c) a=a+b return c end function g(b,c) for d=1,b do a=a+d end return c end\n",
+    );
+  });
+
+  it("should not name locals after globals the code uses", () => {
+    const input = "function f(x) return a + b + x end";
+    const output = processLua(input, options);
+
+    expect(output).toBe("function f(c) return a+b+c end\n");
+  });
+});
+
+describe("Lua constant inlining", () => {
+  const options: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 500,
+    optimizeFor: "size",
+    renameLocalVariables: false,
+    aliasRepeatedExpressions: false,
+    aliasLiterals: false,
+    packLocalDeclarations: false,
+    simplifyExpressions: true,
+    removeUnusedLocals: false,
+    removeUnusedFunctions: false,
+    aliasGlobals: false,
+    functionNamesToKeep: [],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  it("should inline top-level constants across functions and fold them", () => {
+    const input = [
+      "local SPEED = 2",
+      "local W = 240",
+      "function TIC()",
+      "  x = x + SPEED",
+      "  if x > W - 8 then x = 0 end",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("function TIC() x=x+2 if x>232 then x=0 end end\n");
+  });
+
+  it("should only inline top-level strings when that doesn't grow the code", () => {
+    const input = [
+      'local TITLE = "space invaders"',
+      'local SEP = "-"',
+      'local LONG = "repeated" ---@const',
+      "function TIC()",
+      "  print(TITLE) print(TITLE) print(TITLE) print(SEP .. SEP)",
+      "  print(LONG, LONG, LONG)",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe(
+      'local TITLE="space invaders" function TIC() print(TITLE) print(TITLE) print(TITLE) print("--") ' +
+        'print("repeated","repeated","repeated") end\n',
+    );
+  });
+
+  it("should keep locals which are reassigned or shadowed", () => {
+    const input = [
+      "local n, K = 0, 1",
+      "function f() n = n + 1 end",
+      "function g(K) return K end",
+      "print(K)",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("local n=0 function f() n=n+1 end function g(K) return K end print(1)\n");
+  });
+
+  it("should inline tables of constants read by field", () => {
+    const input = [
+      'local TUNING = { speed = 2, ["jump"] = 4 }',
+      "function f() return TUNING.speed * TUNING.jump end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("function f() return 8 end\n");
+  });
+
+  it("should keep tables which are used as tables", () => {
+    const input = "local TUNING = { speed = 2 }\nfor k, v in pairs(TUNING) do print(k, TUNING.speed) end";
+    const output = processLua(input, options);
+
+    expect(output).toContain("local TUNING={speed=2}");
+    expect(output).toContain("TUNING.speed");
+  });
+
+  it("should inline ---@const locals in any scope", () => {
+    const input = [
+      "function f()",
+      "  ---@const",
+      "  local STEP = 4",
+      "  local OFFSET = 8 ---@const",
+      "  for i = 1, 10 do g(i * STEP + OFFSET) end",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("function f() for i=1,10 do g(i*4+8) end end\n");
+  });
+
+  it("should apply a trailing ---@const to its own statement only", () => {
+    const input = [
+      "function f()",
+      "  local STEP = 4 ---@const",
+      "  local count = 0",
+      "  count = count + STEP",
+      "  return count",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("function f() local count=0 count=count+4 return count end\n");
+  });
+
+  it("should reject ---@const locals which can't be inlined", () => {
+    const input = "function f()\n  local n = 0 ---@const\n  n = n + 1\nend";
+
+    expect(() => processLua(input, options)).toThrow(`---@const local "n" can't be inlined: it is assigned to`);
+  });
+
+  it("should only inline ---@const locals when MINIFICATION OFF blocks are present", () => {
+    const input = [
+      "local A = 1",
+      "local B = 2 ---@const",
+      "print(A, B)",
+      "-- MINIFICATION OFF",
+      "print(A)",
+      "-- MINIFICATION ON",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toContain("local A=1");
+    expect(output).not.toContain("B");
+  });
+});
+
+describe("Lua dead-branch elimination", () => {
+  const options: OptimizationRuleOptions = {
+    stripComments: true,
+    maxIndentLevel: 1,
+    lineBehavior: "tight",
+    maxLineLength: 500,
+    optimizeFor: "size",
+    renameLocalVariables: false,
+    aliasRepeatedExpressions: false,
+    aliasLiterals: false,
+    packLocalDeclarations: false,
+    simplifyExpressions: true,
+    removeUnusedLocals: true,
+    removeUnusedFunctions: true,
+    aliasGlobals: false,
+    functionNamesToKeep: ["TIC"],
+    renameTableFields: false,
+    tableEntryKeysToRename: [],
+  };
+
+  it("should drop clauses with constant conditions", () => {
+    const output = processLua("if false then a() elseif x then b() elseif 1 then c() elseif y then d() end", options);
+
+    expect(output).toBe("if x then b() else c() end\n");
+  });
+
+  it("should keep the scope of an always-taken branch", () => {
+    const output = processLua("if true then local v = f() g(v) end\nif 2 > 1 then h() end", options);
+
+    expect(output).toBe("do local v=f() g(v) end h()\n");
+  });
+
+  it("should remove debug code behind a constant flag, and what only it used", () => {
+    const input = [
+      "local DEBUG = false",
+      "local function draw_hud(label) print(label, 0, 0) end",
+      "function TIC()",
+      "  cls(0)",
+      "  if DEBUG then draw_hud(\"fps\") end",
+      "  if not DEBUG then spr(1, 8, 8) end",
+      "end",
+    ].join("\n");
+    const output = processLua(input, options);
+
+    expect(output).toBe("function TIC() cls(0) spr(1,8,8) end\n");
+  });
+});
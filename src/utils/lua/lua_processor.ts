@@ -6,9 +6,10 @@ import { packLocalDeclarationsInAST } from "./lua_pack_locals";
 import { simplifyExpressionsInAST } from "./lua_simplify";
 import { removeUnusedLocalsInAST } from "./lua_remove_unused_locals";
 import { removeUnusedFunctionsInAST } from "./lua_remove_unused_functions";
+import { aliasGlobalsInAST } from "./lua_alias_globals";
 import { renameTableFieldsInAST } from "./lua_rename_table_fields";
 import { renameAllowedTableKeysInAST } from "./lua_rename_allowed_table_keys";
-import { extractLuaBlocks, replaceLuaBlock, toLuaStringLiteral } from "./lua_fundamentals";
+import { ExtractedLuaBlock, extractLuaBlocks, replaceLuaBlock, toLuaStringLiteral } from "./lua_fundamentals";
 
 export type OptimizationRuleOptions = {
   stripComments: boolean; //
@@ -18,6 +19,11 @@ export type OptimizationRuleOptions = {
   // single-line-blocks packs only when an entire block fits on one line.
   lineBehavior: "pretty" | "tight" | "single-line-blocks";
   maxLineLength: number;
+
+  // What the rules minimize: "size" is the character count (CODE chunk), "compressed" the deflated size
+  // (CODE_COMPRESSED). For "compressed", renamed locals reuse names across scopes, and the importer builds
+  // with each enabled rule turned off in turn, keeping whichever output compresses smallest.
+  optimizeFor: "size" | "compressed";
   renameLocalVariables: boolean;
   aliasRepeatedExpressions: boolean;
 
@@ -30,6 +36,9 @@ export type OptimizationRuleOptions = {
   // Simplify expressions by folding constants and propagating simple constant locals.
   // * folds basic arithmetic, boolean logic, and string concatenation when operands are literals.
   // * propagates locals that are assigned literal values until they are reassigned or shadowed.
+  // * inlines top-level locals (and `---@const` locals anywhere) that are never reassigned, removing
+  //   the declaration; tables of literal fields are inlined as `T.field` reads.
+  // * removes `if` branches whose condition is constant.
   simplifyExpressions: boolean;
 
   // Remove local declarations that are never referenced (and whose initializers are side-effect free).
@@ -39,6 +48,11 @@ export type OptimizationRuleOptions = {
   // Uses a conservative approach and always preserves functions in functionNamesToKeep.
   removeUnusedFunctions: boolean;
 
+  // Hoist frequently used globals (spr, math.sin, user globals, ...) into short locals at the top of the chunk.
+  // * respects the 200-local limit; TIC-80 callbacks and functionNamesToKeep stay global.
+  // * skipped entirely when the code accesses globals dynamically (_G, _ENV, load, ...).
+  aliasGlobals: boolean;
+
   // Names of functions that must not be removed.
   // Intended for entrypoints and externally-referenced API surfaces.
   functionNamesToKeep: string[];
@@ -78,6 +92,21 @@ export type OptimizationRuleOptions = {
   // simple tiny case has side-effects we can't guarantee won't break.
 };
 
+// output offset -> input offset, recorded where each printed statement starts.
+// an output offset maps to the start of the statement containing it.
+export type LuaSourceMark = {
+  outputOffset: number;
+  inputOffset: number;
+};
+
+export type LuaProcessResult = {
+  code: string;
+  marks: LuaSourceMark[]; // sorted by outputOffset
+};
+
+// tight mode tokens; statement starts carry the statement's input offset.
+type TightToken = string | { text: string; inputOffset: number };
+
 // Precedence tables, low → high
 const LOGICAL_PRECEDENCE: Record<string, number> = {
   or: 1,
@@ -133,6 +162,9 @@ export class LuaPrinter {
   private currentLine = "";
   private blockComments: Map<luaparse.Statement[], luaparse.Comment[]>;
   private inlineMode = false; // When true, render everything on single lines without packing
+  private marks: LuaSourceMark[] = [];
+  private inlineMarks: LuaSourceMark[] = []; // from the last renderInlineStatement, relative to its output
+  private bufLength = 0; // total length of buf
 
   constructor(options: OptimizationRuleOptions, blockComments?: Map<luaparse.Statement[], luaparse.Comment[]>) {
     this.options = options;
@@ -141,6 +173,7 @@ export class LuaPrinter {
 
   print(chunk: luaparse.Chunk): string {
     const mode = this.options.lineBehavior || "pretty";
+    this.marks = [];
 
     // For tight mode, use the token-stream approach
     if (mode === "tight") {
@@ -149,6 +182,7 @@ export class LuaPrinter {
 
     // For pretty and single-line-blocks, use structured approach
     this.buf = [];
+    this.bufLength = 0;
     this.currentLine = "";
     this.indentLevel = 0;
     this.printBlock(chunk.body);
@@ -156,6 +190,12 @@ export class LuaPrinter {
     return this.buf.join("");
   }
 
+  // statement marks from the last print(). statements inside function expressions aren't marked;
+  // they map to the enclosing statement.
+  getMarks(): LuaSourceMark[] {
+    return this.marks;
+  }
+
   // ===== TIGHT MODE: Token-stream based packing =====
   // Renders everything to space-separated tokens, then packs into lines
 
@@ -165,7 +205,7 @@ export class LuaPrinter {
   }
 
   // Collect all tokens from a block of statements
-  private collectTokens(body: luaparse.Statement[]): string[] {
+  private collectTokens(body: luaparse.Statement[]): TightToken[] {
     const comments = [...(this.blockComments.get(body) || [])];
     const items: Array<luaparse.Statement | luaparse.Comment> = [];
     let ci = 0;
@@ -182,13 +222,17 @@ export class LuaPrinter {
       ci++;
     }
 
-    const tokens: string[] = [];
+    const tokens: TightToken[] = [];
     for (const node of items) {
       if (node.type === "Comment") {
         // Comments get special handling - they force a line break
         tokens.push("\n" + this.renderComment(node as luaparse.Comment));
       } else {
         const stmtTokens = this.statementToTokens(node as luaparse.Statement);
+        const inputOffset = this.inputOffset(node);
+        if (stmtTokens.length > 0 && inputOffset !== null && typeof stmtTokens[0] === "string") {
+          stmtTokens[0] = { text: stmtTokens[0], inputOffset };
+        }
         tokens.push(...stmtTokens);
       }
     }
@@ -197,8 +241,8 @@ export class LuaPrinter {
 
   // Convert a statement to tokens (space-separated pieces)
   // For maximum packing flexibility, we separate keywords from their arguments
-  private statementToTokens(stmt: luaparse.Statement): string[] {
-    const tokens: string[] = [];
+  private statementToTokens(stmt: luaparse.Statement): TightToken[] {
+    const tokens: TightToken[] = [];
 
     switch (stmt.type) {
       case "AssignmentStatement": {
@@ -313,23 +357,31 @@ export class LuaPrinter {
   }
 
   // Pack tokens into lines respecting maxLineLength
-  private packTokensIntoLines(tokens: string[]): string {
+  private packTokensIntoLines(tokens: TightToken[]): string {
     const maxLen = this.options.maxLineLength || 120;
     const lines: string[] = [];
     let currentLine = "";
+    let linesLength = 0; // length of lines joined, including the newline after each
 
-    for (const token of tokens) {
+    const pushLine = (line: string) => {
+      lines.push(line);
+      linesLength += line.length + 1;
+    };
+
+    for (const tightToken of tokens) {
+      const token = typeof tightToken === "string" ? tightToken : tightToken.text;
       // Special case: comment tokens start with \n and force a new line
       if (token.startsWith("\n")) {
         if (currentLine.length > 0) {
-          lines.push(currentLine);
+          pushLine(currentLine);
           currentLine = "";
         }
-        lines.push(token.slice(1)); // Remove the leading \n marker
+        pushLine(token.slice(1)); // Remove the leading \n marker
         continue;
       }
 
       if (currentLine.length === 0) {
+        this.markToken(tightToken, linesLength);
         currentLine = token;
       } else {
         const candidate = currentLine + " " + token;
@@ -340,21 +392,29 @@ export class LuaPrinter {
         const fits = isEndToken ? candidate.length < maxLen : candidate.length <= maxLen;
 
         if (fits) {
+          this.markToken(tightToken, linesLength + currentLine.length + 1);
           currentLine = candidate;
         } else {
-          lines.push(currentLine);
+          pushLine(currentLine);
+          this.markToken(tightToken, linesLength);
           currentLine = token;
         }
       }
     }
 
     if (currentLine.length > 0) {
-      lines.push(currentLine);
+      pushLine(currentLine);
     }
 
     return lines.join("\n") + (lines.length > 0 ? "\n" : "");
   }
 
+  private markToken(token: TightToken, outputOffset: number) {
+    if (typeof token !== "string") {
+      this.marks.push({ outputOffset, inputOffset: token.inputOffset });
+    }
+  }
+
   // Render a comment for tight mode
   private renderComment(comment: luaparse.Comment): string {
     if (comment.raw) {
@@ -374,10 +434,44 @@ export class LuaPrinter {
   }
 
   private flushLine() {
-    this.buf.push(this.currentLine + "\n");
+    this.pushBuf(this.currentLine + "\n");
     this.currentLine = "";
   }
 
+  private pushBuf(s: string) {
+    this.buf.push(s);
+    this.bufLength += s.length;
+  }
+
+  // offset in the output where the next emitted text will land
+  private outputLength(): number {
+    return this.bufLength + this.currentLine.length;
+  }
+
+  // marks a statement placed at outputOffset from renderInlineStatement, along with the statements inside it.
+  private markInlineStatement(stmt: luaparse.Statement, outputOffset: number) {
+    this.markStatement(stmt, outputOffset);
+    for (const mark of this.inlineMarks) {
+      this.marks.push({ outputOffset: mark.outputOffset + outputOffset, inputOffset: mark.inputOffset });
+    }
+  }
+
+  // nodes created by AST passes may have no range; they map to the preceding statement.
+  private inputOffset(node: luaparse.Statement | luaparse.Comment): number | null {
+    const range = (node as { range?: [number, number] }).range;
+    if (node.type === "Comment" || !Array.isArray(range)) {
+      return null;
+    }
+    return range[0];
+  }
+
+  private markStatement(node: luaparse.Statement | luaparse.Comment, outputOffset: number) {
+    const inputOffset = this.inputOffset(node);
+    if (inputOffset !== null) {
+      this.marks.push({ outputOffset, inputOffset });
+    }
+  }
+
   private emitKeyword(s: string) {
     this.emit(s);
   }
@@ -391,7 +485,7 @@ export class LuaPrinter {
 
   private printIndent() {
     const indentLevel = Math.min(this.indentLevel, this.options.maxIndentLevel);
-    this.buf.push(this.indentUnit.repeat(indentLevel));
+    this.pushBuf(this.indentUnit.repeat(indentLevel));
     //   if (!this.options.stripWhitespace) {
     //      this.buf.push(this.indentUnit.repeat(this.indentLevel));
     //   }
@@ -422,6 +516,7 @@ export class LuaPrinter {
       for (let i = 0; i < items.length; i++) {
         const node = items[i];
         if (i > 0) this.emit(" ");
+        this.markStatement(node, this.outputLength());
         this.printStatementInline(node);
       }
       return;
@@ -431,6 +526,7 @@ export class LuaPrinter {
     if (mode === "pretty") {
       for (const node of items) {
         this.printIndent();
+        this.markStatement(node, this.outputLength());
         this.printStatement(node);
       }
       return;
@@ -467,14 +563,17 @@ export class LuaPrinter {
 
         if (candidate.length < maxLen || this.currentLine.length === 0) {
           if (this.currentLine.length === 0) {
+            this.markInlineStatement(stmt, this.bufLength + indent.length);
             this.currentLine = indent + inline;
           } else {
+            this.markInlineStatement(stmt, this.outputLength() + 1);
             this.currentLine = this.currentLine + " " + inline;
           }
           continue;
         }
         // Doesn't fit on current line, but inline exists - start new line with inline
         flushLineIfAny();
+        this.markInlineStatement(stmt, this.bufLength + indent.length);
         this.currentLine = indent + inline;
         continue;
       }
@@ -482,6 +581,7 @@ export class LuaPrinter {
       // Fallback to normal multi-line printing for this statement
       flushLineIfAny();
       this.printIndent();
+      this.markStatement(stmt, this.outputLength());
       this.printStatement(node);
     }
 
@@ -820,6 +920,8 @@ export class LuaPrinter {
     temp.currentLine = "";
     temp.printStatementInline(stmt);
     const out = temp.currentLine.trim();
+    const lead = temp.currentLine.length - temp.currentLine.trimStart().length;
+    this.inlineMarks = temp.marks.map((m) => ({ outputOffset: m.outputOffset - lead, inputOffset: m.inputOffset }));
 
     // If it exceeds maxLen, cannot inline
     if (out.length > maxLen) {
@@ -1309,12 +1411,17 @@ export function parseLua(code: string): luaparse.Chunk | null {
 }
 
 export function processLua(code: string, ruleOptions: OptimizationRuleOptions): string {
+  return processLuaWithSourceMarks(code, ruleOptions).code;
+}
+
+// processLua, also reporting where each output statement came from in `code`.
+export function processLuaWithSourceMarks(code: string, ruleOptions: OptimizationRuleOptions): LuaProcessResult {
   // Apply optimization rules
   //const options = {...DEFAULT_OPTIMIZATION_RULES, ...ruleOptions};
 
   // Strip debug blocks and lines before parsing (line-based string matching)
-  let processedCode = code;
-  processedCode = disambiguateNumericConcat(processedCode);
+  const concat = disambiguateNumericConcat(code);
+  let processedCode = concat.code;
   // if (ruleOptions.stripDebugBlocks) {
   //    // Strip debug blocks
   //    processedCode = replaceLuaBlock(processedCode, "-- BEGIN_DEBUG_ONLY", "-- END_DEBUG_ONLY", "");
@@ -1340,16 +1447,22 @@ export function processLua(code: string, ruleOptions: OptimizationRuleOptions):
   let ast = parseLua(processedCode);
   if (!ast) {
     console.error("Failed to parse Lua code; returning original code.");
-    return code;
+    return { code, marks: buildLineSourceMarks(code) };
   }
   //console.log("Parsed Lua AST:", ast);
 
+  // kept for annotations like `---@const`
+  const comments = ast.comments ?? [];
   if (ruleOptions.stripComments) {
     ast.comments = [];
   }
 
   if (ruleOptions.simplifyExpressions) {
-    ast = simplifyExpressionsInAST(ast);
+    ast = simplifyExpressionsInAST(ast, {
+      comments,
+      // code in MINIFICATION OFF blocks could reference top-level locals by name
+      inlineTopLevelConstants: disableMinify.blocks.length === 0,
+    });
   }
 
   if (ruleOptions.removeUnusedLocals) {
@@ -1362,6 +1475,14 @@ export function processLua(code: string, ruleOptions: OptimizationRuleOptions):
     });
   }
 
+  if (ruleOptions.aliasGlobals) {
+    ast = aliasGlobalsInAST(ast, {
+      functionNamesToKeep: ruleOptions.functionNamesToKeep,
+      // code in MINIFICATION OFF blocks could reference user globals by name
+      aliasUserGlobals: disableMinify.blocks.length === 0,
+    });
+  }
+
   if (ruleOptions.aliasLiterals) {
     ast = aliasLiteralsInAST(ast);
   }
@@ -1375,7 +1496,7 @@ export function processLua(code: string, ruleOptions: OptimizationRuleOptions):
   }
 
   if (ruleOptions.renameLocalVariables) {
-    ast = renameLocalVariablesInAST(ast);
+    ast = renameLocalVariablesInAST(ast, { reuseNames: ruleOptions.optimizeFor === "compressed" });
   }
 
   if (ruleOptions.tableEntryKeysToRename && ruleOptions.tableEntryKeysToRename.length > 0) {
@@ -1386,38 +1507,120 @@ export function processLua(code: string, ruleOptions: OptimizationRuleOptions):
     ast = renameTableFieldsInAST(ast);
   }
 
-  const minified = unparseLua(ast, ruleOptions);
-  return reinsertDisableMinificationBlocks(minified, disableMinify.blocks);
+  const printer = new LuaPrinter(ruleOptions, buildCommentMap(ast));
+  const minified = printer.print(ast);
+
+  // printed offsets refer to processedCode; take them back through the text edits made above.
+  const blockEdits: TextEdit[] = disableMinify.blocks.map((b) => ({ before: b.srcRange, after: b.codeRange }));
+  const marks = printer.getMarks().map((m) => ({
+    outputOffset: m.outputOffset,
+    inputOffset: unmapEditedOffset(concat.edits, unmapEditedOffset(blockEdits, m.inputOffset)),
+  }));
+  return reinsertDisableMinificationBlocks(minified, marks, disableMinify.blocks, concat.edits);
 }
 
-function disambiguateNumericConcat(code: string): string {
-  // Insert a space before concatenation when a numeric literal is immediately followed by `..`.
-  // Examples: `15.."x"` -> `15 .."x"`, `.15.."x"` -> `.15 .."x"`
-  return code.replace(/(\d(?:\.\d+)?|\.\d+)\.\./g, "$1 ..");
+// identity marks at each line start, for code which isn't reprinted.
+export function buildLineSourceMarks(code: string): LuaSourceMark[] {
+  const marks: LuaSourceMark[] = [];
+  let offset = 0;
+  while (offset < code.length) {
+    marks.push({ outputOffset: offset, inputOffset: offset });
+    const eol = code.indexOf("\n", offset);
+    if (eol < 0) break;
+    offset = eol + 1;
+  }
+  return marks;
 }
 
-type DisabledMinificationBlock = {
-  placeholder: string; //
-  content: string;
+// a text replacement; ranges in the text before / after the edit.
+type TextEdit = {
+  before: [number, number];
+  after: [number, number];
 };
 
+// maps an offset in edited text back to the text before the edits. edits are sorted and don't overlap.
+// offsets within replaced text map to the start of the original span.
+function unmapEditedOffset(edits: TextEdit[], offset: number): number {
+  let lo = 0;
+  let hi = edits.length - 1;
+  let found = -1; // last edit starting at or before offset
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (edits[mid].after[0] <= offset) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found < 0) {
+    return offset;
+  }
+  const edit = edits[found];
+  if (offset < edit.after[1]) {
+    return edit.before[0];
+  }
+  return edit.before[1] + (offset - edit.after[1]);
+}
+
+function disambiguateNumericConcat(code: string): { code: string; edits: TextEdit[] } {
+  // Insert a space before concatenation when a numeric literal is immediately followed by `..`.
+  // Examples: `15.."x"` -> `15 .."x"`, `.15.."x"` -> `.15 .."x"`
+  const edits: TextEdit[] = [];
+  const out = code.replace(/(\d(?:\.\d+)?|\.\d+)\.\./g, (match: string, num: string, offset: number) => {
+    const at = offset + num.length;
+    const shifted = at + edits.length;
+    edits.push({ before: [at, at], after: [shifted, shifted + 1] });
+    return num + " ..";
+  });
+  return { code: out, edits };
+}
+
 // Escape special characters in a string for use in a RegExp
 function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-function reinsertDisableMinificationBlocks(src: string, blocks: DisabledMinificationBlock[]): string {
-  if (blocks.length === 0) return src;
+function reinsertDisableMinificationBlocks(
+  src: string,
+  marks: LuaSourceMark[],
+  blocks: ExtractedLuaBlock[],
+  concatEdits: TextEdit[],
+): LuaProcessResult {
+  if (blocks.length === 0) return { code: src, marks };
 
   let out = src;
+  let outMarks = marks;
   for (const b of blocks) {
     // normalize line endings and trim trailing newlines from the block content
     const normalized = b.content.replace(/\r?\n/g, "\n").replace(/\n+$/g, "");
     const replacement = `\n${normalized}\n`;
 
     // remove surrounding whitespace introduced by tight packing.
-    const re = new RegExp(`[\\t ]*${escapeRegExp(b.placeholder)}[\\t ]*`, "g");
-    out = out.replace(re, replacement);
+    const re = new RegExp(`[\\t ]*${escapeRegExp(b.placeholder)}[\\t ]*`);
+    const match = re.exec(out);
+    if (!match) continue;
+    const start = match.index;
+    const end = start + match[0].length;
+    const delta = replacement.length - match[0].length;
+
+    // verbatim lines map one to one
+    const blockMarks: LuaSourceMark[] = [];
+    let contentIndex = 0;
+    let outOffset = start + 1;
+    for (const line of normalized.split("\n")) {
+      const inputOffset = unmapEditedOffset(concatEdits, b.contentOffset + contentIndex);
+      blockMarks.push({ outputOffset: outOffset, inputOffset });
+      contentIndex += line.length + (b.content.startsWith("\r\n", contentIndex + line.length) ? 2 : 1);
+      outOffset += line.length + 1;
+    }
+
+    outMarks = [
+      ...outMarks.filter((m) => m.outputOffset < start),
+      ...blockMarks,
+      ...outMarks.filter((m) => m.outputOffset >= end).map((m) => ({ ...m, outputOffset: m.outputOffset + delta })),
+    ];
+    out = out.slice(0, start) + replacement + out.slice(end);
   }
-  return out;
+  return { code: out, marks: outMarks };
 }
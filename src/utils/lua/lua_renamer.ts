@@ -1,14 +1,16 @@
 import * as luaparse from "luaparse";
-import { isIdentifier, LUA_RESERVED_WORDS } from "./lua_ast";
+import { isIdentifier, LUA_RESERVED_WORDS, walkAST } from "./lua_ast";
 import { generateShortName } from "./lua_utils";
 
 // tracks scope hierarchy for variable rename scope
 class RenameScope {
   private parent: RenameScope | null;
   private mappings = new Map<string, string>();
+  nextNameIndex: number; // used when reusing names
 
   constructor(parent: RenameScope | null = null) {
     this.parent = parent;
+    this.nextNameIndex = parent?.nextNameIndex ?? 0;
   }
 
   define(originalName: string, newName: string): void {
@@ -26,12 +28,35 @@ class RenameScope {
   }
 }
 
-export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
+export type RenameLocalVariablesOptions = {
+  // Name each scope's locals starting after those of the enclosing scopes, instead of giving every local
+  // a unique name. Sibling functions then get the same parameter names (`function(a,b)`), which compresses
+  // better. Names used anywhere in the original code are skipped, so that no global gets shadowed.
+  reuseNames?: boolean;
+};
+
+export function renameLocalVariablesInAST(
+  ast: luaparse.Chunk,
+  options: RenameLocalVariablesOptions = {},
+): luaparse.Chunk {
   let nameCounter = 0;
   //const usedNamesGlobal = new Set<string>();
 
-  function generateUniqueName(): string {
+  const originalNames = new Set<string>();
+  if (options.reuseNames) {
+    walkAST(ast, (node) => {
+      if (node.type === "Identifier") originalNames.add(node.name);
+    });
+  }
+
+  function generateUniqueName(scope: RenameScope): string {
     let name: string;
+    if (options.reuseNames) {
+      do {
+        name = generateShortName(scope.nextNameIndex++);
+      } while (LUA_RESERVED_WORDS.has(name) || originalNames.has(name));
+      return name;
+    }
     do {
       name = generateShortName(nameCounter++);
     } while (LUA_RESERVED_WORDS.has(name));
@@ -56,7 +81,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
         // Then declare variables in current scope
         node.variables.forEach((v: any) => {
           if (isIdentifier(v)) {
-            const newName = generateUniqueName();
+            const newName = generateUniqueName(scope);
             scope.define(v.name, newName);
             v.name = newName; // Mutate the AST
           }
@@ -67,7 +92,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
       case "FunctionDeclaration": {
         // Handle local function name
         if (node.isLocal && node.identifier && isIdentifier(node.identifier)) {
-          const newName = generateUniqueName();
+          const newName = generateUniqueName(scope);
           scope.define(node.identifier.name, newName);
           node.identifier.name = newName;
         } else if (node.identifier) {
@@ -81,7 +106,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
         // Rename parameters
         node.parameters.forEach((p: any) => {
           if (isIdentifier(p)) {
-            const newName = generateUniqueName();
+            const newName = generateUniqueName(funcScope);
             funcScope.define(p.name, newName);
             p.name = newName;
           }
@@ -102,7 +127,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
 
         // Rename loop variable
         if (isIdentifier(node.variable)) {
-          const newName = generateUniqueName();
+          const newName = generateUniqueName(forScope);
           forScope.define(node.variable.name, newName);
           node.variable.name = newName;
         }
@@ -120,7 +145,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
         // Rename loop variables
         node.variables.forEach((v: any) => {
           if (isIdentifier(v)) {
-            const newName = generateUniqueName();
+            const newName = generateUniqueName(forScope);
             forScope.define(v.name, newName);
             v.name = newName;
           }
@@ -194,7 +219,7 @@ export function renameLocalVariablesInAST(ast: luaparse.Chunk): luaparse.Chunk {
 
         node.parameters.forEach((p: any) => {
           if (isIdentifier(p)) {
-            const newName = generateUniqueName();
+            const newName = generateUniqueName(funcScope);
             funcScope.define(p.name, newName);
             p.name = newName;
           }
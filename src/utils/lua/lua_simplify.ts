@@ -1,4 +1,5 @@
 import * as luaparse from "luaparse";
+import {walkAST} from "./lua_ast";
 import {LiteralNode, StringLiteralNode, stringValue} from "./lua_utils";
 
 
@@ -578,13 +579,434 @@ function simplifyStatement(stmt: luaparse.Statement, scope: PropScope): void {
    }
 }
 
+// Statements to run in place of a block; wrapped in `do ... end` when its locals or a `return` need the block.
+function unwrapBlock(body: luaparse.Statement[]): luaparse.Statement[] {
+   const needsBlock = body.some(stmt => stmt.type === "LocalStatement" || stmt.type === "ReturnStatement" ||
+                                        stmt.type === "LabelStatement" ||
+                                        (stmt.type === "FunctionDeclaration" && stmt.isLocal));
+   if (!needsBlock)
+      return body;
+   const doStatement: luaparse.DoStatement = {type: "DoStatement", body};
+   return [doStatement];
+}
+
+// Dead-branch elimination: drops clauses whose condition is a falsy constant, and everything after
+// a clause whose condition is a truthy constant. Returns null when nothing changes.
+function pruneIfStatement(stmt: luaparse.IfStatement): luaparse.Statement[]|null {
+   const clauses: luaparse.IfStatement["clauses"] = [];
+   for (const clause of stmt.clauses) {
+      if (clause.type === "ElseClause") {
+         clauses.push(clause);
+         break;
+      }
+      if (!isLiteral(clause.condition)) {
+         clauses.push(clause);
+         continue;
+      }
+      if (isTruthy(clause.condition)) {
+         // always taken; becomes the `else`
+         clauses.push({...clause, type: "ElseClause", condition: undefined} as unknown as luaparse.ElseClause);
+         break;
+      }
+   }
+
+   if (clauses.length === stmt.clauses.length && clauses.every((c, i) => c === stmt.clauses[i]))
+      return null;
+   if (clauses.length === 0)
+      return [];
+   if (clauses[0].type === "ElseClause")
+      return unwrapBlock(clauses[0].body);
+   if (clauses[0].type === "ElseifClause")
+      clauses[0] = {...clauses[0], type: "IfClause"} as unknown as luaparse.IfClause;
+   stmt.clauses = clauses;
+   return [stmt];
+}
+
 function simplifyBlock(body: luaparse.Statement[], scope: PropScope): void {
+   const result: luaparse.Statement[] = [];
+   let pruned = false;
    for (const stmt of body) {
       simplifyStatement(stmt, scope);
+      const replacement = stmt.type === "IfStatement" ? pruneIfStatement(stmt) : null;
+      if (replacement) {
+         result.push(...replacement);
+         pruned = true;
+      } else {
+         result.push(stmt);
+      }
+   }
+   // in place; parents hold on to the array
+   if (pruned)
+      body.splice(0, body.length, ...result);
+}
+
+// ============================================================================
+// Constant inlining: locals which are never assigned after their declaration are
+// replaced by their value everywhere they're used, and the declaration removed.
+//
+// * top-level locals initialized with a literal, when inlineTopLevelConstants is set.
+// * top-level locals initialized with a table of literal fields, when only read as `T.field`.
+//   strings are skipped when copying them into every use would grow the code.
+// * any local annotated with `---@const` (alone on the line before, or at the end of the line);
+//   those are inlined regardless of size, and it's an error when they can't be inlined.
+// ============================================================================
+
+type ConstValue = LiteralNode|Map<string, LiteralNode>;
+
+type ConstCandidate = {
+   name: string; //
+   statement: luaparse.LocalStatement;
+   body: luaparse.Statement[]; // containing the statement
+   value: ConstValue|null;     // null when the initializer isn't constant
+   forced: boolean;
+   uses: luaparse.Node[]; // identifiers (literal values) or `T.field` member expressions (tables)
+   problem: string|null;  // why it can't be inlined
+};
+
+type ConstScope = {
+   bindings: Map<string, ConstCandidate|null>; // null for locals which aren't candidates
+   parent: ConstScope|null;
+};
+
+export type SimplifyOptions = {
+   // luaparse comments of the chunk, for `---@const` annotations
+   comments?: luaparse.Comment[];
+   // inline every top-level local initialized with a constant; off when other code (e.g. MINIFICATION OFF
+   // blocks) could reference them by name.
+   inlineTopLevelConstants?: boolean;
+};
+
+type ConstAnnotations = {
+   statementEnds: Set<number>; // trailing `---@const`: offsets where the annotated statements end
+   nextLines: Set<number>;     // `---@const` alone on its line: the lines right below
+};
+
+// luaparse's typings leave out `range`, though the parser is run with `ranges: true`
+function rangeOf(node: luaparse.Node|luaparse.Comment): [number, number]|null {
+   return (node as {range?: [number, number]}).range ?? null;
+}
+
+// a `---@const` trailing code annotates the statement it follows; one alone on its line, the statement below
+function collectConstAnnotations(ast: luaparse.Chunk, comments: luaparse.Comment[]): ConstAnnotations {
+   const annotations: ConstAnnotations = {statementEnds: new Set(), nextLines: new Set()};
+   const consts = comments.filter(c => c.raw.trim() === "---@const" && rangeOf(c) && c.loc);
+   if (consts.length === 0)
+      return annotations;
+
+   // where nodes start and end; the last one before a comment tells what code precedes it on its line
+   const boundaries: {offset: number; line: number}[] = [];
+   walkAST(ast.body, node => {
+      if (node.range && node.loc) {
+         boundaries.push({offset: node.range[0], line: node.loc.start.line});
+         boundaries.push({offset: node.range[1], line: node.loc.end.line});
+      }
+   });
+
+   for (const comment of consts) {
+      let before: {offset: number; line: number}|null = null;
+      for (const b of boundaries) {
+         if (b.offset <= rangeOf(comment)![0] && (!before || b.offset > before.offset))
+            before = b;
+      }
+      if (before && before.line === comment.loc!.start.line)
+         annotations.statementEnds.add(before.offset);
+      else
+         annotations.nextLines.add(comment.loc!.start.line + 1);
+   }
+   return annotations;
+}
+
+function readConstValue(expr: luaparse.Expression|undefined): ConstValue|null {
+   if (!expr)
+      return null;
+   if (isLiteral(expr))
+      return expr;
+   if (expr.type !== "TableConstructorExpression")
+      return null;
+   const fields = new Map<string, LiteralNode>();
+   for (const field of expr.fields) {
+      if (!isLiteral(field.value))
+         return null;
+      if (field.type === "TableKeyString")
+         fields.set(field.key.name, field.value);
+      else if (field.type === "TableKey" && field.key.type === "StringLiteral" &&
+               stringValue(field.key as StringLiteralNode) != null)
+         fields.set(stringValue(field.key as StringLiteralNode)!, field.value);
+      else
+         return null;
+   }
+   return fields;
+}
+
+// replaces a node in place, so parents don't need updating
+function replaceNodeWithLiteral(node: luaparse.Node, literal: LiteralNode): void {
+   const target = node as unknown as Record<string, unknown>;
+   for (const key of Object.keys(target)) {
+      if (key !== "range" && key !== "loc")
+         delete target[key];
+   }
+   Object.assign(target, cloneLiteral(literal));
+}
+
+function collectConstCandidates(ast: luaparse.Chunk, options: SimplifyOptions): ConstCandidate[] {
+   const annotations = collectConstAnnotations(ast, options.comments ?? []);
+   const candidates: ConstCandidate[] = [];
+
+   const isAnnotated = (stmt: luaparse.LocalStatement) =>
+      annotations.statementEnds.has(rangeOf(stmt)?.[1] ?? -1) ||
+      (!!stmt.loc && annotations.nextLines.has(stmt.loc.start.line));
+
+   const resolve = (scope: ConstScope|null, name: string): ConstCandidate|null => {
+      for (let s = scope; s; s = s.parent) {
+         if (s.bindings.has(name))
+            return s.bindings.get(name)!;
+      }
+      return null;
+   };
+
+   const invalidate = (candidate: ConstCandidate|null, problem: string) => {
+      if (candidate && !candidate.problem)
+         candidate.problem = problem;
+   };
+
+   function visitTarget(target: luaparse.Expression, scope: ConstScope): void {
+      if (target.type === "Identifier") {
+         invalidate(resolve(scope, target.name), "it is assigned to");
+         return;
+      }
+      if ((target.type === "MemberExpression" || target.type === "IndexExpression") &&
+          target.base.type === "Identifier") {
+         invalidate(resolve(scope, target.base.name), "it is written to");
+         if (target.type === "IndexExpression")
+            visitExpr(target.index, scope);
+         return;
+      }
+      visitExpr(target, scope);
+   }
+
+   function visitFunction(fn: luaparse.FunctionDeclaration, scope: ConstScope): void {
+      const fnScope: ConstScope = {bindings: new Map(), parent: scope};
+      fn.parameters.forEach(p => {
+         if (p.type === "Identifier")
+            fnScope.bindings.set(p.name, null);
+      });
+      if (fn.identifier?.type === "MemberExpression" && fn.identifier.indexer === ":")
+         fnScope.bindings.set("self", null);
+      visitBlock(fn.body, fnScope);
+   }
+
+   // `valueUse`: the expression is only used as a value (not called, indexed, ...)
+   function visitExpr(node: luaparse.Expression|null|undefined, scope: ConstScope, valueUse = true): void {
+      if (!node)
+         return;
+
+      switch (node.type) {
+         case "Identifier": {
+            const candidate = resolve(scope, node.name);
+            if (!candidate)
+               break;
+            if (!valueUse || candidate.value instanceof Map)
+               invalidate(candidate, "it is used other than as a value");
+            else
+               candidate.uses.push(node);
+            break;
+         }
+
+         case "FunctionDeclaration":
+            visitFunction(node, scope);
+            break;
+
+         case "MemberExpression": {
+            const candidate = node.base.type === "Identifier" ? resolve(scope, node.base.name) : null;
+            if (candidate && candidate.value instanceof Map) {
+               if (node.indexer === "." && valueUse && candidate.value.has(node.identifier.name))
+                  candidate.uses.push(node);
+               else
+                  invalidate(candidate, "it is used other than by reading its fields");
+               break;
+            }
+            visitExpr(node.base, scope, false);
+            break;
+         }
+
+         case "IndexExpression":
+            visitExpr(node.base, scope, false);
+            visitExpr(node.index, scope);
+            break;
+
+         case "CallExpression":
+            visitExpr(node.base, scope, false);
+            node.arguments.forEach(arg => visitExpr(arg, scope));
+            break;
+
+         case "TableCallExpression":
+            visitExpr(node.base, scope, false);
+            visitExpr(node.arguments, scope);
+            break;
+
+         case "StringCallExpression":
+            visitExpr(node.base, scope, false);
+            break;
+
+         case "TableConstructorExpression":
+            node.fields.forEach(field => {
+               if (field.type === "TableKey")
+                  visitExpr(field.key, scope);
+               visitExpr(field.value, scope);
+            });
+            break;
+
+         case "BinaryExpression":
+         case "LogicalExpression":
+            visitExpr(node.left, scope);
+            visitExpr(node.right, scope);
+            break;
+
+         case "UnaryExpression":
+            visitExpr(node.argument, scope);
+            break;
+      }
+   }
+
+   function visitStatement(stmt: luaparse.Statement, body: luaparse.Statement[], scope: ConstScope): void {
+      switch (stmt.type) {
+         case "LocalStatement": {
+            stmt.init.forEach(expr => visitExpr(expr, scope));
+            const forced = isAnnotated(stmt);
+            const topLevel = scope.parent === null && !!options.inlineTopLevelConstants;
+            stmt.variables.forEach((v, idx) => {
+               if (!forced && !topLevel) {
+                  scope.bindings.set(v.name, null);
+                  return;
+               }
+               // extra initializers are evaluated but not assigned; keep those statements as they are
+               const value = stmt.init.length <= stmt.variables.length ? readConstValue(stmt.init[idx]) : null;
+               const candidate: ConstCandidate =
+                  {name: v.name, statement: stmt, body, value, forced, uses: [], problem: null};
+               if (!value)
+                  candidate.problem = "it is not initialized with a literal or a table of literal fields";
+               candidates.push(candidate);
+               scope.bindings.set(v.name, candidate);
+            });
+            break;
+         }
+
+         case "AssignmentStatement":
+            stmt.variables.forEach(v => visitTarget(v, scope));
+            stmt.init.forEach(expr => visitExpr(expr, scope));
+            break;
+
+         case "CallStatement":
+            visitExpr(stmt.expression, scope);
+            break;
+
+         case "FunctionDeclaration":
+            if (stmt.isLocal && stmt.identifier?.type === "Identifier")
+               scope.bindings.set(stmt.identifier.name, null);
+            else if (stmt.identifier)
+               visitTarget(stmt.identifier, scope);
+            visitFunction(stmt, scope);
+            break;
+
+         case "ReturnStatement":
+            stmt.arguments.forEach(arg => visitExpr(arg, scope));
+            break;
+
+         case "IfStatement":
+            stmt.clauses.forEach(clause => {
+               if (clause.type !== "ElseClause")
+                  visitExpr(clause.condition, scope);
+               visitBlock(clause.body, {bindings: new Map(), parent: scope});
+            });
+            break;
+
+         case "WhileStatement":
+            visitExpr(stmt.condition, scope);
+            visitBlock(stmt.body, {bindings: new Map(), parent: scope});
+            break;
+
+         case "RepeatStatement": {
+            // `until` sees the body's locals
+            const bodyScope: ConstScope = {bindings: new Map(), parent: scope};
+            visitBlock(stmt.body, bodyScope);
+            visitExpr(stmt.condition, bodyScope);
+            break;
+         }
+
+         case "ForNumericStatement":
+            visitExpr(stmt.start, scope);
+            visitExpr(stmt.end, scope);
+            visitExpr(stmt.step, scope);
+            visitBlock(stmt.body, {bindings: new Map([[stmt.variable.name, null]]), parent: scope});
+            break;
+
+         case "ForGenericStatement":
+            stmt.iterators.forEach(it => visitExpr(it, scope));
+            visitBlock(stmt.body, {bindings: new Map(stmt.variables.map(v => [v.name, null])), parent: scope});
+            break;
+
+         case "DoStatement":
+            visitBlock(stmt.body, {bindings: new Map(), parent: scope});
+            break;
+      }
+   }
+
+   function visitBlock(body: luaparse.Statement[], scope: ConstScope): void {
+      body.forEach(stmt => visitStatement(stmt, body, scope));
+   }
+
+   visitBlock(ast.body, {bindings: new Map(), parent: null});
+   return candidates;
+}
+
+// the literal a use of the candidate is replaced with
+function constLiteralFor(candidate: ConstCandidate, use: luaparse.Node): LiteralNode {
+   const value = candidate.value!;
+   return value instanceof Map ? value.get((use as luaparse.MemberExpression).identifier.name)! : value;
+}
+
+// strings are copied into every use, so they're only inlined when that's no longer than their `NAME=...` declaration
+function inliningGrowsCode(candidate: ConstCandidate): boolean {
+   const value = candidate.value!;
+   const declarationCost = candidate.name.length + 1 +
+      (value instanceof Map ? [...value].reduce((n, [key, lit]) => n + key.length + lit.raw.length + 2, 1)
+                            : value.raw.length);
+   let inlinedStringCost = 0;
+   for (const use of candidate.uses) {
+      const literal = constLiteralFor(candidate, use);
+      if (literal.type === "StringLiteral")
+         inlinedStringCost += literal.raw.length;
+   }
+   return inlinedStringCost > declarationCost;
+}
+
+function inlineConstants(ast: luaparse.Chunk, options: SimplifyOptions): boolean {
+   const candidates = collectConstCandidates(ast, options);
+   for (const candidate of candidates) {
+      if (candidate.forced && candidate.problem)
+         throw new Error(`---@const local "${candidate.name}" can't be inlined: ${candidate.problem}`);
+   }
+
+   // `---@const` inlines regardless of size
+   const inlined = candidates.filter(c => !c.problem && (c.forced || !inliningGrowsCode(c)));
+   for (const candidate of inlined) {
+      for (const use of candidate.uses)
+         replaceNodeWithLiteral(use, constLiteralFor(candidate, use));
+      const stmt = candidate.statement;
+      const idx = stmt.variables.findIndex(v => v.name === candidate.name);
+      stmt.variables.splice(idx, 1);
+      if (idx < stmt.init.length)
+         stmt.init.splice(idx, 1);
+      if (stmt.variables.length === 0)
+         candidate.body.splice(candidate.body.indexOf(stmt), 1);
    }
+   return inlined.length > 0;
 }
 
-export function simplifyExpressionsInAST(ast: luaparse.Chunk): luaparse.Chunk {
+export function simplifyExpressionsInAST(ast: luaparse.Chunk, options: SimplifyOptions = {}): luaparse.Chunk {
    simplifyBlock(ast.body, freshScope());
+   // fold again with the inlined values
+   if (inlineConstants(ast, options))
+      simplifyBlock(ast.body, freshScope());
    return ast;
 }
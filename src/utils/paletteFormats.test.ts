@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  deducePaletteFormatFromPath,
+  parseActPalette,
+  parseGplPalette,
+  parseHexPalette,
+  parseJascPalette,
+} from "./paletteFormats";
+import { fitPaletteColors } from "./tic80/graphics";
+
+describe("palette file formats", () => {
+  it("should deduce formats from extensions", () => {
+    expect(deducePaletteFormatFromPath("a/b/sweetie.GPL")).toBe("gpl");
+    expect(deducePaletteFormatFromPath("x.act")).toBe("act");
+    expect(deducePaletteFormatFromPath("x.pal")).toBe("jasc");
+    expect(deducePaletteFormatFromPath("x.hex")).toBe("hex");
+    expect(deducePaletteFormatFromPath("x.png")).toBeUndefined();
+  });
+
+  it("should parse GIMP palettes", () => {
+    const text = ["GIMP Palette", "Name: test", "Columns: 2", "# comment", " 26  28  44\tdark", "255 0 128"].join("\n");
+    expect(Array.from(parseGplPalette(text))).toEqual([26, 28, 44, 255, 0, 128]);
+    expect(() => parseGplPalette("26 28 44")).toThrow("GIMP Palette");
+    expect(() => parseGplPalette("GIMP Palette\n300 0 0")).toThrow("line 2");
+  });
+
+  it("should parse JASC palettes", () => {
+    const text = "JASC-PAL\r\n0100\r\n2\r\n26 28 44\r\n255 0 128\r\n";
+    expect(Array.from(parseJascPalette(text))).toEqual([26, 28, 44, 255, 0, 128]);
+    expect(() => parseJascPalette("JASC-PAL\n0100\n3\n1 2 3\n")).toThrow("declares 3 colors");
+  });
+
+  it("should parse lospec hex palettes", () => {
+    expect(Array.from(parseHexPalette("1a1c2c\n#FF0080\n\n"))).toEqual([0x1a, 0x1c, 0x2c, 0xff, 0x00, 0x80]);
+    expect(() => parseHexPalette("1a1c2\n")).toThrow("line 1");
+  });
+
+  it("should parse ACT palettes using the trailing color count", () => {
+    const data = new Uint8Array(fs.readFileSync(path.resolve(__dirname, "..", "..", "templates", "assets", "piggy.ACT")));
+    const colors = parseActPalette(data);
+    expect(colors.length).toBe(16 * 3);
+    expect(Array.from(colors.subarray(0, 6))).toEqual([0x55, 0x77, 0x99, 0xff, 0xcc, 0xcc]);
+
+    // without the footer, all 256 colors are returned.
+    expect(parseActPalette(data.subarray(0, 768)).length).toBe(768);
+    expect(() => parseActPalette(new Uint8Array(10))).toThrow("768");
+  });
+});
+
+describe("fitPaletteColors", () => {
+  const colors = (n: number) => new Uint8Array(n * 3).fill(7);
+
+  it("should require exactly 16 colors by default", () => {
+    expect(fitPaletteColors(colors(16), "exact").length).toBe(48);
+    expect(() => fitPaletteColors(colors(15), "exact")).toThrow('"pad"');
+    expect(() => fitPaletteColors(colors(17), "exact")).toThrow('"truncate"');
+  });
+
+  it("should pad with black or truncate when allowed", () => {
+    const padded = fitPaletteColors(colors(2), "pad");
+    expect(padded.length).toBe(48);
+    expect(padded[5]).toBe(7);
+    expect(padded[6]).toBe(0);
+    expect(() => fitPaletteColors(colors(17), "pad")).toThrow();
+
+    expect(fitPaletteColors(colors(256), "truncate").length).toBe(48);
+    expect(() => fitPaletteColors(colors(2), "truncate")).toThrow();
+
+    expect(fitPaletteColors(colors(2), "padOrTruncate").length).toBe(48);
+    expect(fitPaletteColors(colors(20), "padOrTruncate").length).toBe(48);
+  });
+});
@@ -0,0 +1,142 @@
+// parsers for common palette file formats.
+// all parsers return packed RGB bytes (3 bytes per color).
+
+import { defineEnum } from "./enum";
+
+export const kPaletteFormat = defineEnum({
+  gpl: { value: "gpl", extensions: [".gpl"], description: "GIMP palette" },
+  act: { value: "act", extensions: [".act"], description: "Adobe color table" },
+  jasc: { value: "jasc", extensions: [".pal"], description: "JASC-PAL (Paint Shop Pro)" },
+  hex: { value: "hex", extensions: [".hex"], description: "lospec hex (one RRGGBB per line)" },
+} as const);
+
+export type PaletteFormatKey = typeof kPaletteFormat.$key;
+
+export function deducePaletteFormatFromPath(path: string): PaletteFormatKey | undefined {
+  const lower = path.toLowerCase();
+  for (const info of kPaletteFormat.infos) {
+    if (info.extensions.some((ext) => lower.endsWith(ext))) {
+      return info.key;
+    }
+  }
+  return undefined;
+}
+
+function packColors(colors: number[][]): Uint8Array {
+  const out = new Uint8Array(colors.length * 3);
+  colors.forEach((c, i) => out.set(c, i * 3));
+  return out;
+}
+
+function parseComponent(token: string, lineNumber: number, format: string): number {
+  const value = Number.parseInt(token, 10);
+  if (!/^\d+$/.test(token) || value > 255) {
+    throw new Error(`${format} palette: invalid color component '${token}' on line ${lineNumber}`);
+  }
+  return value;
+}
+
+// GIMP palette:
+// GIMP Palette
+// Name: whatever
+// Columns: 4
+// # comment
+//  26  28  44	name
+export function parseGplPalette(text: string): Uint8Array {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== "GIMP Palette") {
+    throw new Error(`GPL palette: missing 'GIMP Palette' header`);
+  }
+  const colors: number[][] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "" || line.startsWith("#") || /^(Name|Columns)\s*:/i.test(line)) {
+      continue;
+    }
+    const tokens = line.split(/\s+/);
+    if (tokens.length < 3) {
+      throw new Error(`GPL palette: expected 'R G B' on line ${i + 1}`);
+    }
+    colors.push(tokens.slice(0, 3).map((t) => parseComponent(t, i + 1, "GPL")));
+  }
+  return packColors(colors);
+}
+
+// JASC palette:
+// JASC-PAL
+// 0100
+// 16
+// 26 28 44
+export function parseJascPalette(text: string): Uint8Array {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l !== "");
+  if (lines[0] !== "JASC-PAL") {
+    throw new Error(`JASC palette: missing 'JASC-PAL' header`);
+  }
+  const count = Number.parseInt(lines[2], 10);
+  if (Number.isNaN(count)) {
+    throw new Error(`JASC palette: invalid color count '${lines[2]}'`);
+  }
+  const colorLines = lines.slice(3);
+  if (colorLines.length < count) {
+    throw new Error(`JASC palette: header declares ${count} colors but only ${colorLines.length} are present`);
+  }
+  const colors = colorLines.slice(0, count).map((line, i) => {
+    const tokens = line.split(/\s+/);
+    if (tokens.length < 3) {
+      throw new Error(`JASC palette: expected 'R G B' on line ${i + 4}`);
+    }
+    return tokens.slice(0, 3).map((t) => parseComponent(t, i + 4, "JASC"));
+  });
+  return packColors(colors);
+}
+
+// lospec .hex: one color per line, RRGGBB with optional leading '#'.
+export function parseHexPalette(text: string): Uint8Array {
+  const colors: number[][] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim().replace(/^#/, "");
+    if (line === "") {
+      continue;
+    }
+    if (!/^[0-9a-fA-F]{6}$/.test(line)) {
+      throw new Error(`HEX palette: expected RRGGBB on line ${i + 1}; got '${lines[i].trim()}'`);
+    }
+    const value = Number.parseInt(line, 16);
+    colors.push([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+  }
+  return packColors(colors);
+}
+
+// Adobe color table: 256 RGB triplets (768 bytes), optionally followed by
+// a 16-bit big-endian color count and a 16-bit transparent color index.
+export function parseActPalette(data: Uint8Array): Uint8Array {
+  if (data.length !== 768 && data.length !== 772) {
+    throw new Error(`ACT palette: expected 768 or 772 bytes; got ${data.length}`);
+  }
+  let count = 256;
+  if (data.length === 772) {
+    const declared = (data[768] << 8) | data[769];
+    if (declared > 0 && declared <= 256) {
+      count = declared;
+    }
+  }
+  return data.slice(0, count * 3);
+}
+
+export function parsePaletteFile(format: PaletteFormatKey, data: Uint8Array): Uint8Array {
+  const text = () => new TextDecoder("utf-8").decode(data);
+  switch (format) {
+    case "gpl":
+      return parseGplPalette(text());
+    case "jasc":
+      return parseJascPalette(text());
+    case "hex":
+      return parseHexPalette(text());
+    case "act":
+      return parseActPalette(data);
+  }
+}
@@ -0,0 +1,34 @@
+import * as path from "node:path";
+import { getTic80ExecutableName, getUserDataDir, getWellKnownTic80Locations } from "./platform";
+
+describe("platform", () => {
+  it("should name the TIC-80 executable per platform", () => {
+    expect(getTic80ExecutableName("win32")).toBe("tic80.exe");
+    expect(getTic80ExecutableName("linux")).toBe("tic80");
+    expect(getTic80ExecutableName("darwin")).toBe("tic80");
+  });
+
+  it("should locate the user data dir per platform", () => {
+    const env = { LOCALAPPDATA: "C:\\Users\\me\\AppData\\Local" };
+    expect(getUserDataDir({ platform: "win32", env, homeDir: "C:\\Users\\me" })).toBe("C:\\Users\\me\\AppData\\Local");
+    expect(getUserDataDir({ platform: "win32", env: {}, homeDir: "C:\\Users\\me" })).toBeUndefined();
+    expect(getUserDataDir({ platform: "darwin", env, homeDir: "/Users/me" })).toBe(
+      path.join("/Users/me", "Library", "Application Support"),
+    );
+    expect(getUserDataDir({ platform: "linux", env: {}, homeDir: "/home/me" })).toBe(
+      path.join("/home/me", ".local", "share"),
+    );
+    expect(getUserDataDir({ platform: "linux", env: { XDG_DATA_HOME: "/data" }, homeDir: "/home/me" })).toBe("/data");
+    // relative XDG paths are invalid per the spec
+    expect(getUserDataDir({ platform: "linux", env: { XDG_DATA_HOME: "data" }, homeDir: "/home/me" })).toBe(
+      path.join("/home/me", ".local", "share"),
+    );
+  });
+
+  it("should list app bundle locations on macOS", () => {
+    expect(getWellKnownTic80Locations({ platform: "darwin", env: {}, homeDir: "/Users/me" })).toContain(
+      "/Applications/tic80.app/Contents/MacOS/tic80",
+    );
+    expect(getWellKnownTic80Locations({ platform: "win32", env: {}, homeDir: "C:\\Users\\me" })).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+// per-OS conventions for locating TIC-80 and its per-user data.
+// platform/env/home are parameters so tests can exercise every OS from any OS.
+
+import * as os from "node:os";
+import * as path from "node:path";
+
+export type PlatformInfo = {
+  platform: NodeJS.Platform;
+  env: NodeJS.ProcessEnv;
+  homeDir: string;
+};
+
+export function getCurrentPlatformInfo(): PlatformInfo {
+  return { platform: process.platform, env: process.env, homeDir: os.homedir() };
+}
+
+// "tic80.exe" on Windows, "tic80" elsewhere.
+export function getTic80ExecutableName(platform: NodeJS.Platform = process.platform): string {
+  return platform === "win32" ? "tic80.exe" : "tic80";
+}
+
+// where a TIC-80 installed outside of PATH usually lives; checked after PATH.
+export function getWellKnownTic80Locations(info: PlatformInfo = getCurrentPlatformInfo()): string[] {
+  switch (info.platform) {
+    case "darwin":
+      return [
+        "/Applications/tic80.app/Contents/MacOS/tic80",
+        path.join(info.homeDir, "Applications", "tic80.app", "Contents", "MacOS", "tic80"),
+      ];
+    case "win32":
+      return [];
+    default:
+      return ["/usr/bin/tic80", "/usr/local/bin/tic80", "/snap/bin/tic80"];
+  }
+}
+
+// the per-user application data root, under which TIC-80 keeps its "TIC-80" dir:
+// - Windows: %LOCALAPPDATA%
+// - macOS:   ~/Library/Application Support
+// - others:  $XDG_DATA_HOME, defaulting to ~/.local/share
+export function getUserDataDir(info: PlatformInfo = getCurrentPlatformInfo()): string | undefined {
+  switch (info.platform) {
+    case "win32":
+      return info.env.LOCALAPPDATA || undefined;
+    case "darwin":
+      return info.homeDir ? path.join(info.homeDir, "Library", "Application Support") : undefined;
+    default:
+      if (info.env.XDG_DATA_HOME && path.isAbsolute(info.env.XDG_DATA_HOME)) {
+        return info.env.XDG_DATA_HOME;
+      }
+      return info.homeDir ? path.join(info.homeDir, ".local", "share") : undefined;
+  }
+}
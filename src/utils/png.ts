@@ -0,0 +1,384 @@
+// minimal PNG decoder / encoder (no external deps; deflate via node zlib)
+// https://www.w3.org/TR/png/
+//
+// supports all standard color types and bit depths, non-interlaced and Adam7 interlaced.
+// output is always 8-bit RGBA, row-major.
+
+import * as zlib from "zlib";
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  data: Uint8Array; // width * height * 4 bytes, RGBA
+};
+
+const kPngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const kColorType = {
+  grayscale: 0,
+  rgb: 2,
+  indexed: 3,
+  grayscaleAlpha: 4,
+  rgba: 6,
+} as const;
+
+// samples per pixel for each color type
+const kChannelCount: Record<number, number> = {
+  [kColorType.grayscale]: 1,
+  [kColorType.rgb]: 3,
+  [kColorType.indexed]: 1,
+  [kColorType.grayscaleAlpha]: 2,
+  [kColorType.rgba]: 4,
+};
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const kAdam7Passes = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+type PngHeader = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+};
+
+function readUint32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+export function isPngData(data: Uint8Array): boolean {
+  if (data.length < kPngSignature.length) {
+    return false;
+  }
+  return kPngSignature.every((b, i) => data[i] === b);
+}
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  if (pb <= pc) {
+    return b;
+  }
+  return c;
+}
+
+// reverses the per-scanline filters in place; returns the unfiltered rows (without filter type bytes).
+function unfilterScanlines(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rowCount: number,
+  bytesPerPixel: number,
+): Uint8Array {
+  const out = new Uint8Array(rowBytes * rowCount);
+  for (let y = 0; y < rowCount; y++) {
+    const filterType = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const dst = y * rowBytes;
+    const prev = dst - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[src + x];
+      const left = x >= bytesPerPixel ? out[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[prev + x - bytesPerPixel] : 0;
+      let value: number;
+      switch (filterType) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paethPredictor(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`PNG: invalid scanline filter type ${filterType}`);
+      }
+      out[dst + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+// reads sample N of a row of packed samples (any bit depth), scaled to 0..255 unless raw is set (for palette indices).
+function readSample(row: Uint8Array, rowOffset: number, index: number, bitDepth: number, raw: boolean): number {
+  switch (bitDepth) {
+    case 16:
+      // take the high byte
+      return row[rowOffset + index * 2];
+    case 8:
+      return row[rowOffset + index];
+    default: {
+      const bitOffset = index * bitDepth;
+      const byte = row[rowOffset + (bitOffset >> 3)];
+      const shift = 8 - bitDepth - (bitOffset & 7);
+      const maxValue = (1 << bitDepth) - 1;
+      const value = (byte >> shift) & maxValue;
+      return raw ? value : Math.round((value * 255) / maxValue);
+    }
+  }
+}
+
+function readRawSample16(row: Uint8Array, rowOffset: number, index: number): number {
+  return (row[rowOffset + index * 2] << 8) | row[rowOffset + index * 2 + 1];
+}
+
+export function decodePng(data: Uint8Array): RgbaImage {
+  if (!isPngData(data)) {
+    throw new Error(`PNG: invalid signature`);
+  }
+
+  let header: PngHeader | undefined;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const idatParts: Uint8Array[] = [];
+
+  let offset = kPngSignature.length;
+  while (offset + 8 <= data.length) {
+    const length = readUint32BE(data, offset);
+    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+    const bodyStart = offset + 8;
+    const bodyEnd = bodyStart + length;
+    if (bodyEnd + 4 > data.length) {
+      throw new Error(`PNG: chunk ${type} is truncated`);
+    }
+    const body = data.subarray(bodyStart, bodyEnd);
+    offset = bodyEnd + 4; // skip CRC
+
+    if (type === "IHDR") {
+      header = {
+        width: readUint32BE(body, 0),
+        height: readUint32BE(body, 4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlace: body[12],
+      };
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idatParts.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error(`PNG: missing IHDR chunk`);
+  }
+  const { width, height, bitDepth, colorType, interlace } = header;
+  const channels = kChannelCount[colorType];
+  if (channels === undefined) {
+    throw new Error(`PNG: unsupported color type ${colorType}`);
+  }
+  if (![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`PNG: unsupported bit depth ${bitDepth}`);
+  }
+  if (colorType === kColorType.indexed && !palette) {
+    throw new Error(`PNG: indexed image is missing PLTE chunk`);
+  }
+  if (idatParts.length === 0) {
+    throw new Error(`PNG: missing IDAT chunk`);
+  }
+
+  const inflated = new Uint8Array(zlib.inflateSync(Buffer.concat(idatParts)));
+  const out = new Uint8Array(width * height * 4);
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+
+  // transparent color key for grayscale / rgb images (compared at full sample precision)
+  const colorKey =
+    transparency && colorType === kColorType.grayscale
+      ? [(transparency[0] << 8) | transparency[1]]
+      : transparency && colorType === kColorType.rgb
+        ? [
+            (transparency[0] << 8) | transparency[1],
+            (transparency[2] << 8) | transparency[3],
+            (transparency[4] << 8) | transparency[5],
+          ]
+        : undefined;
+
+  const readRawSample = (row: Uint8Array, rowOffset: number, index: number): number => {
+    return bitDepth === 16 ? readRawSample16(row, rowOffset, index) : readSample(row, rowOffset, index, bitDepth, true);
+  };
+
+  const writePixel = (rows: Uint8Array, rowOffset: number, x: number, dstIndex: number) => {
+    const o = dstIndex * 4;
+    const base = x * channels;
+    switch (colorType) {
+      case kColorType.grayscale: {
+        const v = readSample(rows, rowOffset, base, bitDepth, false);
+        out[o] = out[o + 1] = out[o + 2] = v;
+        out[o + 3] = colorKey && readRawSample(rows, rowOffset, base) === colorKey[0] ? 0 : 255;
+        break;
+      }
+      case kColorType.rgb: {
+        out[o] = readSample(rows, rowOffset, base, bitDepth, false);
+        out[o + 1] = readSample(rows, rowOffset, base + 1, bitDepth, false);
+        out[o + 2] = readSample(rows, rowOffset, base + 2, bitDepth, false);
+        const keyed =
+          colorKey &&
+          readRawSample(rows, rowOffset, base) === colorKey[0] &&
+          readRawSample(rows, rowOffset, base + 1) === colorKey[1] &&
+          readRawSample(rows, rowOffset, base + 2) === colorKey[2];
+        out[o + 3] = keyed ? 0 : 255;
+        break;
+      }
+      case kColorType.indexed: {
+        const index = readSample(rows, rowOffset, base, bitDepth, true);
+        if (index * 3 + 2 >= palette!.length) {
+          throw new Error(`PNG: palette index ${index} out of range`);
+        }
+        out[o] = palette![index * 3];
+        out[o + 1] = palette![index * 3 + 1];
+        out[o + 2] = palette![index * 3 + 2];
+        out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case kColorType.grayscaleAlpha: {
+        const v = readSample(rows, rowOffset, base, bitDepth, false);
+        out[o] = out[o + 1] = out[o + 2] = v;
+        out[o + 3] = readSample(rows, rowOffset, base + 1, bitDepth, false);
+        break;
+      }
+      case kColorType.rgba: {
+        out[o] = readSample(rows, rowOffset, base, bitDepth, false);
+        out[o + 1] = readSample(rows, rowOffset, base + 1, bitDepth, false);
+        out[o + 2] = readSample(rows, rowOffset, base + 2, bitDepth, false);
+        out[o + 3] = readSample(rows, rowOffset, base + 3, bitDepth, false);
+        break;
+      }
+    }
+  };
+
+  // decodes one (sub)image starting at the given offset into the inflated stream; returns bytes consumed.
+  const decodePass = (
+    streamOffset: number,
+    passWidth: number,
+    passHeight: number,
+    toIndex: (x: number, y: number) => number,
+  ): number => {
+    if (passWidth === 0 || passHeight === 0) {
+      return 0;
+    }
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const consumed = (rowBytes + 1) * passHeight;
+    if (streamOffset + consumed > inflated.length) {
+      throw new Error(`PNG: image data is truncated`);
+    }
+    const rows = unfilterScanlines(inflated, streamOffset, rowBytes, passHeight, bytesPerPixel);
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(rows, y * rowBytes, x, toIndex(x, y));
+      }
+    }
+    return consumed;
+  };
+
+  if (interlace === 0) {
+    decodePass(0, width, height, (x, y) => y * width + x);
+  } else if (interlace === 1) {
+    let streamOffset = 0;
+    for (const [x0, y0, dx, dy] of kAdam7Passes) {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      streamOffset += decodePass(streamOffset, Math.max(0, passWidth), Math.max(0, passHeight), (x, y) => {
+        return (y0 + y * dy) * width + (x0 + x * dx);
+      });
+    }
+  } else {
+    throw new Error(`PNG: unsupported interlace method ${interlace}`);
+  }
+
+  return { width, height, data: out };
+}
+
+let gCrcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!gCrcTable) {
+    gCrcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      gCrcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = gCrcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeUint32BE(out: Uint8Array, offset: number, value: number) {
+  out[offset] = (value >>> 24) & 0xff;
+  out[offset + 1] = (value >>> 16) & 0xff;
+  out[offset + 2] = (value >>> 8) & 0xff;
+  out[offset + 3] = value & 0xff;
+}
+
+function encodeChunk(type: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + body.length);
+  writeUint32BE(out, 0, body.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(body, 8);
+  writeUint32BE(out, 8 + body.length, crc32(out.subarray(4, 8 + body.length)));
+  return out;
+}
+
+// encodes an 8-bit RGBA image (no filtering; fine for small pixel-art images).
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const header = new Uint8Array(13);
+  writeUint32BE(header, 0, width);
+  writeUint32BE(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = kColorType.rgba;
+
+  const rowBytes = width * 4;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (rowBytes + 1)] = 0; // filter: none
+    raw.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const parts = [
+    new Uint8Array(kPngSignature),
+    encodeChunk("IHDR", header),
+    encodeChunk("IDAT", new Uint8Array(zlib.deflateSync(raw))),
+    encodeChunk("IEND", new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,49 @@
+import { diffLines, formatUnifiedDiff } from "./textDiff";
+
+describe("diffLines", () => {
+  it("should produce a minimal edit script", () => {
+    const ops = diffLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"]);
+    expect(ops.map((op) => `${op.kind[0]}${op.line}`)).toEqual(["ea", "db", "ix", "ec", "ed", "ie"]);
+  });
+
+  it("should handle empty inputs", () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ["a"])).toEqual([{ kind: "insert", line: "a" }]);
+    expect(diffLines(["a"], [])).toEqual([{ kind: "delete", line: "a" }]);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  const a = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"];
+
+  it("should return nothing for identical input", () => {
+    expect(formatUnifiedDiff(diffLines(a, a), "a", "b")).toEqual([]);
+  });
+
+  it("should emit hunks with context and merge nearby changes", () => {
+    const b = [...a];
+    b[1] = "two";
+    b[10] = "eleven";
+    const separate = formatUnifiedDiff(diffLines(a, b), "a", "b", 1);
+    expect(separate).toEqual([
+      "--- a",
+      "+++ b",
+      "@@ -1,3 +1,3 @@",
+      " 1",
+      "-2",
+      "+two",
+      " 3",
+      "@@ -10,3 +10,3 @@",
+      " 10",
+      "-11",
+      "+eleven",
+      " 12",
+    ]);
+    const merged = formatUnifiedDiff(diffLines(a, b), "a", "b", 4);
+    expect(merged.filter((l) => l.startsWith("@@"))).toEqual(["@@ -1,12 +1,12 @@"]);
+  });
+
+  it("should address pure insertions by the preceding line", () => {
+    expect(formatUnifiedDiff(diffLines([], ["x"]), "a", "b")).toEqual(["--- a", "+++ b", "@@ -0,0 +1,1 @@", "+x"]);
+  });
+});
@@ -0,0 +1,145 @@
+// line-based diff (Myers' O(ND) algorithm) and unified diff formatting.
+// http://www.xmailserver.org/diff2.pdf
+
+export type LineDiffOp = {
+  kind: "equal" | "insert" | "delete";
+  line: string;
+};
+
+// returns the edit script turning a into b.
+export function diffLines(a: string[], b: string[]): LineDiffOp[] {
+  // common prefix / suffix are cheap to strip and keep the O(ND) part small.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: LineDiffOp[] = [];
+  for (let i = 0; i < start; i++) {
+    ops.push({ kind: "equal", line: a[i] });
+  }
+  ops.push(...myersDiff(a.slice(start, endA), b.slice(start, endB)));
+  for (let i = endA; i < a.length; i++) {
+    ops.push({ kind: "equal", line: a[i] });
+  }
+  return ops;
+}
+
+function myersDiff(a: string[], b: string[]): LineDiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3); // v[offset + k] = furthest x on diagonal k
+  const trace: Int32Array[] = []; // v before step d, for diagonals -d-1..d+1
+
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      // step down (insert) from diagonal k+1, or right (delete) from k-1, whichever got further
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  // walk the trace backwards to recover the edit script
+  const ops: LineDiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    const get = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ kind: "insert", line: b[y - 1] });
+    } else {
+      ops.push({ kind: "delete", line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ kind: "equal", line: a[x - 1] });
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+// formats an edit script as unified diff lines (including the ---/+++ header).
+// returns an empty array when there are no changes.
+export function formatUnifiedDiff(ops: LineDiffOp[], labelA: string, labelB: string, context: number = 3): string[] {
+  // line numbers (0-based) in a and b before each op
+  const posA: number[] = [];
+  const posB: number[] = [];
+  let lineA = 0;
+  let lineB = 0;
+  for (const op of ops) {
+    posA.push(lineA);
+    posB.push(lineB);
+    if (op.kind !== "insert") {
+      lineA++;
+    }
+    if (op.kind !== "delete") {
+      lineB++;
+    }
+  }
+
+  const changes = ops.map((op, i) => (op.kind === "equal" ? -1 : i)).filter((i) => i >= 0);
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const out: string[] = [`--- ${labelA}`, `+++ ${labelB}`];
+  let c = 0;
+  while (c < changes.length) {
+    // extend the hunk while the next change is close enough for the context lines to touch
+    const firstChange = changes[c];
+    let lastChange = firstChange;
+    while (c + 1 < changes.length && changes[c + 1] - lastChange <= context * 2 + 1) {
+      c++;
+      lastChange = changes[c];
+    }
+    c++;
+
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+    const hunk = ops.slice(start, end);
+    const countA = hunk.filter((op) => op.kind !== "insert").length;
+    const countB = hunk.filter((op) => op.kind !== "delete").length;
+    // an empty range is addressed by the line before it
+    const startA = countA === 0 ? posA[start] : posA[start] + 1;
+    const startB = countB === 0 ? posB[start] : posB[start] + 1;
+    out.push(`@@ -${startA},${countA} +${startB},${countB} @@`);
+    for (const op of hunk) {
+      const prefix = op.kind === "equal" ? " " : op.kind === "insert" ? "+" : "-";
+      out.push(`${prefix}${op.line}`);
+    }
+  }
+  return out;
+}
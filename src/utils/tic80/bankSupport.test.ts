@@ -21,6 +21,20 @@ describe("TIC-80 cart bank support", () => {
     expect(Array.from(parsed.chunks[1].data)).toEqual([4, 5]);
   });
 
+  it("should keep the given chunk order when requested", async () => {
+    const chunks: Tic80CartChunk[] = [
+      { chunkType: "TILES", bank: 1, data: new Uint8Array([1]) },
+      { chunkType: "CODE", bank: 0, data: new Uint8Array([2]) },
+      { chunkType: "TILES", bank: 0, data: new Uint8Array([3]) },
+    ];
+
+    const sorted = parseTic80Cart(await AssembleTic80Cart({ chunks }));
+    expect(sorted.chunks.map((c) => `${c.chunkType}#${c.bank}`)).toEqual(["TILES#0", "TILES#1", "CODE#0"]);
+
+    const preserved = parseTic80Cart(await AssembleTic80Cart({ chunks }, { preserveChunkOrder: true }));
+    expect(preserved.chunks.map((c) => `${c.chunkType}#${c.bank}`)).toEqual(["TILES#1", "CODE#0", "TILES#0"]);
+  });
+
   it("should reject duplicate chunk type in same bank", async () => {
     const chunks: Tic80CartChunk[] = [
       { chunkType: "CODE", bank: 0, data: new Uint8Array([1]) },
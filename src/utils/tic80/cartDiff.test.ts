@@ -0,0 +1,72 @@
+import { deflateSync } from "node:zlib";
+import { diffTic80Carts, formatIndexRanges, getCartCodeText } from "./cartDiff";
+import { Tic80Cart } from "./tic80";
+
+const encoder = new TextEncoder();
+
+describe("diffTic80Carts", () => {
+  it("should report added, removed, changed and unchanged chunks per type and bank", () => {
+    const tiles = new Uint8Array(32 * 4);
+    const changedTiles = tiles.slice();
+    changedTiles[32 * 1 + 5] = 0x11; // tile 1
+    changedTiles[32 * 3] = 0x22; // tile 3
+
+    const a: Tic80Cart = {
+      chunks: [
+        { chunkType: "CODE", bank: 0, data: encoder.encode("cls()") },
+        { chunkType: "TILES", bank: 0, data: tiles },
+        { chunkType: "MAP", bank: 0, data: new Uint8Array([1, 2, 3]) },
+      ],
+    };
+    const b: Tic80Cart = {
+      chunks: [
+        { chunkType: "TILES", bank: 0, data: changedTiles },
+        { chunkType: "TILES", bank: 1, data: new Uint8Array([9]) },
+        { chunkType: "CODE", bank: 0, data: encoder.encode("cls()") },
+      ],
+    };
+
+    const diffs = diffTic80Carts(a, b);
+    expect(diffs.map((d) => `${d.chunkType}#${d.bank}:${d.status}`)).toEqual([
+      "TILES#0:changed",
+      "TILES#1:added",
+      "MAP#0:removed",
+      "CODE#0:unchanged",
+    ]);
+    expect(diffs[0]).toMatchObject({ sizeA: 128, sizeB: 128, changedBytes: 2, changedElements: [1, 3] });
+    expect(diffs[1]).toMatchObject({ sizeA: 0, sizeB: 1, changedElements: [0] });
+  });
+
+  it("should treat trimmed trailing bytes as zero when summarizing sfx", () => {
+    const sfxA = new Uint8Array(66 * 2);
+    sfxA[66 + 10] = 5;
+    const diffs = diffTic80Carts(
+      { chunks: [{ chunkType: "SFX", bank: 0, data: sfxA }] },
+      { chunks: [{ chunkType: "SFX", bank: 0, data: sfxA.subarray(0, 66) }] },
+    );
+    expect(diffs[0]).toMatchObject({ status: "changed", changedBytes: 1, elementName: "sfx", changedElements: [1] });
+  });
+});
+
+describe("getCartCodeText", () => {
+  it("should combine CODE banks or inflate CODE_COMPRESSED", () => {
+    expect(
+      getCartCodeText({
+        chunks: [
+          { chunkType: "CODE", bank: 0, data: encoder.encode("b") },
+          { chunkType: "CODE", bank: 1, data: encoder.encode("a") },
+        ],
+      }),
+    ).toBe("ab");
+    const compressed = new Uint8Array(deflateSync(Buffer.from("print(1)")));
+    expect(getCartCodeText({ chunks: [{ chunkType: "CODE_COMPRESSED", bank: 0, data: compressed }] })).toBe("print(1)");
+    expect(getCartCodeText({ chunks: [] })).toBeUndefined();
+  });
+});
+
+describe("formatIndexRanges", () => {
+  it("should compact consecutive indices", () => {
+    expect(formatIndexRanges([1, 2, 3, 7, 9, 10])).toBe("1-3, 7, 9-10");
+    expect(formatIndexRanges([])).toBe("");
+  });
+});
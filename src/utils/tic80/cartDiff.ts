@@ -0,0 +1,124 @@
+// compares two parsed TIC-80 carts chunk by chunk.
+
+import { decompressCodeBytes, getCombinedCodeBytes } from "./cartLoader";
+import { kTic80CartChunkTypes, Tic80Cart, Tic80CartChunk, Tic80CartChunkTypeKey } from "./tic80";
+
+export type ChunkDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type ChunkDiff = {
+  chunkType: Tic80CartChunkTypeKey;
+  bank: number;
+  status: ChunkDiffStatus;
+  sizeA: number; // 0 when absent
+  sizeB: number;
+  changedBytes: number; // bytes which differ; the shorter chunk reads as zero-padded
+  elementName?: string; // for chunks made of fixed-size records (tiles, sfx, ...)
+  changedElements?: number[]; // indices of records which differ
+};
+
+// fixed-size records within chunks, for per-tile / per-sfx summaries.
+// sizes follow the TIC-80 RAM layout.
+const kChunkElements: Partial<Record<Tic80CartChunkTypeKey, { name: string; size: number }>> = {
+  TILES: { name: "tile", size: 32 },
+  SPRITES: { name: "sprite", size: 32 },
+  FLAGS: { name: "sprite flags", size: 1 },
+  MAP: { name: "map row", size: 240 },
+  SFX: { name: "sfx", size: 66 },
+  WAVEFORMS: { name: "waveform", size: 16 },
+  PALETTE: { name: "color", size: 3 },
+  MUSIC_TRACKS: { name: "track", size: 51 },
+  MUSIC_PATTERNS: { name: "pattern", size: 192 },
+  SCREEN: { name: "screen row", size: 120 },
+};
+
+function chunkKey(chunk: { chunkType: Tic80CartChunkTypeKey; bank: number }): string {
+  return `${chunk.chunkType}#${chunk.bank}`;
+}
+
+function byteAt(data: Uint8Array, index: number): number {
+  return index < data.length ? data[index] : 0;
+}
+
+function diffChunk(
+  chunkType: Tic80CartChunkTypeKey,
+  bank: number,
+  a: Uint8Array | undefined,
+  b: Uint8Array | undefined,
+): ChunkDiff {
+  const dataA = a ?? new Uint8Array(0);
+  const dataB = b ?? new Uint8Array(0);
+  const length = Math.max(dataA.length, dataB.length);
+  let changedBytes = 0;
+  for (let i = 0; i < length; i++) {
+    if (byteAt(dataA, i) !== byteAt(dataB, i)) {
+      changedBytes++;
+    }
+  }
+
+  const sameBytes = dataA.length === dataB.length && changedBytes === 0;
+  const status: ChunkDiffStatus = !a ? "added" : !b ? "removed" : sameBytes ? "unchanged" : "changed";
+  const result: ChunkDiff = { chunkType, bank, status, sizeA: dataA.length, sizeB: dataB.length, changedBytes };
+
+  const element = kChunkElements[chunkType];
+  if (element) {
+    result.elementName = element.name;
+    result.changedElements = [];
+    const count = Math.ceil(length / element.size);
+    for (let e = 0; e < count; e++) {
+      for (let i = e * element.size; i < (e + 1) * element.size; i++) {
+        if (byteAt(dataA, i) !== byteAt(dataB, i)) {
+          result.changedElements.push(e);
+          break;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+// one entry per (chunkType, bank) present in either cart, sorted by chunk type then bank.
+export function diffTic80Carts(a: Tic80Cart, b: Tic80Cart): ChunkDiff[] {
+  const chunksA = new Map<string, Tic80CartChunk>(a.chunks.map((c) => [chunkKey(c), c]));
+  const chunksB = new Map<string, Tic80CartChunk>(b.chunks.map((c) => [chunkKey(c), c]));
+  const keys = new Map<string, { chunkType: Tic80CartChunkTypeKey; bank: number }>();
+  for (const chunk of [...a.chunks, ...b.chunks]) {
+    keys.set(chunkKey(chunk), { chunkType: chunk.chunkType, bank: chunk.bank });
+  }
+
+  const diffs = Array.from(keys.entries()).map(([key, { chunkType, bank }]) =>
+    diffChunk(chunkType, bank, chunksA.get(key)?.data, chunksB.get(key)?.data),
+  );
+  diffs.sort((x, y) => {
+    const typeDelta = kTic80CartChunkTypes.byKey[x.chunkType].value - kTic80CartChunkTypes.byKey[y.chunkType].value;
+    return typeDelta !== 0 ? typeDelta : x.bank - y.bank;
+  });
+  return diffs;
+}
+
+// the cart's Lua source as TIC-80 would load it (CODE banks combined, or CODE_COMPRESSED inflated).
+export function getCartCodeText(cart: Tic80Cart): string | undefined {
+  let bytes = getCombinedCodeBytes(cart);
+  if (!bytes) {
+    const compressed = cart.chunks.find((c) => c.chunkType === "CODE_COMPRESSED");
+    if (!compressed) {
+      return undefined;
+    }
+    bytes = decompressCodeBytes(compressed.data);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// compacts sorted indices into ranges, e.g. [1, 2, 3, 7] -> "1-3, 7"
+export function formatIndexRanges(indices: number[]): string {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < indices.length) {
+    let j = i;
+    while (j + 1 < indices.length && indices[j + 1] === indices[j] + 1) {
+      j++;
+    }
+    parts.push(i === j ? `${indices[i]}` : `${indices[i]}-${indices[j]}`);
+    i = j + 1;
+  }
+  return parts.join(", ");
+}
@@ -35,7 +35,13 @@ export function serializeChunk(chunkType: Tic80CartChunkTypeKey, data: Uint8Arra
   return new Uint8Array([...header, ...data]);
 }
 
-export async function AssembleTic80Cart(input: Tic80Cart): Promise<Uint8Array> {
+export type AssembleTic80CartOptions = {
+  // write chunks in the given order instead of sorting them by type and bank.
+  // TIC-80 itself saves bank-first, so this is needed to reproduce carts it saved.
+  preserveChunkOrder?: boolean;
+};
+
+export async function AssembleTic80Cart(input: Tic80Cart, options?: AssembleTic80CartOptions): Promise<Uint8Array> {
   // sanity check: no duplicate chunk types
   const seenChunkTypes = new Set<string>();
   for (const chunk of input.chunks) {
@@ -58,14 +64,16 @@ export async function AssembleTic80Cart(input: Tic80Cart): Promise<Uint8Array> {
     },
   );
 
-  // sort by chunk type value, then by bank
-  chunksWithInfo.sort((a, b) => {
-    const typeDelta = a.info.value - b.info.value;
-    if (typeDelta !== 0) {
-      return typeDelta;
-    }
-    return a.chunk.bank - b.chunk.bank;
-  });
+  // sort by chunk type value, then by bank (unless the caller wants its own order kept)
+  if (!options?.preserveChunkOrder) {
+    chunksWithInfo.sort((a, b) => {
+      const typeDelta = a.info.value - b.info.value;
+      if (typeDelta !== 0) {
+        return typeDelta;
+      }
+      return a.chunk.bank - b.chunk.bank;
+    });
+  }
 
   // serialize each chunk
   const serializedChunks: Uint8Array[] = [];
@@ -0,0 +1,131 @@
+// helpers for TIC-80 graphics data (palette, 4bpp tiles)
+
+import { decodeHexString } from "../encoding/hex";
+import { defineEnum } from "../enum";
+
+export const kTic80PaletteColorCount = 16;
+export const kTic80PaletteBytes = kTic80PaletteColorCount * 3; // 48 bytes RGB
+export const kTic80TileSize = 8; // pixels
+export const kTic80TileBytes = (kTic80TileSize * kTic80TileSize) / 2; // 4bpp = 32 bytes per tile
+export const kTic80TilesPerRow = 16; // sprite sheet is 128px wide
+export const kTic80TilesPerBank = 256;
+
+// the default "sweetie 16" palette which TIC-80 uses for new carts.
+export const kTic80DefaultPaletteHex =
+  "1a1c2c5d275db13e53ef7d57ffcd75a7f07038b76425717929366f3b5dc941a6f673eff7f4f4f494b0c2566c86333c57";
+
+// parses a palette in the same format TIC-80 uses in cart source (`-- 000:1a1c2c5d275d...`);
+// 16 colors * 6 hex digits.
+export function parsePaletteHex(hex: string): Uint8Array {
+  const bytes = decodeHexString(hex.replace(/^#/, ""));
+  if (bytes.length !== kTic80PaletteBytes) {
+    throw new Error(
+      `Palette must contain ${kTic80PaletteColorCount} RGB colors (${kTic80PaletteBytes} bytes); got ${bytes.length} bytes`,
+    );
+  }
+  return bytes;
+}
+
+// returns the index of the palette color nearest to the given RGB color (squared euclidean distance).
+// ties resolve to the lowest index.
+export function findNearestPaletteIndex(palette: Uint8Array, r: number, g: number, b: number): number {
+  let bestIndex = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  const colorCount = Math.floor(palette.length / 3);
+  for (let i = 0; i < colorCount; i++) {
+    const dr = palette[i * 3] - r;
+    const dg = palette[i * 3 + 1] - g;
+    const db = palette[i * 3 + 2] - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = i;
+      if (distance === 0) {
+        break;
+      }
+    }
+  }
+  return bestIndex;
+}
+
+// packs a row-major image of palette indices (0..15) into 4bpp 8x8 tiles.
+// tiles are enumerated left-to-right, top-to-bottom; within a tile, pixels are row-major
+// and each byte holds 2 pixels (left pixel in the low nibble).
+export function packIndexedImageToTiles(indices: Uint8Array, width: number, height: number): Uint8Array {
+  if (width % kTic80TileSize !== 0 || height % kTic80TileSize !== 0) {
+    throw new Error(`Image dimensions must be multiples of ${kTic80TileSize}; got ${width}x${height}`);
+  }
+  const tilesX = width / kTic80TileSize;
+  const tilesY = height / kTic80TileSize;
+  const out = new Uint8Array(tilesX * tilesY * kTic80TileBytes);
+  let o = 0;
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      for (let py = 0; py < kTic80TileSize; py++) {
+        const rowStart = (ty * kTic80TileSize + py) * width + tx * kTic80TileSize;
+        for (let px = 0; px < kTic80TileSize; px += 2) {
+          const lo = indices[rowStart + px] & 0x0f;
+          const hi = indices[rowStart + px + 1] & 0x0f;
+          out[o++] = lo | (hi << 4);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// inverse of packIndexedImageToTiles; missing tile data (e.g. a trimmed chunk) reads as index 0.
+export function unpackTilesToIndexedImage(tiles: Uint8Array, width: number, height: number): Uint8Array {
+  if (width % kTic80TileSize !== 0 || height % kTic80TileSize !== 0) {
+    throw new Error(`Image dimensions must be multiples of ${kTic80TileSize}; got ${width}x${height}`);
+  }
+  const tilesX = width / kTic80TileSize;
+  const tilesY = height / kTic80TileSize;
+  const out = new Uint8Array(width * height);
+  let i = 0;
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      for (let py = 0; py < kTic80TileSize; py++) {
+        const rowStart = (ty * kTic80TileSize + py) * width + tx * kTic80TileSize;
+        for (let px = 0; px < kTic80TileSize; px += 2) {
+          const byte = i < tiles.length ? tiles[i] : 0;
+          i++;
+          out[rowStart + px] = byte & 0x0f;
+          out[rowStart + px + 1] = byte >> 4;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// how to handle palettes which don't have exactly 16 colors.
+export const kPaletteFit = defineEnum({
+  exact: { value: "exact" }, // error unless there are exactly 16 colors
+  pad: { value: "pad" }, // fewer colors are padded with black
+  truncate: { value: "truncate" }, // extra colors are dropped
+  padOrTruncate: { value: "padOrTruncate" },
+} as const);
+
+export type PaletteFitKey = typeof kPaletteFit.$key;
+
+// takes packed RGB colors and returns exactly 16 colors (48 bytes) according to the fit mode.
+export function fitPaletteColors(rgb: Uint8Array, fit: PaletteFitKey): Uint8Array {
+  const colorCount = Math.floor(rgb.length / 3);
+  const canPad = fit === kPaletteFit.key.pad || fit === kPaletteFit.key.padOrTruncate;
+  const canTruncate = fit === kPaletteFit.key.truncate || fit === kPaletteFit.key.padOrTruncate;
+  if (colorCount < kTic80PaletteColorCount && !canPad) {
+    throw new Error(
+      `Palette has ${colorCount} colors; TIC-80 requires ${kTic80PaletteColorCount}. Use paletteFit "pad" to pad with black.`,
+    );
+  }
+  if (colorCount > kTic80PaletteColorCount && !canTruncate) {
+    throw new Error(
+      `Palette has ${colorCount} colors; TIC-80 requires ${kTic80PaletteColorCount}. ` +
+        `Use paletteFit "truncate" to keep the first ${kTic80PaletteColorCount}.`,
+    );
+  }
+  const out = new Uint8Array(kTic80PaletteBytes);
+  out.set(rgb.subarray(0, Math.min(rgb.length - (rgb.length % 3), kTic80PaletteBytes)));
+  return out;
+}
@@ -137,6 +137,20 @@ export const kTic80CartChunkTypes = defineEnum({
 
 export type Tic80CartChunkTypeKey = typeof kTic80CartChunkTypes.$key;
 
+// where bank 0 of a chunk lives in RAM while a cart runs (https://github.com/nesbox/TIC-80/wiki/RAM).
+// only the SCN half of PALETTE is in RAM. code, cover image etc. are not.
+export const kTic80ChunkRamRegions: Partial<Record<Tic80CartChunkTypeKey, { address: number; size: number }>> = {
+  PALETTE: { address: 0x03fc0, size: 48 },
+  TILES: { address: 0x04000, size: 0x2000 },
+  SPRITES: { address: 0x06000, size: 0x2000 },
+  MAP: { address: 0x08000, size: 0x7f80 },
+  WAVEFORMS: { address: 0x0ffe4, size: 0x100 },
+  SFX: { address: 0x100e4, size: 0x1080 },
+  MUSIC_PATTERNS: { address: 0x11164, size: 0x2d00 },
+  MUSIC_TRACKS: { address: 0x13e64, size: 0x198 },
+  FLAGS: { address: 0x14404, size: 0x200 },
+};
+
 export type Tic80CartChunk = {
   chunkType: Tic80CartChunkTypeKey;
   bank: number;
@@ -0,0 +1,422 @@
+// loaders for Tiled map editor files (.tmx XML and .tmj JSON).
+// https://doc.mapeditor.org/en/stable/reference/tmx-map-format/
+// https://doc.mapeditor.org/en/stable/reference/json-map-format/
+//
+// only orthogonal, finite maps are meaningful for TIC-80; infinite maps are rejected.
+
+import * as zlib from "zlib";
+import { parseXml, XmlElement } from "./xml";
+
+export type TiledPropertyValue = string | number | boolean;
+
+export type TiledObject = {
+  id: number;
+  name: string;
+  type: string; // "class" in newer Tiled versions
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, TiledPropertyValue>;
+};
+
+export type TiledTileLayer = {
+  kind: "tile";
+  name: string;
+  width: number;
+  height: number;
+  gids: number[]; // raw global tile ids, row-major, including flip flags. 0 = empty
+};
+
+export type TiledObjectLayer = {
+  kind: "object";
+  name: string;
+  objects: TiledObject[];
+};
+
+export type TiledLayer = TiledTileLayer | TiledObjectLayer;
+
+export type TiledMap = {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  firstGids: number[]; // firstgid of each tileset, ascending
+  layers: TiledLayer[]; // group layers are flattened
+};
+
+const kGidFlagsMask = 0xf0000000; // flip horizontal / vertical / diagonal, rotated hex
+
+// converts a global tile id to the tile's index within its tileset; returns undefined for empty cells.
+export function gidToLocalTileId(map: TiledMap, gid: number): number | undefined {
+  const clean = (gid & ~kGidFlagsMask) >>> 0;
+  if (clean === 0) {
+    return undefined;
+  }
+  let firstGid = 1;
+  for (const g of map.firstGids) {
+    if (g <= clean) {
+      firstGid = g;
+    }
+  }
+  return clean - firstGid;
+}
+
+function decodeLayerData(
+  data: string,
+  encoding: string | undefined,
+  compression: string | undefined,
+  layerName: string,
+): number[] {
+  if (encoding === "csv") {
+    return data
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0)
+      .map((s) => Number.parseInt(s, 10) >>> 0);
+  }
+  if (encoding !== "base64") {
+    throw new Error(`Tiled layer ${layerName}: unsupported data encoding ${encoding}`);
+  }
+  let bytes: Buffer = Buffer.from(data.trim(), "base64");
+  switch (compression || "") {
+    case "":
+      break;
+    case "zlib":
+      bytes = zlib.inflateSync(bytes);
+      break;
+    case "gzip":
+      bytes = zlib.gunzipSync(bytes);
+      break;
+    default:
+      throw new Error(`Tiled layer ${layerName}: unsupported compression ${compression}; use zlib, gzip or CSV`);
+  }
+  const gids: number[] = [];
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    gids.push(bytes.readUInt32LE(i));
+  }
+  return gids;
+}
+
+function parsePropertyValue(type: string | undefined, value: string): TiledPropertyValue {
+  switch (type) {
+    case "int":
+    case "float":
+    case "object":
+      return Number(value);
+    case "bool":
+      return value === "true";
+    default:
+      return value;
+  }
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// TMX (XML)
+
+function tmxProperties(element: XmlElement): Record<string, TiledPropertyValue> {
+  const props: Record<string, TiledPropertyValue> = {};
+  for (const container of element.children.filter((c) => c.name === "properties")) {
+    for (const p of container.children.filter((c) => c.name === "property")) {
+      props[p.attributes.name] = parsePropertyValue(p.attributes.type, p.attributes.value ?? p.text);
+    }
+  }
+  return props;
+}
+
+function tmxLayers(parent: XmlElement, out: TiledLayer[]) {
+  for (const child of parent.children) {
+    if (child.name === "group") {
+      tmxLayers(child, out);
+    } else if (child.name === "layer") {
+      const name = child.attributes.name ?? "";
+      const data = child.children.find((c) => c.name === "data");
+      if (!data) {
+        throw new Error(`Tiled layer ${name} has no data`);
+      }
+      if (data.children.some((c) => c.name === "chunk")) {
+        throw new Error(`Tiled layer ${name}: infinite maps are not supported`);
+      }
+      const gids =
+        data.attributes.encoding === undefined
+          ? data.children.filter((c) => c.name === "tile").map((t) => Number(t.attributes.gid ?? 0) >>> 0)
+          : decodeLayerData(data.text, data.attributes.encoding, data.attributes.compression, name);
+      out.push({
+        kind: "tile",
+        name,
+        width: Number(child.attributes.width),
+        height: Number(child.attributes.height),
+        gids,
+      });
+    } else if (child.name === "objectgroup") {
+      out.push({
+        kind: "object",
+        name: child.attributes.name ?? "",
+        objects: child.children
+          .filter((c) => c.name === "object")
+          .map((o) => ({
+            id: Number(o.attributes.id ?? 0),
+            name: o.attributes.name ?? "",
+            type: o.attributes.type ?? o.attributes.class ?? "",
+            x: Number(o.attributes.x ?? 0),
+            y: Number(o.attributes.y ?? 0),
+            width: Number(o.attributes.width ?? 0),
+            height: Number(o.attributes.height ?? 0),
+            properties: tmxProperties(o),
+          })),
+      });
+    }
+  }
+}
+
+export function parseTmx(text: string): TiledMap {
+  const root = parseXml(text);
+  if (root.name !== "map") {
+    throw new Error(`TMX: root element must be <map>; got <${root.name}>`);
+  }
+  if (root.attributes.infinite === "1") {
+    throw new Error(`TMX: infinite maps are not supported`);
+  }
+  const layers: TiledLayer[] = [];
+  tmxLayers(root, layers);
+  return {
+    width: Number(root.attributes.width),
+    height: Number(root.attributes.height),
+    tileWidth: Number(root.attributes.tilewidth),
+    tileHeight: Number(root.attributes.tileheight),
+    firstGids: root.children
+      .filter((c) => c.name === "tileset")
+      .map((t) => Number(t.attributes.firstgid ?? 1))
+      .sort((a, b) => a - b),
+    layers,
+  };
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// TMJ (JSON)
+
+// the parts of the JSON map format read here. parsed JSON is checked against these as it's narrowed.
+interface TmjProperty {
+  name: string;
+  type?: string;
+  value: TiledPropertyValue;
+}
+
+interface TmjObject {
+  id?: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  properties?: TmjProperty[];
+}
+
+interface TmjLayer {
+  type: string; // "tilelayer", "objectgroup", "group", "imagelayer"
+  name?: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string; // array of gids, or base64 with encoding "base64"
+  encoding?: string;
+  compression?: string;
+  chunks?: unknown[]; // infinite maps only
+  layers?: TmjLayer[]; // groups
+  objects?: TmjObject[]; // object groups
+}
+
+interface TmjTileset {
+  firstgid?: number;
+}
+
+interface TmjMap {
+  type?: string;
+  infinite?: boolean;
+  width?: number;
+  height?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  layers?: TmjLayer[];
+  tilesets?: TmjTileset[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+function tmjObject(value: unknown, where: string): JsonObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`TMJ: ${where} must be an object`);
+  }
+  return value as JsonObject;
+}
+
+function tmjField<T>(
+  json: JsonObject,
+  key: string,
+  where: string,
+  isType: (value: unknown) => value is T,
+  expected: string,
+): T | undefined {
+  const value = json[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isType(value)) {
+    throw new Error(`TMJ: ${where}.${key} must be ${expected}`);
+  }
+  return value;
+}
+
+function tmjArrayField<T>(
+  json: JsonObject,
+  key: string,
+  where: string,
+  narrow: (value: unknown, where: string) => T,
+): T[] | undefined {
+  const value = json[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`TMJ: ${where}.${key} must be an array`);
+  }
+  return value.map((item, i) => narrow(item, `${where}.${key}[${i}]`));
+}
+
+// class-typed properties (object values) can't be represented and come back undefined.
+function narrowTmjProperty(value: unknown, where: string): TmjProperty | undefined {
+  const json = tmjObject(value, where);
+  const name = tmjField(json, "name", where, isString, "a string") ?? "";
+  const type = tmjField(json, "type", where, isString, "a string");
+  const propertyValue = json.value;
+  if (!isString(propertyValue) && !isNumber(propertyValue) && !isBoolean(propertyValue)) {
+    return undefined;
+  }
+  return { name, type, value: propertyValue };
+}
+
+function narrowTmjObject(value: unknown, where: string): TmjObject {
+  const json = tmjObject(value, where);
+  return {
+    id: tmjField(json, "id", where, isNumber, "a number"),
+    name: tmjField(json, "name", where, isString, "a string"),
+    type: tmjField(json, "type", where, isString, "a string"),
+    class: tmjField(json, "class", where, isString, "a string"),
+    x: tmjField(json, "x", where, isNumber, "a number"),
+    y: tmjField(json, "y", where, isNumber, "a number"),
+    width: tmjField(json, "width", where, isNumber, "a number"),
+    height: tmjField(json, "height", where, isNumber, "a number"),
+    properties: tmjArrayField(json, "properties", where, narrowTmjProperty)?.filter((p) => p !== undefined),
+  };
+}
+
+function narrowTmjLayer(value: unknown, where: string): TmjLayer {
+  const json = tmjObject(value, where);
+  const data = json.data;
+  if (data !== undefined && !isString(data) && !(Array.isArray(data) && data.every(isNumber))) {
+    throw new Error(`TMJ: ${where}.data must be an array of numbers or a string`);
+  }
+  return {
+    type: tmjField(json, "type", where, isString, "a string") ?? "",
+    name: tmjField(json, "name", where, isString, "a string"),
+    width: tmjField(json, "width", where, isNumber, "a number"),
+    height: tmjField(json, "height", where, isNumber, "a number"),
+    data,
+    encoding: tmjField(json, "encoding", where, isString, "a string"),
+    compression: tmjField(json, "compression", where, isString, "a string"),
+    chunks: tmjField(json, "chunks", where, Array.isArray, "an array"),
+    layers: tmjArrayField(json, "layers", where, narrowTmjLayer),
+    objects: tmjArrayField(json, "objects", where, narrowTmjObject),
+  };
+}
+
+function narrowTmjTileset(value: unknown, where: string): TmjTileset {
+  const json = tmjObject(value, where);
+  return { firstgid: tmjField(json, "firstgid", where, isNumber, "a number") };
+}
+
+function narrowTmjMap(value: unknown): TmjMap {
+  const json = tmjObject(value, "map");
+  return {
+    type: tmjField(json, "type", "map", isString, "a string"),
+    infinite: tmjField(json, "infinite", "map", isBoolean, "a boolean"),
+    width: tmjField(json, "width", "map", isNumber, "a number"),
+    height: tmjField(json, "height", "map", isNumber, "a number"),
+    tilewidth: tmjField(json, "tilewidth", "map", isNumber, "a number"),
+    tileheight: tmjField(json, "tileheight", "map", isNumber, "a number"),
+    layers: tmjArrayField(json, "layers", "map", narrowTmjLayer),
+    tilesets: tmjArrayField(json, "tilesets", "map", narrowTmjTileset),
+  };
+}
+
+function tmjProperties(properties: TmjProperty[] | undefined): Record<string, TiledPropertyValue> {
+  const props: Record<string, TiledPropertyValue> = {};
+  for (const p of properties || []) {
+    props[p.name] = typeof p.value === "string" ? parsePropertyValue(p.type, p.value) : p.value;
+  }
+  return props;
+}
+
+function tmjLayers(layers: TmjLayer[], out: TiledLayer[]) {
+  for (const layer of layers) {
+    const name = layer.name ?? "";
+    if (layer.type === "group") {
+      tmjLayers(layer.layers || [], out);
+    } else if (layer.type === "tilelayer") {
+      if (layer.chunks) {
+        throw new Error(`Tiled layer ${name}: infinite maps are not supported`);
+      }
+      const gids = Array.isArray(layer.data)
+        ? layer.data.map((g) => g >>> 0)
+        : decodeLayerData(layer.data ?? "", layer.encoding ?? "base64", layer.compression, name);
+      out.push({ kind: "tile", name, width: layer.width ?? 0, height: layer.height ?? 0, gids });
+    } else if (layer.type === "objectgroup") {
+      out.push({
+        kind: "object",
+        name,
+        objects: (layer.objects || []).map((o) => ({
+          id: o.id ?? 0,
+          name: o.name ?? "",
+          type: o.type ?? o.class ?? "",
+          x: o.x ?? 0,
+          y: o.y ?? 0,
+          width: o.width ?? 0,
+          height: o.height ?? 0,
+          properties: tmjProperties(o.properties),
+        })),
+      });
+    }
+  }
+}
+
+export function parseTmj(text: string): TiledMap {
+  const json = narrowTmjMap(JSON.parse(text) as unknown);
+  if (json.type !== undefined && json.type !== "map") {
+    throw new Error(`TMJ: expected type "map"; got "${json.type}"`);
+  }
+  if (json.infinite) {
+    throw new Error(`TMJ: infinite maps are not supported`);
+  }
+  const layers: TiledLayer[] = [];
+  tmjLayers(json.layers || [], layers);
+  return {
+    width: Number(json.width),
+    height: Number(json.height),
+    tileWidth: Number(json.tilewidth),
+    tileHeight: Number(json.tileheight),
+    firstGids: (json.tilesets || []).map((t) => t.firstgid ?? 1).sort((a, b) => a - b),
+    layers,
+  };
+}
+
+export function parseTiledMap(path: string, text: string): TiledMap {
+  if (path.toLowerCase().endsWith(".tmx")) {
+    return parseTmx(text);
+  }
+  return parseTmj(text);
+}
@@ -0,0 +1,59 @@
+import { applyArrayMergeDirective, deepMergeObjects, isArrayMergeDirective } from "./utils";
+
+describe("deepMergeObjects", () => {
+  it("should merge objects and replace arrays", () => {
+    const target = { project: { name: "a", includeDirs: ["./src"] }, keep: 1 };
+    deepMergeObjects(target, { project: { includeDirs: ["./lib"] } });
+    expect(target).toEqual({ project: { name: "a", includeDirs: ["./lib"] }, keep: 1 });
+  });
+
+  it("should apply array merge directives", () => {
+    const target = {
+      project: { includeDirs: ["./src"] },
+      imports: [
+        { name: "main", path: "main.lua" },
+        { name: "sprites", path: "sprites.png" },
+      ],
+    };
+    deepMergeObjects(target, {
+      project: { includeDirs: { $prepend: ["./gen"], $append: ["./debug"] } },
+      imports: { $remove: ["sprites"], $append: [{ name: "debug", path: "debug.lua" }] },
+      blocks: { $append: [{ asset: "debug" }] },
+    });
+    expect(target).toEqual({
+      project: { includeDirs: ["./gen", "./src", "./debug"] },
+      imports: [
+        { name: "main", path: "main.lua" },
+        { name: "debug", path: "debug.lua" },
+      ],
+      blocks: [{ asset: "debug" }],
+    });
+  });
+
+  it("should combine directives merged onto each other", () => {
+    const target = { list: { $prepend: ["b1"], $append: ["b2"], $remove: ["x", "y"] } };
+    deepMergeObjects(target, { list: { $prepend: ["l1"], $append: ["l2"], $remove: ["y", "z"] } });
+    expect(target).toEqual({ list: { $prepend: ["l1", "b1"], $append: ["b2", "l2"], $remove: ["x", "y", "z"] } });
+  });
+
+  it("should reject directives on non-array values", () => {
+    expect(() => deepMergeObjects({ name: "a" }, { name: { $append: ["b"] } })).toThrow(/non-array/);
+    expect(() => deepMergeObjects({ list: [] }, { list: { $append: "b" } })).toThrow(/must be an array/);
+  });
+});
+
+describe("applyArrayMergeDirective", () => {
+  it("should remove elements by value", () => {
+    expect(applyArrayMergeDirective(["a", "b", "a"], { $remove: ["a"] })).toEqual(["b"]);
+    expect(applyArrayMergeDirective([{ asset: "x" }, { asset: "y" }], { $remove: [{ asset: "x" }] })).toEqual([
+      { asset: "y" },
+    ]);
+  });
+
+  it("should only recognize objects made of directive keys", () => {
+    expect(isArrayMergeDirective({ $append: [] })).toBe(true);
+    expect(isArrayMergeDirective({ $append: [], name: "x" })).toBe(false);
+    expect(isArrayMergeDirective({})).toBe(false);
+    expect(isArrayMergeDirective([])).toBe(false);
+  });
+});
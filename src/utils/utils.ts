@@ -31,8 +31,84 @@ export function stripExtension(fileName: string): string {
 export type TObject = { [key: string]: any };
 /////////////////////////////////////////////////////////////////////////////////////////////////////////
 
+// array merge directives; an object of these keys can stand in for an array value being merged:
+//   { "$append": [...], "$prepend": [...], "$remove": [...] }
+// "$remove" drops elements equal to an item. a string item also drops objects with that "name",
+// e.g. { "$remove": ["sprites"] } removes the import named "sprites".
+const kArrayMergeDirectiveKeys = ["$append", "$prepend", "$remove"];
+
+export type ArrayMergeDirective<T> = {
+  $append?: T[];
+  $prepend?: T[];
+  $remove?: (T | string)[];
+};
+
+export function isArrayMergeDirective(value: unknown): value is ArrayMergeDirective<unknown> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => kArrayMergeDirectiveKeys.includes(key));
+}
+
+function arrayElementMatches(element: unknown, item: unknown): boolean {
+  if (typeof item === "string" && element !== null && typeof element === "object" && !Array.isArray(element)) {
+    if ((element as TObject).name === item) {
+      return true;
+    }
+  }
+  return JSON.stringify(element) === JSON.stringify(item);
+}
+
+// applies a directive to an array (a missing array counts as empty); removals apply to the original elements.
+export function applyArrayMergeDirective(
+  target: unknown[] | undefined,
+  directive: ArrayMergeDirective<unknown>,
+): unknown[] {
+  for (const key of kArrayMergeDirectiveKeys) {
+    const items = (directive as TObject)[key];
+    if (items !== undefined && !Array.isArray(items)) {
+      throw new Error(`Array merge directive "${key}" must be an array`);
+    }
+  }
+  const removals = directive.$remove ?? [];
+  const kept = (target ?? []).filter((element) => !removals.some((item) => arrayElementMatches(element, item)));
+  return [...(directive.$prepend ?? []), ...kept, ...(directive.$append ?? [])];
+}
+
+// a directive merged onto another one (e.g. a manifest's over its base's): both sets of edits apply.
+function combineArrayMergeDirectives(
+  target: ArrayMergeDirective<unknown>,
+  source: ArrayMergeDirective<unknown>,
+): ArrayMergeDirective<unknown> {
+  for (const directive of [target, source]) {
+    for (const key of kArrayMergeDirectiveKeys) {
+      const items = (directive as TObject)[key];
+      if (items !== undefined && !Array.isArray(items)) {
+        throw new Error(`Array merge directive "${key}" must be an array`);
+      }
+    }
+  }
+  const combined: ArrayMergeDirective<unknown> = {};
+  if (target.$prepend || source.$prepend) {
+    combined.$prepend = [...(source.$prepend ?? []), ...(target.$prepend ?? [])];
+  }
+  if (target.$append || source.$append) {
+    combined.$append = [...(target.$append ?? []), ...(source.$append ?? [])];
+  }
+  if (target.$remove || source.$remove) {
+    const extra = (source.$remove ?? []).filter(
+      (item) => !(target.$remove ?? []).some((existing) => JSON.stringify(existing) === JSON.stringify(item)),
+    );
+    combined.$remove = [...(target.$remove ?? []), ...extra];
+  }
+  return combined;
+}
+
 // Generic deep merge that treats arrays as leaf values
-export function deepMergeObjects(target: TObject, source: TObject): void {
+// keepDirectives: directives with nothing to apply to are kept as directives, for merging layers of
+// overrides (e.g. build configurations) which apply to arrays later.
+export function deepMergeObjects(target: TObject, source: TObject, keepDirectives = false): void {
   for (const key in source) {
     if (!source.hasOwnProperty(key)) {
       continue;
@@ -45,12 +121,24 @@ export function deepMergeObjects(target: TObject, source: TObject): void {
     if (Array.isArray(sourceValue)) {
       target[key] = sourceValue;
     }
+    // ...unless modified with merge directives. directives merged onto each other are combined.
+    else if (isArrayMergeDirective(sourceValue)) {
+      if (isArrayMergeDirective(targetValue)) {
+        target[key] = combineArrayMergeDirectives(targetValue, sourceValue);
+      } else if (targetValue === undefined && keepDirectives) {
+        target[key] = sourceValue;
+      } else if (targetValue !== undefined && !Array.isArray(targetValue)) {
+        throw new Error(`Cannot apply array merge directive to non-array value "${key}"`);
+      } else {
+        target[key] = applyArrayMergeDirective(targetValue, sourceValue);
+      }
+    }
     // Objects are merged recursively
     else if (sourceValue !== null && typeof sourceValue === "object" && !Array.isArray(sourceValue)) {
       if (!targetValue || typeof targetValue !== "object") {
         target[key] = {};
       }
-      deepMergeObjects(target[key], sourceValue);
+      deepMergeObjects(target[key], sourceValue, keepDirectives);
     }
     // Primitives override
     else {
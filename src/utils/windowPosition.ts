@@ -12,6 +12,27 @@ export interface WindowPlacement {
   height: number;
 }
 
+// saving & restoring a process' window placement; only some platforms have an implementation.
+export interface WindowPositionProvider {
+  getWindowPosition(pid: number): Promise<WindowPlacement | null>;
+  setWindowPosition(pid: number, placement: WindowPlacement): Promise<boolean>;
+  waitForWindow(pid: number, timeoutMs?: number): Promise<boolean>;
+}
+
+const kProviders: Partial<Record<NodeJS.Platform, WindowPositionProvider>> = {};
+
+// lets other platforms plug in an implementation (e.g. via xdotool or AppleScript).
+export function registerWindowPositionProvider(platform: NodeJS.Platform, provider: WindowPositionProvider): void {
+  kProviders[platform] = provider;
+}
+
+// undefined when window placement isn't supported on the platform; callers skip it then.
+export function getWindowPositionProvider(
+  platform: NodeJS.Platform = process.platform,
+): WindowPositionProvider | undefined {
+  return kProviders[platform];
+}
+
 function resolveScriptPath(fileName: string): string {
   // In dev: __dirname = <repo>/src/utils
   // In published build: __dirname = <pkg>/dist/utils
@@ -106,3 +127,5 @@ export async function waitForWindow(pid: number, timeoutMs: number = 5000): Prom
   cons.dim(`[windowPosition] Window not found after ${attempts} attempts (timeout)`);
   return false;
 }
+
+registerWindowPositionProvider("win32", { getWindowPosition, setWindowPosition, waitForWindow });
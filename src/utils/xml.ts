@@ -0,0 +1,157 @@
+// minimal non-validating XML parser; enough for tool-generated documents like Tiled .tmx files.
+// no DTD / namespace support. comments, processing instructions and doctype are skipped.
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated character data directly inside this element
+};
+
+const kNamedEntities: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(entity.substring(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(entity.substring(1), 10));
+    }
+    return kNamedEntities[entity] ?? match;
+  });
+}
+
+function lineNumberAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++;
+    }
+  }
+  return line;
+}
+
+// parses the document and returns the root element.
+export function parseXml(text: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`XML parse error (line ${lineNumberAt(text, pos)}): ${message}`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end === -1) {
+      fail(`unterminated construct; expected '${terminator}'`);
+    }
+    pos = end + terminator.length;
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    const textEnd = lt === -1 ? text.length : lt;
+    if (textEnd > pos && stack.length > 0) {
+      stack[stack.length - 1].text += decodeXmlEntities(text.substring(pos, textEnd));
+    }
+    if (lt === -1) {
+      break;
+    }
+    pos = lt;
+
+    if (text.startsWith("<!--", pos)) {
+      skipPast("-->");
+      continue;
+    }
+    if (text.startsWith("<?", pos)) {
+      skipPast("?>");
+      continue;
+    }
+    if (text.startsWith("<![CDATA[", pos)) {
+      const start = pos + "<![CDATA[".length;
+      skipPast("]]>");
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += text.substring(start, pos - 3);
+      }
+      continue;
+    }
+    if (text.startsWith("<!", pos)) {
+      skipPast(">");
+      continue;
+    }
+
+    if (text.startsWith("</", pos)) {
+      const end = text.indexOf(">", pos);
+      if (end === -1) {
+        fail(`unterminated closing tag`);
+      }
+      const name = text.substring(pos + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(`unexpected closing tag </${name}>`);
+      }
+      pos = end + 1;
+      continue;
+    }
+
+    // opening tag
+    const tagMatch = /^<([A-Za-z_][\w.:-]*)/.exec(text.substring(pos, pos + 256));
+    if (!tagMatch) {
+      fail(`invalid tag`);
+    }
+    const element: XmlElement = { name: tagMatch![1], attributes: {}, children: [], text: "" };
+    pos += tagMatch![0].length;
+
+    const attrPattern = /\s*([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/y;
+    let selfClosing = false;
+    while (true) {
+      attrPattern.lastIndex = pos;
+      const attr = attrPattern.exec(text);
+      if (attr) {
+        element.attributes[attr[1]] = decodeXmlEntities(attr[3] ?? attr[4]);
+        pos = attrPattern.lastIndex;
+        continue;
+      }
+      while (pos < text.length && /\s/.test(text[pos])) {
+        pos++;
+      }
+      if (text.startsWith("/>", pos)) {
+        selfClosing = true;
+        pos += 2;
+        break;
+      }
+      if (text[pos] === ">") {
+        pos += 1;
+        break;
+      }
+      fail(`malformed attributes in <${element.name}>`);
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      fail(`multiple root elements`);
+    } else {
+      root = element;
+    }
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    fail(`document has no root element`);
+  }
+  return root!;
+}